@@ -0,0 +1,13 @@
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    setupFiles: ['<rootDir>/tests/setup.ts'],
+    transform: {
+        // Type errors are left to tsc, which checks the tests along with the plugin
+        '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }]
+    },
+    moduleNameMapper: {
+        // The obsidian package only ships type definitions
+        '^obsidian$': '<rootDir>/tests/mocks/obsidian.ts'
+    }
+};
@@ -1,7 +1,8 @@
 import DailyActivityPlugin from 'src/main';
-import { App, getLinkpath, MarkdownView, Plugin } from 'obsidian';
+import { App, getLinkpath, MarkdownView, Notice, Plugin } from 'obsidian';
 import { Moment } from 'moment';
-import { HeaderFormatter } from './settings/HeaderFormatter';
+import { ReportBlocks } from './reports/ReportBlocks';
+import { FilterQuery } from './filters/FilterQuery';
 
 export class ActivityLogger {
     app: App;
@@ -12,68 +13,29 @@ export class ActivityLogger {
         this.plugin = plugin;
     }
 
-    private getLinks(moment: Moment, makeLink: boolean, includeRegex: string[] = [], excludeRegex: string[] = [], includePaths: string[] = [], excludePaths: string[] = [], statType: 'mtime' | 'ctime'): string[] {
+    private getLinks(moment: Moment, makeLink: boolean, filter: FilterQuery, statType: 'mtime' | 'ctime'): string[] {
         console.log(`Getting links for moment: ${moment.format()}, makeLink: ${makeLink}, statType: ${statType}`);
+        // The created list counts as create events and the modified list as modify events
+        const eventType = statType === 'ctime' ? 'create' : 'modify';
         return this.app.vault.getFiles()
-            .filter(f => moment.isSame(new Date(f.stat[statType]), 'day') && this.fileMatchesFilters(f.path, includeRegex, excludeRegex, includePaths, excludePaths))
+            .filter(f => moment.isSame(new Date(f.stat[statType]), 'day') && filter.matches({ path: f.path, eventType }))
             .map(f => makeLink ? `[[${getLinkpath(f.path)}]]` : getLinkpath(f.path));
     }
 
-    private getLinksToFilesModifiedOnDate(moment: Moment, makeLink = true, includeRegex: string[] = [], excludeRegex: string[] = [], includePaths: string[] = [], excludePaths: string[] = []): string[] {
-        return this.getLinks(moment, makeLink, includeRegex, excludeRegex, includePaths, excludePaths, 'mtime');
+    private getLinksToFilesModifiedOnDate(moment: Moment, makeLink = true, filter: FilterQuery): string[] {
+        return this.getLinks(moment, makeLink, filter, 'mtime');
     }
 
-    private getLinksToFilesCreatedOnDate(moment: Moment, makeLink = true, includeRegex: string[] = [], excludeRegex: string[] = [], includePaths: string[] = [], excludePaths: string[] = []): string[] {
-        return this.getLinks(moment, makeLink, includeRegex, excludeRegex, includePaths, excludePaths, 'ctime');
+    private getLinksToFilesCreatedOnDate(moment: Moment, makeLink = true, filter: FilterQuery): string[] {
+        return this.getLinks(moment, makeLink, filter, 'ctime');
     }
 
-    private isArrayNotEmptyAndNoEmptyStrings(arr: string[]): boolean {
-        return arr.length > 0 && arr.every(item => item !== "");
-    }
-
-    private fileMatchesFilters(filePath: string, includeRegex: string[] = [], excludeRegex: string[] = [], includePaths: string[] = [], excludePaths: string[] = []): boolean {
-        const matches = this.isArrayNotEmptyAndNoEmptyStrings(excludeRegex) && excludeRegex.some(regex => new RegExp(regex).test(filePath)) ? false :
-            this.isArrayNotEmptyAndNoEmptyStrings(excludePaths) && excludePaths.some(part => filePath.includes(part)) ? false :
-                (includeRegex.length === 0 || includeRegex.some(regex => new RegExp(regex).test(filePath))) &&
-                (includePaths.length === 0 || includePaths.some(part => filePath.includes(part)));
-        console.log(`File ${filePath} matches filters: ${matches}`);
-        return matches;
-    }
-
-    appendLinksToContent(existingContent: string, links: string[], header: string, cursorOffset?: number): string {
-        if (links.length === 0) {
-            return existingContent;
-        }
-
-        const plugin = this.plugin as any;
-        const settings = plugin.settings;
-
-        let headerText = '';
-        if (settings.includeHeader) {
-            const currentMoment = window.moment();
-            headerText = HeaderFormatter.formatHeader(settings.headerStyle, header, currentMoment) + '\n\n';
-        }
-
-        if (settings.insertLocation === 'cursor' && cursorOffset !== undefined) {
-            // Insert at cursor position
-            const contentToInsert = `\n\n${headerText}${links.join('\n')}\n`;
-            const beforeCursor = existingContent.substring(0, cursorOffset);
-            const afterCursor = existingContent.substring(cursorOffset);
-            return `${beforeCursor}${contentToInsert}${afterCursor}`;
-        } else {
-            // Append at the end, ensuring there's a blank line before
-            // Check if the existingContent already ends with newlines
-            const endsWithNewline = existingContent.endsWith('\n');
-            const endsWithTwoNewlines = existingContent.endsWith('\n\n');
-
-            if (endsWithTwoNewlines) {
-                return `${existingContent}${headerText}${links.join('\n')}\n`;
-            } else if (endsWithNewline) {
-                return `${existingContent}\n${headerText}${links.join('\n')}\n`;
-            } else {
-                return `${existingContent}\n\n${headerText}${links.join('\n')}\n`;
-            }
-        }
+    /**
+     * Whether a path passes the include/exclude regex and path filters. Excludes
+     * win; with no includes every path is included.
+     */
+    public static matchesFilters(filePath: string, includeRegex: string[] = [], excludeRegex: string[] = [], includePaths: string[] = [], excludePaths: string[] = []): boolean {
+        return FilterQuery.fromLists({ includeRegex, excludeRegex, includePaths, excludePaths }).matchesPath(filePath);
     }
 
     async insertActivityLog({
@@ -85,7 +47,8 @@ export class ActivityLogger {
         includeRegex = [],
         excludeRegex = [],
         includePaths = [],
-        excludePaths = []
+        excludePaths = [],
+        filter = ''
     }: {
         insertCreatedOnDateFiles?: boolean,
         insertModifiedOnDateFiles?: boolean,
@@ -95,67 +58,73 @@ export class ActivityLogger {
         includeRegex?: string[],
         excludeRegex?: string[],
         includePaths?: string[],
-        excludePaths?: string[]
+        excludePaths?: string[],
+        filter?: string
     }) {
         if (!activeView) return;
-        let editor = activeView.editor;
-
-        // Get cursor position
-        const cursorPosition = editor.getCursor();
-        // Convert cursor position to character offset
-        const cursorOffset = editor.posToOffset(cursorPosition);
 
         // Use settings for makeLink if not explicitly provided
         const plugin = this.plugin as any;
         const settings = plugin.settings;
         const shouldMakeLink = makeLink !== null ? makeLink : settings.defaultLinkStyle === 'link';
+        const filters = { includeRegex, excludeRegex, includePaths, excludePaths, filter };
 
-        let content = await this.app.vault.read(activeView.file);
-        let createdTodayLinks: string[] = [];
-
-        // Filter out current note if set in settings
-        const excludeCurrentNoteFilter = (filePath: string) => {
-            if (settings.excludeCurrentNote && activeView && activeView.file) {
-                return filePath !== activeView.file.path;
+        // Each list is its own block, so running the command again updates it
+        const reportBlocks: ReportBlocks = plugin.reportBlocks;
+        try {
+            if (insertCreatedOnDateFiles) {
+                await reportBlocks.insert(activeView, ReportBlocks.linksId('created', moments, shouldMakeLink, filters));
             }
-            return true;
-        };
-
-        if (insertCreatedOnDateFiles) {
-            createdTodayLinks = moments.flatMap(moment =>
-                this.getLinksToFilesCreatedOnDate(moment, shouldMakeLink, includeRegex, excludeRegex, includePaths, excludePaths)
-                    .filter(excludeCurrentNoteFilter)
-            );
-            content = this.appendLinksToContent(content, createdTodayLinks, 'Created', cursorOffset);
-        }
-
-        if (insertModifiedOnDateFiles) {
-            let modifiedTodayLinks: string[] = moments.flatMap(moment =>
-                this.getLinksToFilesModifiedOnDate(moment, shouldMakeLink, includeRegex, excludeRegex, includePaths, excludePaths)
-                    .filter(excludeCurrentNoteFilter)
-                    .filter(link => !createdTodayLinks.includes(link))
-            );
-            // If we've already inserted created links, we need to append to the end
-            const adjustedCursorOffset = insertCreatedOnDateFiles ? undefined : cursorOffset;
-            content = this.appendLinksToContent(content, modifiedTodayLinks, 'Modified', adjustedCursorOffset);
+            if (insertModifiedOnDateFiles) {
+                await reportBlocks.insert(activeView, ReportBlocks.linksId('modified', moments, shouldMakeLink, filters));
+            }
+        } catch (error) {
+            console.error('Failed to insert file list:', error);
+            new Notice(`Failed to insert file list: ${error.message}`);
         }
+    }
 
-        await this.app.vault.modify(activeView.file, content);
+    /**
+     * Links to files created and to files modified on the given days that pass
+     * the filter
+     */
+    getActivityLinks({
+        moments,
+        makeLink,
+        filter,
+        excludeFilePath
+    }: {
+        moments: Moment[],
+        makeLink: boolean,
+        filter: FilterQuery,
+        excludeFilePath?: string
+    }): { created: string[], modified: string[] } {
+        const notExcluded = (link: string) => !excludeFilePath || link !== (makeLink ? `[[${getLinkpath(excludeFilePath)}]]` : getLinkpath(excludeFilePath));
+
+        const created = moments.flatMap(moment =>
+            this.getLinksToFilesCreatedOnDate(moment, makeLink, filter)
+                .filter(notExcluded)
+        );
+        const modified = moments.flatMap(moment =>
+            this.getLinksToFilesModifiedOnDate(moment, makeLink, filter)
+                .filter(notExcluded)
+        );
+
+        return { created, modified };
     }
 
     generateFileStatRow(moment: Moment, stats: string[]): string {
         // Get plugin settings for filters
         const plugin = this.plugin as any;
-        const settings = plugin.settings;
-        const { includeRegex, excludeRegex, includePaths, excludePaths } = settings;
+        const filter: FilterQuery = plugin.filters.fromSettings();
 
         let row = `|${moment.format('YYYY-MM-DD')}|`;
         stats.forEach(stat => {
             let statValue = 0;
             if (stat === 'created') {
-                statValue = this.getLinksToFilesCreatedOnDate(moment, false, includeRegex, excludeRegex, includePaths, excludePaths).length;
+                statValue = this.getLinksToFilesCreatedOnDate(moment, false, filter).length;
             } else if (stat === 'modified') {
-                statValue = this.getLinksToFilesModifiedOnDate(moment, false, includeRegex, excludeRegex, includePaths, excludePaths).length;
+                statValue = this.getLinksToFilesModifiedOnDate(moment, false, filter).length;
             }
             row += `${statValue}|`;
         });
@@ -9,6 +9,29 @@ export interface DateRange {
     end: moment.Moment;
 }
 
+type DateUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+const UNITS: Record<string, DateUnit> = {
+    d: 'day', day: 'day', days: 'day',
+    w: 'week', wk: 'week', wks: 'week', week: 'week', weeks: 'week',
+    m: 'month', mo: 'month', month: 'month', months: 'month',
+    q: 'quarter', quarter: 'quarter', quarters: 'quarter',
+    y: 'year', yr: 'year', yrs: 'year', year: 'year', years: 'year'
+};
+
+// Words between the two ends of a range; a dash only counts with spaces around
+// it, so it doesn't split YYYY-MM-DD
+const RANGE_PATTERN = /^(?:from )?(.+?) (?:to|until|till|through|thru|-|–|—) (.+)$/;
+const BETWEEN_PATTERN = /^between (.+?) and (.+)$/;
+
+/**
+ * Turns what people type for dates into day ranges. Besides YYYY-MM-DD it
+ * understands phrases like "yesterday", "last week", "last 3 days", "past 2
+ * weeks", "since Monday", "March", "Q3 2025", "2025", "3 days ago", "-2w" and
+ * ranges like "yesterday to today"; anything else goes to chrono. Weeks start
+ * on the locale's first day of the week. Input that can't be understood gives an
+ * invalid range.
+ */
 export default class DateParser {
     private plugin: DailyActivityPlugin;
 
@@ -51,63 +74,172 @@ export default class DateParser {
 
     public parseDate(input: string): DateRange {
         try {
-            // Handle 'today'
-            if (input.toLowerCase() === 'today') {
-                const start = moment().startOf('day');
-                const end = moment().endOf('day');
-                return { start, end };
+            const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+
+            // Handle 'since monday': from then until the end of today
+            const since = text.match(/^since (.+)$/);
+            if (since) {
+                const from = DateParser.parseExpression(since[1]) || DateParser.parseWithChrono(since[1]);
+                if (from) {
+                    return { start: from.start, end: moment().endOf('day') };
+                }
             }
 
-            // Handle 'yesterday'
-            if (input.toLowerCase() === 'yesterday') {
-                const start = moment().subtract(1, 'day').startOf('day');
-                const end = moment().subtract(1, 'day').endOf('day');
-                return { start, end };
+            // Handle date range (e.g., 'yesterday to today', '2021-01-01 to 2021-01-31')
+            const ends = text.match(BETWEEN_PATTERN) || text.match(RANGE_PATTERN);
+            if (ends) {
+                const from = DateParser.parseExpression(ends[1]) || DateParser.parseWithChrono(ends[1]);
+                const to = DateParser.parseExpression(ends[2]) || DateParser.parseWithChrono(ends[2]);
+                if (from && to && !to.end.isBefore(from.start)) {
+                    return { start: from.start, end: to.end };
+                }
             }
 
-            // Handle 'this week'
-            if (input.toLowerCase() === 'this week') {
-                const start = moment().startOf('week');
-                const end = moment().endOf('week');
-                return { start, end };
-            }
+            return DateParser.parseExpression(text) || DateParser.parseWithChrono(input) || DateParser.invalid();
+        } catch (exception) {
+            this.plugin.logger.error(exception);
+            throw exception;
+        }
+    }
 
-            // Handle 'last week'
-            if (input.toLowerCase() === 'last week') {
-                const start = moment().subtract(1, 'week').startOf('week');
-                const end = moment().subtract(1, 'week').endOf('week');
-                return { start, end };
-            }
+    /**
+     * The range covered by a pair of from/to fields. An empty field is left open
+     * (null), except that a range typed in the from field, like "last week", also
+     * supplies the end when the to field is empty. `invalid` names the field that
+     * couldn't be understood.
+     */
+    public parseFields(from: string, to: string): { start: Moment | null, end: Moment | null, invalid: 'from' | 'to' | null } {
+        const fromRange = from.trim() ? this.parseDate(from) : null;
+        const toRange = to.trim() ? this.parseDate(to) : null;
+        if (fromRange && !fromRange.start.isValid()) return { start: null, end: null, invalid: 'from' };
+        if (toRange && !toRange.end.isValid()) return { start: null, end: null, invalid: 'to' };
+
+        const end = toRange ? toRange.end
+            : fromRange && !fromRange.start.isSame(fromRange.end, 'day') ? fromRange.end
+                : null;
+        return { start: fromRange ? fromRange.start : null, end, invalid: null };
+    }
 
-            // Handle 'this month'
-            if (input.toLowerCase() === 'this month') {
-                const start = moment().startOf('month');
-                const end = moment().endOf('month');
-                return { start, end };
-            }
+    /**
+     * A range for people to read, e.g. "Mon, Mar 3, 2025 – Sun, Mar 9, 2025 (7 days)"
+     */
+    public static describe(range: DateRange): string {
+        if (!range.start.isValid() || !range.end.isValid()) return 'Invalid date';
+
+        const format = 'ddd, MMM D, YYYY';
+        const days = range.end.clone().startOf('day').diff(range.start.clone().startOf('day'), 'days') + 1;
+        return days <= 1
+            ? range.start.format(format)
+            : `${range.start.format(format)} – ${range.end.format(format)} (${days} days)`;
+    }
 
-            // Handle 'last month'
-            if (input.toLowerCase() === 'last month') {
-                const start = moment().subtract(1, 'month').startOf('month');
-                const end = moment().subtract(1, 'month').endOf('month');
-                return { start, end };
-            }
+    /**
+     * A single date or period; null when the text isn't one the plugin handles itself
+     */
+    private static parseExpression(text: string): DateRange | null {
+        const today = moment().startOf('day');
+        let match: RegExpMatchArray | null;
+
+        if (text === 'today' || text === 'now') return DateParser.period(today, 'day');
+        if (text === 'yesterday') return DateParser.period(today.subtract(1, 'day'), 'day');
+        if (text === 'tomorrow') return DateParser.period(today.add(1, 'day'), 'day');
+
+        // Handle 'this week', 'last month', 'next quarter'
+        if ((match = text.match(/^(this|current|last|previous|next) (\w+)$/)) && UNITS[match[2]]) {
+            const offset = match[1] === 'last' || match[1] === 'previous' ? -1 : match[1] === 'next' ? 1 : 0;
+            return DateParser.period(today.add(offset, UNITS[match[2]]), UNITS[match[2]]);
+        }
 
-            // Handle date range (e.g., '2021-01-01 to 2021-01-31')
-            if (input.toLowerCase().includes('to')) {
-                const [startStr, endStr] = input.split('to').map(s => s.trim());
-                const start = moment(startStr, 'YYYY-MM-DD').startOf('day');
-                const end = moment(endStr, 'YYYY-MM-DD').endOf('day');
-                return { start, end };
-            }
+        // Handle 'last 3 days', 'past 2 weeks': that long up to and including today
+        if ((match = text.match(/^(?:last|past|previous) (\d+) ?(\w+)$/)) && UNITS[match[2]]) {
+            const start = today.clone().subtract(parseInt(match[1]), UNITS[match[2]]).add(1, 'day');
+            return { start, end: moment().endOf('day') };
+        }
 
-            // Handle single date (e.g., '2021-01-01')
-            const start = moment(input, 'YYYY-MM-DD').startOf('day');
-            const end = moment(input, 'YYYY-MM-DD').endOf('day');
-            return { start, end };
-        } catch (exception) {
-            this.plugin.logger.error(exception);
-            throw exception;
+        // Handle 'next 3 days': that long from the start of today
+        if ((match = text.match(/^next (\d+) ?(\w+)$/)) && UNITS[match[2]]) {
+            const end = today.clone().add(parseInt(match[1]), UNITS[match[2]]).subtract(1, 'day').endOf('day');
+            return { start: today, end };
+        }
+
+        // Handle relative offsets: '3 days ago', 'in 2 weeks', '-3d', '+1w'
+        if ((match = text.match(/^(\d+) ?(\w+) ago$/)) && UNITS[match[2]]) {
+            return DateParser.period(today.subtract(parseInt(match[1]), UNITS[match[2]]), 'day');
+        }
+        if ((match = text.match(/^in (\d+) ?(\w+)$/)) && UNITS[match[2]]) {
+            return DateParser.period(today.add(parseInt(match[1]), UNITS[match[2]]), 'day');
         }
+        if ((match = text.match(/^([+-])(\d+) ?(\w+)$/)) && UNITS[match[3]]) {
+            const amount = parseInt(match[2]) * (match[1] === '-' ? -1 : 1);
+            return DateParser.period(today.add(amount, UNITS[match[3]]), 'day');
+        }
+
+        // Handle quarters: 'q3', 'q3 2025', '2025 q3', '2025-q3'
+        if ((match = text.match(/^q([1-4])(?: (\d{4}))?$/)) || (match = text.match(/^(\d{4})[ -]?q([1-4])$/))) {
+            const [quarter, year] = text.startsWith('q') ? [match[1], match[2]] : [match[2], match[1]];
+            const start = moment().startOf('year').quarter(parseInt(quarter));
+            if (year) start.year(parseInt(year));
+            return DateParser.period(start, 'quarter');
+        }
+
+        // Handle a year, a month ('2025-03') or a single date ('2021-01-01')
+        if (/^\d{4}$/.test(text)) return DateParser.period(moment(text, 'YYYY', true), 'year');
+        if (/^\d{4}-\d{2}$/.test(text)) return DateParser.valid(DateParser.period(moment(text, 'YYYY-MM', true), 'month'));
+        if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return DateParser.valid(DateParser.period(moment(text, 'YYYY-MM-DD', true), 'day'));
+
+        // Handle month names: 'march' is the latest March that has started
+        const month = moment(text, ['MMMM YYYY', 'MMM YYYY', 'MMMM', 'MMM'], true);
+        if (month.isValid()) {
+            if (!/\d{4}/.test(text) && month.isAfter(moment())) month.subtract(1, 'year');
+            return DateParser.period(month, 'month');
+        }
+
+        // Handle weekday names: 'monday' is the latest Monday, today included
+        const weekdays = [moment.weekdays(), moment.weekdaysShort()].map(names => names.map(name => name.toLowerCase()));
+        const weekday = weekdays.map(names => names.indexOf(text)).find(index => index !== -1);
+        if (weekday !== undefined) {
+            const day = today.clone().day(weekday);
+            if (day.isAfter(today)) day.subtract(1, 'week');
+            return DateParser.period(day, 'day');
+        }
+
+        return null;
+    }
+
+    /**
+     * Anything else chrono can read in full, widened to whole days, or to the
+     * month or year when that's all it was given. Without a year, dates are the
+     * latest ones that have started, as activity is in the past.
+     */
+    private static parseWithChrono(input: string): DateRange | null {
+        const text = input.trim();
+        const results = chrono.parse(text, new Date(), { forwardDate: false });
+        if (results.length !== 1 || results[0].index !== 0 || results[0].text.length < text.replace(/[.,;]+$/, '').length) {
+            return null;
+        }
+
+        const result = results[0];
+        const unit: DateUnit = result.start.isCertain('day') || result.start.isCertain('weekday') ? 'day'
+            : result.start.isCertain('month') ? 'month'
+                : 'year';
+        const start = DateParser.period(moment(result.start.date()), unit).start;
+        const end = result.end ? moment(result.end.date()).endOf('day') : DateParser.period(moment(result.start.date()), unit).end;
+        if (!result.start.isCertain('year') && start.isAfter(moment())) {
+            start.subtract(1, 'year');
+            end.subtract(1, 'year');
+        }
+        return end.isBefore(start) ? null : { start, end };
+    }
+
+    private static period(date: Moment, unit: DateUnit): DateRange {
+        return { start: date.clone().startOf(unit), end: date.clone().endOf(unit) };
+    }
+
+    private static valid(range: DateRange): DateRange | null {
+        return range.start.isValid() ? range : null;
+    }
+
+    private static invalid(): DateRange {
+        return { start: moment.invalid(), end: moment.invalid() };
     }
 }
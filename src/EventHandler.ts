@@ -1,6 +1,9 @@
-import { App, TFile, Vault, Notice } from 'obsidian';
+import { App, TFile, Vault, Notice, FileView, WorkspaceLeaf } from 'obsidian';
 import { ActivityDatabase, FileEvent } from './database/ActivityDatabase';
+import { FileEventType } from './database/FileEventTypes';
 import { debounce } from 'lodash';
+import { DiffEngine } from './diff/DiffEngine';
+import { FrontmatterEnricher } from './frontmatter/FrontmatterEnricher';
 import DailyActivityPlugin from './main';
 import moment from 'moment';
 
@@ -10,6 +13,11 @@ interface PendingFileChange {
     accumulatedChanges: {
         added: number;
         removed: number;
+        linesAdded?: number;
+        linesRemoved?: number;
+        wordsAdded?: number;
+        wordsRemoved?: number;
+        hunks?: number;
         wordCountBefore?: number;
         wordCountAfter?: number;
         charCountBefore?: number;
@@ -17,9 +25,16 @@ interface PendingFileChange {
     };
     retryCount?: number;
     batchStartTime?: number; // When this batch started
+    firstChangeTime?: number; // First modification since the last recorded event
     forceBatchRecord?: boolean; // Flag to force recording when max duration is reached
 }
 
+// A change the plugin is writing to a note. follow makes the same change to
+// the content last read, given what was written.
+interface OwnWrite {
+    follow: (content: string, written: string) => string;
+}
+
 interface FailedOperation {
     operation: string;
     data: any;
@@ -37,6 +52,7 @@ export class EventHandler {
     private static DB_DEBOUNCE_DELAY = 60000; // 1 minute for DB writes
     private static MAX_RETRY_COUNT = 3;
     private static RETRY_DELAY = 5000; // 5 seconds
+    private static OWN_WRITE_GRACE = 1000; // Modify events can arrive just after a write resolves
     private retryInterval: NodeJS.Timeout | null = null;
     private maxBatchTimers: Map<string, NodeJS.Timeout> = new Map(); // Timers for max batch duration
 
@@ -45,11 +61,23 @@ export class EventHandler {
     private debouncedUpdaters: Map<string, Function> = new Map();
     private failedOperations: Map<string, FailedOperation> = new Map();
 
+    // Workspace state used to derive open/close and focus/blur events
+    private openFiles: Set<string> = new Set();
+    private activeFilePath: string | null = null;
+
+    // Writes activity totals to frontmatter when enabled
+    private frontmatterEnricher: FrontmatterEnricher;
+
+    // Writes the plugin is making, which aren't user edits
+    private ownWrites: Map<string, OwnWrite[]> = new Map();
+
     constructor(app: App, plugin: DailyActivityPlugin) {
         this.app = app;
         this.vault = app.vault;
         this.plugin = plugin;
         this.database = plugin.database;  // Use the plugin's already initialized database
+        this.frontmatterEnricher = new FrontmatterEnricher(app, plugin);
+        this.plugin.registerEvent(this.database.on('event-recorded', (event: FileEvent) => this.frontmatterEnricher.schedule(event)));
         this.initializeEventListeners().catch(error => {
             this.plugin.logger.error('Failed to initialize event listeners:', error);
         });
@@ -78,6 +106,12 @@ export class EventHandler {
                 if (!this.shouldTrackEvent('modify', file.path)) return;
 
                 try {
+                    // Changes written by the plugin aren't user edits
+                    if (this.ownWrites.has(file.path)) {
+                        await this.followOwnWrites(file);
+                        return;
+                    }
+
                     await this.handleModifyWithDebounce(file);
                 } catch (error) {
                     this.handleError('modify', file.path, error);
@@ -111,13 +145,39 @@ export class EventHandler {
                     this.handleError('rename', `${oldPath} -> ${file.path}`, error);
                 }
             });
+
+            // Keep navigation state in step with renames and deletes so they don't
+            // show up as spurious close/open pairs
+            this.plugin.registerEvent(this.vault.on('rename', (file, oldPath: string) => {
+                if (this.openFiles.delete(oldPath)) this.openFiles.add(file.path);
+                if (this.activeFilePath === oldPath) this.activeFilePath = file.path;
+            }));
+            this.plugin.registerEvent(this.vault.on('delete', (file) => {
+                this.openFiles.delete(file.path);
+                if (this.activeFilePath === file.path) this.activeFilePath = null;
+            }));
+
+            // File open/close events, derived from the set of files shown in the workspace
+            this.plugin.registerEvent(this.app.workspace.on('file-open', () => this.syncOpenFiles()));
+            this.plugin.registerEvent(this.app.workspace.on('layout-change', () => this.syncOpenFiles()));
+
+            // File focus/blur events
+            this.plugin.registerEvent(this.app.workspace.on('active-leaf-change', (leaf: WorkspaceLeaf | null) => {
+                this.handleActiveLeafChange(leaf);
+            }));
+
+            // Capture what is already open without recording it as new activity
+            this.app.workspace.onLayoutReady(() => {
+                this.openFiles = this.getOpenFilePaths();
+                this.activeFilePath = this.app.workspace.getActiveFile()?.path ?? null;
+            });
         } catch (error) {
             console.error('Failed to initialize event listeners:', error);
             new Notice('Failed to initialize activity tracking. Please restart Obsidian.');
         }
     }
 
-    private shouldTrackEvent(eventType: 'create' | 'modify' | 'delete' | 'rename', filePath: string): boolean {
+    public shouldTrackEvent(eventType: FileEventType, filePath: string): boolean {
         this.plugin.logger.debug(`Checking if should track event: ${eventType} for ${filePath}`);
 
         // Check if activity tracking is enabled
@@ -134,6 +194,16 @@ export class EventHandler {
             return false;
         }
 
+        // Never track the activity log written by the vault-file storage backend
+        if (filePath === this.database.getVaultStorePath()) {
+            return false;
+        }
+
+        // Nor the per-device logs used for cross-device sync
+        if (this.plugin.activitySync?.isSyncLog(filePath)) {
+            return false;
+        }
+
         // Special handling for Untitled.md files
         const isUntitledFile = filePath === 'Untitled.md' || filePath.endsWith('/Untitled.md');
         if (isUntitledFile) {
@@ -152,7 +222,11 @@ export class EventHandler {
             'create': this.plugin.settings.trackFileCreation,
             'modify': this.plugin.settings.trackFileModification,
             'delete': this.plugin.settings.trackFileDeletion,
-            'rename': this.plugin.settings.trackFileRename
+            'rename': this.plugin.settings.trackFileRename,
+            'open': this.plugin.settings.trackFileOpen,
+            'close': this.plugin.settings.trackFileOpen,
+            'focus': this.plugin.settings.trackFileFocus,
+            'blur': this.plugin.settings.trackFileFocus
         };
 
         if (!eventTypeSettings[eventType]) {
@@ -160,30 +234,89 @@ export class EventHandler {
             return false;
         }
 
-        // Check path filters
-        const includePaths = this.plugin.settings.activityTrackingIncludePaths;
-        const excludePaths = this.plugin.settings.activityTrackingExcludePaths;
+        // Check the include/exclude paths and the tracking filter
+        if (!this.plugin.filters.forTracking().matches({ path: filePath, eventType })) {
+            this.plugin.logger.debug(`${eventType} on ${filePath} doesn't match the activity tracking filters`);
+            return false;
+        }
+
+        this.plugin.logger.debug(`Will track ${eventType} event for ${filePath}`);
+        return true;
+    }
+
+    /**
+     * Paths of files currently shown in the main workspace (sidebars excluded)
+     */
+    private getOpenFilePaths(): Set<string> {
+        const paths = new Set<string>();
+        const workspace = this.app.workspace;
 
-        // If include paths are specified, the file must match at least one
-        if (includePaths.length > 0) {
-            const matches = includePaths.some(path => filePath.includes(path));
-            if (!matches) {
-                this.plugin.logger.debug(`File ${filePath} doesn't match any include paths`);
-                return false;
+        workspace.iterateAllLeaves(leaf => {
+            const root = leaf.getRoot();
+            if (root === workspace.leftSplit || root === workspace.rightSplit) return;
+
+            if (leaf.view instanceof FileView) {
+                if (leaf.view.file) paths.add(leaf.view.file.path);
+            } else {
+                // Tabs that haven't been loaded yet only expose their file through the view state
+                const file = leaf.getViewState().state?.file;
+                if (typeof file === 'string') paths.add(file);
+            }
+        });
+
+        return paths;
+    }
+
+    private syncOpenFiles() {
+        const current = this.getOpenFilePaths();
+
+        for (const filePath of this.openFiles) {
+            if (!current.has(filePath)) {
+                this.recordNavigationEvent('close', filePath);
             }
         }
 
-        // If exclude paths are specified, the file must not match any
-        if (excludePaths.length > 0) {
-            const matches = excludePaths.some(path => filePath.includes(path));
-            if (matches) {
-                this.plugin.logger.debug(`File ${filePath} matches an exclude path`);
-                return false;
+        for (const filePath of current) {
+            if (!this.openFiles.has(filePath)) {
+                this.recordNavigationEvent('open', filePath);
             }
         }
 
-        this.plugin.logger.debug(`Will track ${eventType} event for ${filePath}`);
-        return true;
+        this.openFiles = current;
+    }
+
+    private handleActiveLeafChange(leaf: WorkspaceLeaf | null) {
+        const view = leaf?.view;
+        const filePath = view instanceof FileView && view.file ? view.file.path : null;
+        if (filePath === this.activeFilePath) return;
+
+        if (this.activeFilePath) {
+            this.recordNavigationEvent('blur', this.activeFilePath);
+        }
+        if (filePath) {
+            this.recordNavigationEvent('focus', filePath);
+        }
+
+        this.activeFilePath = filePath;
+    }
+
+    private async recordNavigationEvent(eventType: 'open' | 'close' | 'focus' | 'blur', filePath: string) {
+        if (!this.shouldTrackEvent(eventType, filePath)) return;
+
+        try {
+            if (!this.database.isInitialized()) {
+                this.plugin.logger.debug('Database not initialized, initializing now...');
+                await this.database.initialize();
+            }
+
+            await this.database.recordEvent({
+                timestamp: Date.now(),
+                filePath,
+                eventType
+            });
+        } catch (error) {
+            this.handleError(eventType, filePath, error);
+        }
     }
 
     private handleError(operation: string, filePath: string, error: any) {
@@ -366,9 +499,15 @@ export class EventHandler {
                     content,
                     lastUpdate: timestamp,
                     batchStartTime: timestamp,
+                    firstChangeTime: timestamp,
                     accumulatedChanges: {
                         added: 0,
                         removed: 0,
+                        linesAdded: 0,
+                        linesRemoved: 0,
+                        wordsAdded: 0,
+                        wordsRemoved: 0,
+                        hunks: 0,
                         wordCountBefore: wordCount,
                         wordCountAfter: wordCount,
                         charCountBefore: content.length,
@@ -384,6 +523,9 @@ export class EventHandler {
                 // Update the last update time
                 const pendingChange = this.fileContents.get(filePath)!;
                 pendingChange.lastUpdate = Date.now();
+                if (!pendingChange.firstChangeTime) {
+                    pendingChange.firstChangeTime = pendingChange.lastUpdate;
+                }
 
                 // If this is a forced batch record, handle it immediately
                 if (pendingChange.forceBatchRecord) {
@@ -579,6 +721,45 @@ export class EventHandler {
         this.clearMaxBatchTimer(filePath);
     }
 
+    /**
+     * Make a change to a note that isn't a user edit, such as frontmatter totals
+     * or a generated section. The modify events it causes aren't recorded, and
+     * edits made before it that weren't recorded yet still count.
+     */
+    public async writeOwn(file: TFile, write: () => Promise<unknown>, follow: OwnWrite['follow']): Promise<void> {
+        const ownWrite: OwnWrite = { follow };
+        this.ownWrites.set(file.path, [...(this.ownWrites.get(file.path) || []), ownWrite]);
+        try {
+            await write();
+        } finally {
+            setTimeout(() => {
+                const remaining = (this.ownWrites.get(file.path) || []).filter(other => other !== ownWrite);
+                if (remaining.length > 0) {
+                    this.ownWrites.set(file.path, remaining);
+                } else {
+                    this.ownWrites.delete(file.path);
+                }
+            }, EventHandler.OWN_WRITE_GRACE);
+        }
+    }
+
+    private async followOwnWrites(file: TFile) {
+        const pendingChange = this.fileContents.get(file.path);
+        if (!pendingChange) return;
+
+        const written = await this.vault.read(file);
+        const content = (this.ownWrites.get(file.path) || []).reduce((current, ownWrite) => ownWrite.follow(current, written), pendingChange.content);
+        const wordDelta = this.countWords(content) - this.countWords(pendingChange.content);
+        const charDelta = content.length - pendingChange.content.length;
+
+        const accumulated = pendingChange.accumulatedChanges;
+        accumulated.wordCountBefore = (accumulated.wordCountBefore || 0) + wordDelta;
+        accumulated.wordCountAfter = (accumulated.wordCountAfter || 0) + wordDelta;
+        accumulated.charCountBefore = (accumulated.charCountBefore || 0) + charDelta;
+        accumulated.charCountAfter = (accumulated.charCountAfter || 0) + charDelta;
+        pendingChange.content = content;
+    }
+
     private async trackContentChanges(file: TFile) {
         const newContent = await this.vault.read(file);
         const pendingChange = this.fileContents.get(file.path);
@@ -589,8 +770,7 @@ export class EventHandler {
                 content: newContent,
                 lastUpdate: Date.now(),
                 accumulatedChanges: {
-                    added: newContent.length,
-                    removed: 0,
+                    ...this.calculateDiff('', newContent),
                     wordCountBefore: 0,
                     wordCountAfter: this.countWords(newContent),
                     charCountBefore: 0,
@@ -601,11 +781,17 @@ export class EventHandler {
         }
 
         // Calculate incremental changes
-        const { added, removed } = this.calculateDiff(pendingChange.content, newContent);
+        const diff = this.calculateDiff(pendingChange.content, newContent);
 
         // Update accumulated changes
-        pendingChange.accumulatedChanges.added += Math.max(0, added);
-        pendingChange.accumulatedChanges.removed += Math.max(0, removed);
+        const accumulated = pendingChange.accumulatedChanges;
+        accumulated.added += diff.added;
+        accumulated.removed += diff.removed;
+        accumulated.linesAdded = (accumulated.linesAdded || 0) + diff.linesAdded;
+        accumulated.linesRemoved = (accumulated.linesRemoved || 0) + diff.linesRemoved;
+        accumulated.wordsAdded = (accumulated.wordsAdded || 0) + diff.wordsAdded;
+        accumulated.wordsRemoved = (accumulated.wordsRemoved || 0) + diff.wordsRemoved;
+        accumulated.hunks = (accumulated.hunks || 0) + diff.hunks;
         pendingChange.accumulatedChanges.wordCountAfter = this.countWords(newContent);
         pendingChange.accumulatedChanges.charCountAfter = newContent.length;
         pendingChange.content = newContent;
@@ -629,8 +815,7 @@ export class EventHandler {
                 content,
                 lastUpdate: timestamp,
                 accumulatedChanges: {
-                    added: content.length,
-                    removed: 0,
+                    ...this.calculateDiff('', content),
                     wordCountBefore: 0,
                     wordCountAfter: this.countWords(content),
                     charCountBefore: 0,
@@ -656,6 +841,9 @@ export class EventHandler {
 
             await this.database.recordEvent(event);
             this.plugin.logger.debug('Successfully recorded create event');
+
+            // The first edit counts from the content the note was created with
+            this.startNextBatch(this.fileContents.get(file.path)!);
         } catch (error) {
             this.plugin.logger.error('Failed to record create event:', error);
             throw error;
@@ -677,6 +865,7 @@ export class EventHandler {
             eventType: 'modify',
             contentDiff: {
                 ...pendingChange.accumulatedChanges,
+                batchStartTime: pendingChange.firstChangeTime,
                 lastDebounceTimestamp: timestamp
             }
         };
@@ -684,18 +873,38 @@ export class EventHandler {
         this.plugin.logger.debug('Attempting to record modify event:', {
             file: file.path,
             changes: `+${pendingChange.accumulatedChanges.added}/-${pendingChange.accumulatedChanges.removed}`,
+            lines: `+${pendingChange.accumulatedChanges.linesAdded}/-${pendingChange.accumulatedChanges.linesRemoved}`,
             wordCountChange: `${pendingChange.accumulatedChanges.wordCountBefore} → ${pendingChange.accumulatedChanges.wordCountAfter}`
         });
 
         try {
             await this.database.recordEvent(event);
             this.plugin.logger.debug('Successfully recorded modify event');
+
+            this.startNextBatch(pendingChange);
         } catch (error) {
             this.plugin.logger.error('Failed to record modify event:', error);
             throw error;
         }
     }
 
+    /**
+     * Start the next batch of changes from the content that was just recorded
+     */
+    private startNextBatch(pendingChange: PendingFileChange) {
+        const accumulated = pendingChange.accumulatedChanges;
+        accumulated.added = 0;
+        accumulated.removed = 0;
+        accumulated.linesAdded = 0;
+        accumulated.linesRemoved = 0;
+        accumulated.wordsAdded = 0;
+        accumulated.wordsRemoved = 0;
+        accumulated.hunks = 0;
+        accumulated.wordCountBefore = accumulated.wordCountAfter;
+        accumulated.charCountBefore = accumulated.charCountAfter;
+        pendingChange.firstChangeTime = undefined;
+    }
+
     private async handleFileRename(file: TFile, oldPath: string) {
         try {
             // Ensure database is initialized
@@ -718,8 +927,7 @@ export class EventHandler {
                 eventType,
                 oldPath: isFromUntitled ? undefined : oldPath,
                 contentDiff: {
-                    added: isFromUntitled ? pendingChange.content.length : 0,
-                    removed: 0,
+                    ...this.calculateDiff(isFromUntitled ? '' : pendingChange.content, pendingChange.content),
                     wordCountBefore: isFromUntitled ? 0 : this.countWords(pendingChange.content),
                     wordCountAfter: this.countWords(pendingChange.content),
                     charCountBefore: isFromUntitled ? 0 : pendingChange.content.length,
@@ -740,16 +948,19 @@ export class EventHandler {
         }
     }
 
-    private calculateDiff(oldContent: string, newContent: string): { added: number, removed: number } {
-        const oldLength = oldContent.length;
-        const newLength = newContent.length;
-        const lengthDiff = newLength - oldLength;
+    private calculateDiff(oldContent: string, newContent: string) {
+        // Line diff with word/character counts per hunk, so rewriting text without
+        // changing its length still registers as added and removed content
+        const diff = DiffEngine.diff(oldContent, newContent);
 
-        // If content got longer, we count the difference as added characters
-        // If content got shorter, we count the difference as removed characters
         return {
-            added: Math.max(0, lengthDiff),
-            removed: Math.max(0, -lengthDiff)
+            added: diff.charsAdded,
+            removed: diff.charsRemoved,
+            linesAdded: diff.linesAdded,
+            linesRemoved: diff.linesRemoved,
+            wordsAdded: diff.wordsAdded,
+            wordsRemoved: diff.wordsRemoved,
+            hunks: diff.hunks.length
         };
     }
 
@@ -767,8 +978,7 @@ export class EventHandler {
             filePath: file.path,
             eventType: 'delete',
             contentDiff: {
-                added: 0,
-                removed: pendingChange.content.length,
+                ...this.calculateDiff(pendingChange.content, ''),
                 wordCountBefore: this.countWords(pendingChange.content),
                 wordCountAfter: 0,
                 charCountBefore: pendingChange.content.length,
@@ -840,6 +1050,9 @@ export class EventHandler {
         }
         this.plugin.logger.debug(`Cancelled ${debouncedCount} debounced operations`);
 
+        // Drop frontmatter updates that haven't been written yet
+        this.frontmatterEnricher.cancel();
+
         // Clear retry interval
         if (this.retryInterval) {
             clearInterval(this.retryInterval);
@@ -0,0 +1,185 @@
+import { Moment } from 'moment';
+import { EventRef } from 'obsidian';
+import DateParser from '../DateParser';
+import { FileEvent } from '../database/ActivityDatabase';
+import { FileEventType, FileEventTypes } from '../database/FileEventTypes';
+import { DailyStats, FileStats, StatsAggregator } from '../database/StatsAggregator';
+import { ActivitySession } from '../sessions/SessionBuilder';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Bumped whenever a method or a returned type changes incompatibly
+ */
+export const API_VERSION = 1;
+
+/**
+ * Workspace events, for scripts and plugins that listen with `app.workspace.on(...)`
+ */
+export const API_EVENTS = {
+    ready: 'daily-activity:api-ready',           // (api: ActivityApi)
+    eventRecorded: 'daily-activity:event',       // (event: ActivityEvent)
+    eventsImported: 'daily-activity:import'      // (events: ActivityEvent[])
+};
+
+export type ActivityEventType = FileEventType;
+export type ActivityEvent = FileEvent;
+export type ActivityDailyStats = DailyStats;
+export type ActivityFileStats = FileStats;
+export type ActivitySessionInfo = ActivitySession;
+
+/**
+ * A time range: a date or range DateParser understands ("today", "last week",
+ * "2024-03-01 to 2024-03-07"), or explicit bounds. Bounds are timestamps, Dates
+ * or YYYY-MM-DD strings; a day string for the end includes the whole day.
+ */
+export type ActivityRange = string | {
+    start: number | Date | string;
+    end?: number | Date | string;  // Defaults to now
+};
+
+export interface ActivityEventFilter {
+    eventTypes?: ActivityEventType[];
+    folder?: string;                // Only events for notes in this folder
+    filePath?: string;              // Only events for this note, by its current path
+    deviceIds?: string[];
+    excludeNavigation?: boolean;    // Leave out open, focus, blur and close events
+    limit?: number;                 // Stop after this many events, oldest first
+    query?: string;                 // Filter expression, e.g. "type:modify -tag:#archive"
+}
+
+export interface ActivityApi {
+    readonly version: number;
+    /** Events in a range, oldest first, each under its note's current path */
+    getEvents(range: ActivityRange, filter?: ActivityEventFilter): Promise<ActivityEvent[]>;
+    /** Totals for a local day (YYYY-MM-DD, Date or timestamp); null when nothing was recorded */
+    getDailyStats(date: string | Date | number): Promise<ActivityDailyStats | null>;
+    /** All-time totals for a note by its current path; null when nothing was recorded */
+    getFileStats(filePath: string): Promise<ActivityFileStats | null>;
+    /** Reading and writing sessions that started in a range */
+    getSessions(range: ActivityRange): Promise<ActivitySessionInfo[]>;
+    /** Call back for every recorded event; returns a function that unsubscribes */
+    onEvent(callback: (event: ActivityEvent) => void): () => void;
+}
+
+/**
+ * The plugin's public API, available as `app.plugins.plugins['daily-activity'].api`.
+ * Results are copies, so callers can't change recorded activity.
+ */
+export class DailyActivityApi implements ActivityApi {
+    public readonly version = API_VERSION;
+
+    private plugin: DailyActivityPlugin;
+    private subscriptions: Set<EventRef> = new Set();
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Forward database events to the workspace and announce the API
+     */
+    public load(): void {
+        const database = this.plugin.database;
+        const workspace = this.plugin.app.workspace;
+
+        this.plugin.registerEvent(database.on('event-recorded', (event: FileEvent) => {
+            workspace.trigger(API_EVENTS.eventRecorded, DailyActivityApi.copyEvent(event));
+        }));
+        this.plugin.registerEvent(database.on('events-imported', (events: FileEvent[]) => {
+            workspace.trigger(API_EVENTS.eventsImported, events.map(DailyActivityApi.copyEvent));
+        }));
+        this.plugin.register(() => {
+            this.subscriptions.forEach(ref => database.offref(ref));
+            this.subscriptions.clear();
+        });
+
+        workspace.trigger(API_EVENTS.ready, this);
+    }
+
+    public async getEvents(range: ActivityRange, filter: ActivityEventFilter = {}): Promise<ActivityEvent[]> {
+        const { startTime, endTime } = this.toTimeRange(range);
+        const folder = filter.folder ? filter.folder.replace(/\/+$/, '') + '/' : null;
+        const events: ActivityEvent[] = [];
+
+        await this.plugin.database.iterateEvents({
+            startTime,
+            endTime,
+            eventTypes: filter.eventTypes,
+            deviceIds: filter.deviceIds,
+            excludeBackfill: !this.plugin.settings.includeBackfillInReports,
+            resolvePaths: true,
+            filter: filter.query ? this.plugin.filters.parse(filter.query) : undefined
+        }, event => {
+            if (filter.excludeNavigation && FileEventTypes.isNavigation(event.eventType)) return;
+            if (folder && !event.filePath.startsWith(folder)) return;
+            if (filter.filePath && event.filePath !== filter.filePath) return;
+
+            events.push(DailyActivityApi.copyEvent(event));
+            if (filter.limit && events.length >= filter.limit) return false;
+        });
+
+        return events;
+    }
+
+    public async getDailyStats(date: string | Date | number): Promise<ActivityDailyStats | null> {
+        const key = typeof date === 'string' ? date : StatsAggregator.dateKey(new Date(date).getTime());
+        const stats = await this.plugin.database.getDailyStats(key);
+        return stats ? { ...stats, eventCounts: { ...stats.eventCounts }, filesTouched: [...stats.filesTouched] } : null;
+    }
+
+    public async getFileStats(filePath: string): Promise<ActivityFileStats | null> {
+        const stats = await this.plugin.database.getFileStats(this.plugin.database.resolvePath(filePath));
+        return stats ? { ...stats, previousPaths: stats.previousPaths ? [...stats.previousPaths] : undefined } : null;
+    }
+
+    public async getSessions(range: ActivityRange): Promise<ActivitySessionInfo[]> {
+        const { startTime, endTime } = this.toTimeRange(range);
+        const sessions = await this.plugin.database.getSessionsInTimeRange(startTime, endTime);
+        return sessions.map(session => ({ ...session }));
+    }
+
+    public onEvent(callback: (event: ActivityEvent) => void): () => void {
+        const database = this.plugin.database;
+        const ref = database.on('event-recorded', (event: FileEvent) => {
+            try {
+                callback(DailyActivityApi.copyEvent(event));
+            } catch (error) {
+                this.plugin.logger.error('Activity API subscriber failed:', error);
+            }
+        });
+        this.subscriptions.add(ref);
+
+        return () => {
+            database.offref(ref);
+            this.subscriptions.delete(ref);
+        };
+    }
+
+    private toTimeRange(range: ActivityRange): { startTime: number, endTime: number } {
+        if (typeof range === 'string') {
+            const { start, end } = new DateParser(this.plugin).parseDate(range);
+            if (!start.isValid() || !end.isValid()) {
+                throw new Error(`Invalid activity range: ${range}`);
+            }
+            return { startTime: start.valueOf(), endTime: end.valueOf() };
+        }
+
+        const start = DailyActivityApi.toMoment(range.start);
+        const end = range.end === undefined ? window.moment() : DailyActivityApi.toMoment(range.end);
+        if (typeof range.end === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(range.end)) {
+            end.endOf('day');
+        }
+        if (!start.isValid() || !end.isValid()) {
+            throw new Error('Invalid activity range');
+        }
+        return { startTime: start.valueOf(), endTime: end.valueOf() };
+    }
+
+    private static toMoment(value: number | Date | string): Moment {
+        return typeof value === 'string' ? window.moment(value, [window.moment.ISO_8601, 'YYYY-MM-DD'], true) : window.moment(value);
+    }
+
+    private static copyEvent(event: FileEvent): ActivityEvent {
+        return { ...event, contentDiff: event.contentDiff ? { ...event.contentDiff } : undefined };
+    }
+}
@@ -0,0 +1,217 @@
+import { App, FileSystemAdapter, Platform, TFile } from 'obsidian';
+import { ActivityDatabase, FileEvent } from '../database/ActivityDatabase';
+import DailyActivityPlugin from '../main';
+
+export interface BackfillResult {
+    fileEvents: number;   // Events synthesized from file creation/modification dates
+    gitEvents: number;    // Events synthesized from git commits
+    skipped: number;      // Events already backfilled by an earlier run
+    gitSkipped: string | null;  // Why git history couldn't be read, or null
+}
+
+interface GitChange {
+    commit: string;
+    timestamp: number;
+    filePath: string;
+    linesAdded: number | null;    // null for binary files
+    linesRemoved: number | null;
+}
+
+/**
+ * Fills in activity from before tracking started. Every file gets a create event
+ * at its ctime and a modify event at its mtime, and when the vault is a git
+ * repository each commit adds a modify event per changed file with its line
+ * counts. Only activity older than the first recorded event is backfilled, and
+ * event ids are derived from the source so running it again adds nothing new.
+ */
+export class HistoryBackfill {
+    private app: App;
+    private plugin: DailyActivityPlugin;
+    private database: ActivityDatabase;
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+        this.database = plugin.database;
+    }
+
+    public async run(): Promise<BackfillResult> {
+        const { cutoff, knownEventIds } = await this.scanExistingEvents();
+        const deviceId = this.database.getDeviceId();
+
+        const fileEvents = this.getFileEvents(cutoff);
+        const git = await this.readGitHistory();
+        const gitEvents = git.changes
+            .filter(change => change.timestamp < cutoff && this.plugin.eventHandler.shouldTrackEvent('modify', change.filePath))
+            .map(change => this.toEvent(change));
+
+        const candidates = [...fileEvents, ...gitEvents].map(event => ({ ...event, deviceId }));
+        const newEvents = candidates.filter(event => !knownEventIds.has(event.eventId!));
+
+        await this.database.importEvents(newEvents);
+        this.plugin.logger.info(`Backfilled ${newEvents.length} events`);
+
+        return {
+            fileEvents: newEvents.filter(event => !event.eventId!.startsWith('backfill-git-')).length,
+            gitEvents: newEvents.filter(event => event.eventId!.startsWith('backfill-git-')).length,
+            skipped: candidates.length - newEvents.length,
+            gitSkipped: git.skipped
+        };
+    }
+
+    /**
+     * Find when tracking started (the first event that wasn't backfilled) and
+     * which backfilled events are already stored
+     */
+    private async scanExistingEvents(): Promise<{ cutoff: number, knownEventIds: Set<string> }> {
+        let cutoff = Date.now();
+        const knownEventIds: Set<string> = new Set();
+
+        await this.database.iterateEvents({ raw: true }, event => {
+            if (event.source === 'backfill') {
+                if (event.eventId) knownEventIds.add(event.eventId);
+                event.rollup?.eventIds.forEach(id => knownEventIds.add(id));
+            } else {
+                cutoff = Math.min(cutoff, event.timestamp);
+            }
+        });
+
+        return { cutoff, knownEventIds };
+    }
+
+    private getFileEvents(cutoff: number): FileEvent[] {
+        const events: FileEvent[] = [];
+
+        this.app.vault.getFiles().forEach((file: TFile) => {
+            const { ctime, mtime } = file.stat;
+
+            if (ctime < cutoff && this.plugin.eventHandler.shouldTrackEvent('create', file.path)) {
+                events.push({
+                    timestamp: ctime,
+                    filePath: file.path,
+                    eventType: 'create',
+                    eventId: `backfill-created-${file.path}`,
+                    source: 'backfill'
+                });
+            }
+
+            // A file saved once has the same creation and modification time
+            if (mtime < cutoff && mtime - ctime > 1000 && this.plugin.eventHandler.shouldTrackEvent('modify', file.path)) {
+                events.push({
+                    timestamp: mtime,
+                    filePath: file.path,
+                    eventType: 'modify',
+                    eventId: `backfill-modified-${file.path}-${mtime}`,
+                    source: 'backfill'
+                });
+            }
+        });
+
+        return events;
+    }
+
+    private toEvent(change: GitChange): FileEvent {
+        const event: FileEvent = {
+            timestamp: change.timestamp,
+            filePath: change.filePath,
+            eventType: 'modify',
+            eventId: `backfill-git-${change.commit}-${change.filePath}`,
+            source: 'backfill'
+        };
+
+        // Git only knows about lines, so character counts stay at zero
+        if (change.linesAdded !== null && change.linesRemoved !== null) {
+            event.contentDiff = {
+                added: 0,
+                removed: 0,
+                linesAdded: change.linesAdded,
+                linesRemoved: change.linesRemoved
+            };
+        }
+
+        return event;
+    }
+
+    /**
+     * Read per-file line changes for every commit touching the vault, using the
+     * git command on the PATH. A vault outside a git repository has no changes;
+     * when git can't be run at all, `skipped` says why.
+     */
+    private async readGitHistory(): Promise<{ changes: GitChange[], skipped: string | null }> {
+        const adapter = this.app.vault.adapter;
+        if (!Platform.isDesktopApp || !(adapter instanceof FileSystemAdapter)) {
+            return { changes: [], skipped: 'git history can only be read in the desktop app' };
+        }
+
+        let output: string;
+        try {
+            output = await this.runGit(adapter.getBasePath(), [
+                '-c', 'core.quotepath=off',
+                'log', '--numstat', '--no-renames', '--relative',
+                '--format=%x1e%H%x09%at'
+            ]);
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                this.plugin.logger.warn('git is not installed or not on the PATH; skipping git history');
+                return { changes: [], skipped: 'git is not installed or not on the PATH' };
+            }
+            if (/not a git repository/i.test(error.stderr || '')) {
+                this.plugin.logger.debug('Vault is not in a git repository');
+                return { changes: [], skipped: null };
+            }
+            this.plugin.logger.warn('Failed to read git history:', error);
+            return { changes: [], skipped: 'git log failed, check console for details' };
+        }
+
+        return { changes: HistoryBackfill.parseGitLog(output), skipped: null };
+    }
+
+    private async runGit(cwd: string, args: string[]): Promise<string> {
+        // Loaded lazily; child_process only exists in the desktop app
+        const { execFile } = await import('child_process');
+
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd, maxBuffer: 256 * 1024 * 1024 }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(Object.assign(error, { stderr }));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    /**
+     * Parse `git log --numstat` output where each commit starts with a record
+     * separator followed by "<hash>\t<unix time>"
+     */
+    private static parseGitLog(output: string): GitChange[] {
+        const changes: GitChange[] = [];
+
+        output.split('\x1e').forEach(block => {
+            const lines = block.split('\n').filter(line => line.trim() !== '');
+            if (lines.length === 0) return;
+
+            const [commit, time] = lines[0].split('\t');
+            const timestamp = Number(time) * 1000;
+            if (!commit || isNaN(timestamp)) return;
+
+            lines.slice(1).forEach(line => {
+                const [added, removed, ...pathParts] = line.split('\t');
+                const filePath = pathParts.join('\t');
+                if (!filePath) return;
+
+                // Binary files are listed with "-" instead of line counts
+                changes.push({
+                    commit,
+                    timestamp,
+                    filePath,
+                    linesAdded: added === '-' ? null : Number(added),
+                    linesRemoved: removed === '-' ? null : Number(removed)
+                });
+            });
+        });
+
+        return changes;
+    }
+}
@@ -0,0 +1,130 @@
+import { App, normalizePath, TFile } from 'obsidian';
+import { Moment } from 'moment';
+import { ReportBlocks } from '../reports/ReportBlocks';
+import DailyActivityPlugin from '../main';
+
+export type DailyNoteSectionSchedule = 'off' | 'rollover' | 'time';
+
+interface DailyNoteFormat {
+    format: string;
+    folder: string;
+}
+
+/**
+ * Writes an activity section into the previous day's daily note, either on the
+ * first check after the day rolls over or at a set time. The section is a report
+ * block, so running again updates it in place, and writing it isn't recorded as
+ * an edit.
+ */
+export class DailyNoteAutomation {
+    private static LAST_RUN_KEY = 'daily-activity-daily-note-last-run';
+    private static CHECK_INTERVAL = 60 * 1000;
+
+    private app: App;
+    private plugin: DailyActivityPlugin;
+    private running = false;
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+    }
+
+    public load(): void {
+        this.app.workspace.onLayoutReady(() => this.runIfDue());
+        this.plugin.registerInterval(window.setInterval(() => this.runIfDue(), DailyNoteAutomation.CHECK_INTERVAL));
+    }
+
+    /**
+     * Update yesterday's note if the schedule says it's time and it hasn't been done
+     */
+    public async runIfDue(): Promise<void> {
+        const schedule = this.plugin.settings.dailyNoteSectionSchedule;
+        if (schedule === 'off' || this.running) return;
+
+        const yesterday = window.moment().subtract(1, 'day').startOf('day');
+        const lastRun = this.app.loadLocalStorage(DailyNoteAutomation.LAST_RUN_KEY);
+        if (lastRun && lastRun >= yesterday.format('YYYY-MM-DD')) return;
+
+        if (schedule === 'time') {
+            const runAt = window.moment(this.plugin.settings.dailyNoteSectionTime, 'HH:mm', true);
+            if (runAt.isValid() && window.moment().isBefore(runAt)) return;
+        }
+
+        // A day without a daily note counts as handled, so it isn't looked for again
+        this.running = true;
+        try {
+            await this.updateDailyNote(yesterday);
+            this.app.saveLocalStorage(DailyNoteAutomation.LAST_RUN_KEY, yesterday.format('YYYY-MM-DD'));
+        } catch (error) {
+            this.plugin.logger.error('Failed to update the daily note activity section:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Write or replace the activity section in a day's daily note. Returns false
+     * when the day has no daily note.
+     */
+    public async updateDailyNote(day: Moment): Promise<boolean> {
+        const file = this.findDailyNote(day);
+        if (!file) {
+            this.plugin.logger.debug(`No daily note for ${day.format('YYYY-MM-DD')}`);
+            return false;
+        }
+
+        const id = ReportBlocks.format({ type: 'daily-note', params: [['date', day.format('YYYY-MM-DD')]] });
+        const section = await this.renderSection(day, file);
+        const upsert = (content: string) => ReportBlocks.upsert(content, id, section);
+        await this.plugin.eventHandler.writeOwn(file, () => this.app.vault.process(file, upsert), upsert);
+        this.plugin.logger.info(`Updated activity section in ${file.path}`);
+        return true;
+    }
+
+    /**
+     * Links to the day's created and modified files followed by its Daily Summary,
+     * both narrowed by the filter settings
+     */
+    public async renderSection(day: Moment, dailyNote: TFile | null): Promise<string> {
+        const settings = this.plugin.settings;
+        const { created, modified } = this.plugin.activityLogger.getActivityLinks({
+            moments: [day],
+            makeLink: settings.defaultLinkStyle === 'link',
+            filter: this.plugin.filters.fromSettings(),
+            excludeFilePath: dailyNote?.path
+        });
+
+        const lists: ['created' | 'modified', string[]][] = [['created', created], ['modified', modified.filter(link => !created.includes(link))]];
+        let content = '';
+        for (const [type, links] of lists) {
+            if (links.length === 0) continue;
+            content += (await this.plugin.reportRenderer.renderFileList(type, links, day)).trim() + '\n\n';
+        }
+
+        content += await this.plugin.reportRenderer.renderDailySummary(day, { filter: this.plugin.filters.parse(settings.filterQuery) });
+        return content;
+    }
+
+    /**
+     * The day's note, using the Periodic Notes daily settings when that plugin
+     * handles daily notes, otherwise the core Daily Notes settings
+     */
+    private findDailyNote(day: Moment): TFile | null {
+        const { format, folder } = this.getDailyNoteFormat();
+        const path = normalizePath(`${folder}/${day.format(format)}.md`);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file : null;
+    }
+
+    private getDailyNoteFormat(): DailyNoteFormat {
+        const app = this.app as any;
+        const periodicDaily = app.plugins?.getPlugin?.('periodic-notes')?.settings?.daily;
+        if (periodicDaily?.enabled) {
+            return { format: periodicDaily.format || 'YYYY-MM-DD', folder: periodicDaily.folder || '' };
+        }
+
+        const dailyNotes = app.internalPlugins?.getPluginById?.('daily-notes');
+        const options = dailyNotes?.instance?.options || {};
+        return { format: options.format || 'YYYY-MM-DD', folder: options.folder || '' };
+    }
+}
@@ -1,12 +1,17 @@
 import { App, TFile } from 'obsidian';
 import { ActivityDatabase, FileEvent } from '../database/ActivityDatabase';
+import { FileEventType, FileEventTypes } from '../database/FileEventTypes';
 import DailyActivityPlugin from '../main';
+import { ActivitySession, SessionBuilder } from '../sessions/SessionBuilder';
+import { GoalTracker } from '../goals/GoalTracker';
 
 export interface DashboardSection {
     title: string;
     content: string;
 }
 
+type DailyEventCounts = { total: number } & Record<FileEventType, number>;
+
 export class DashboardGenerator {
     private app: App;
     private database: ActivityDatabase;
@@ -125,28 +130,30 @@ export class DashboardGenerator {
      * Create the dashboard content with various visualizations
      */
     private async createDashboardContent(): Promise<string> {
-        // Gather data for the dashboard
-        const allEvents = await this.database.getAllEvents();
-        const allFileStats = await this.database.getAllFileStats();
-
         // Get the date range
         const now = new Date();
         const thirtyDaysAgo = new Date(now);
         thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-        const last30DaysEvents = allEvents.filter(event =>
-            event.timestamp >= thirtyDaysAgo.getTime() && event.timestamp <= now.getTime()
-        );
+        // Gather data for the dashboard; only the last 30 days of events are read
+        const last30DaysEvents = await this.database.getEventsInTimeRange(thirtyDaysAgo.getTime(), now.getTime());
+        const allFileStats = await this.database.getAllFileStats();
+
+        const last30DaysSessions = await this.database.getSessionsInTimeRange(thirtyDaysAgo.getTime(), now.getTime());
 
         // Generate dashboard sections
         const sections: DashboardSection[] = [
             this.createHeader(),
             await this.createActivitySummary(last30DaysEvents, allFileStats),
+            await this.createGoalsSection(),
             await this.createTopFilesSection(allFileStats),
             await this.createTimeDistributionSection(last30DaysEvents),
             await this.createActivityHeatmap(last30DaysEvents),
             await this.createActivityTrendsSection(last30DaysEvents),
-            await this.createWritingPatternsSection(last30DaysEvents)
+            await this.createWritingPatternsSection(last30DaysEvents),
+            await this.createReadingSection(last30DaysEvents),
+            await this.createTimeSpentSection(last30DaysSessions),
+            await this.createDevicesSection(last30DaysEvents)
         ];
 
         // Combine all sections
@@ -209,10 +216,15 @@ This dashboard provides visualizations and insights from your Obsidian activity
         const modifyEvents = events.filter(e => e.eventType === 'modify').length;
         const deleteEvents = events.filter(e => e.eventType === 'delete').length;
         const renameEvents = events.filter(e => e.eventType === 'rename').length;
+        const openEvents = events.filter(e => e.eventType === 'open').length;
 
         // Calculate content changes
-        const totalAdded = events.reduce((sum, event) => sum + (event.contentDiff?.added || 0), 0);
-        const totalRemoved = events.reduce((sum, event) => sum + (event.contentDiff?.removed || 0), 0);
+        const linesAdded = events.reduce((sum, event) => sum + (event.contentDiff?.linesAdded || 0), 0);
+        const linesRemoved = events.reduce((sum, event) => sum + (event.contentDiff?.linesRemoved || 0), 0);
+        const wordsAdded = events.reduce((sum, event) => sum + (event.contentDiff?.wordsAdded || 0), 0);
+        const wordsRemoved = events.reduce((sum, event) => sum + (event.contentDiff?.wordsRemoved || 0), 0);
+        const charsAdded = events.reduce((sum, event) => sum + (event.contentDiff?.added || 0), 0);
+        const charsRemoved = events.reduce((sum, event) => sum + (event.contentDiff?.removed || 0), 0);
 
         // Count unique files
         const uniqueFiles = new Set(events.map(e => e.filePath)).size;
@@ -223,9 +235,13 @@ This dashboard provides visualizations and insights from your Obsidian activity
 
 - **Total Events:** ${totalEvents}
 - **Unique Files:** ${uniqueFiles}
-- **Lines Added:** ${totalAdded}
-- **Lines Removed:** ${totalRemoved}
-- **Net Change:** ${totalAdded - totalRemoved} lines
+- **Lines Added:** ${linesAdded}
+- **Lines Removed:** ${linesRemoved}
+- **Words Added:** ${wordsAdded}
+- **Words Removed:** ${wordsRemoved}
+- **Characters Added:** ${charsAdded}
+- **Characters Removed:** ${charsRemoved}
+- **Net Change:** ${linesAdded - linesRemoved} lines, ${wordsAdded - wordsRemoved} words
 
 ## Event Breakdown
 
@@ -236,6 +252,7 @@ pie
     "Modified" : ${modifyEvents}
     "Deleted" : ${deleteEvents}
     "Renamed" : ${renameEvents}
+    "Opened" : ${openEvents}
 \`\`\`
 
 ## Activity Snapshot
@@ -264,8 +281,9 @@ pie
         fileStats = fileStats.map(stat => ({
             ...stat,
             totalEdits: stat.totalEdits || 0,
-            totalAdded: stat.totalAdded || 0,
-            totalRemoved: stat.totalRemoved || 0
+            totalLinesAdded: stat.totalLinesAdded || 0,
+            totalLinesRemoved: stat.totalLinesRemoved || 0,
+            totalWordsAdded: stat.totalWordsAdded || 0
         }));
 
         // Sort by total edits
@@ -275,18 +293,18 @@ pie
 
         // Sort by lines added
         const topAddedFiles = [...fileStats]
-            .sort((a, b) => b.totalAdded - a.totalAdded)
+            .sort((a, b) => b.totalLinesAdded - a.totalLinesAdded)
             .slice(0, 10);
 
         // Create table of top edited files
         let topFilesTable = '## Top 10 Most Edited Files\n\n';
-        topFilesTable += '| File | Edits | Lines Added | Lines Removed |\n';
-        topFilesTable += '|------|-------|-------------|---------------|\n';
+        topFilesTable += '| File | Edits | Lines Added | Lines Removed | Words Added |\n';
+        topFilesTable += '|------|-------|-------------|---------------|-------------|\n';
 
         topEditedFiles.forEach(file => {
             const fileName = file.filePath.split('/').pop().replace(/\.md$/, '');
             const fileLink = `[[${fileName}]]`;
-            topFilesTable += `| ${fileLink} | ${file.totalEdits} | ${file.totalAdded} | ${file.totalRemoved} |\n`;
+            topFilesTable += `| ${fileLink} | ${file.totalEdits} | ${file.totalLinesAdded} | ${file.totalLinesRemoved} | ${file.totalWordsAdded} |\n`;
         });
 
         let chartSection = '';
@@ -564,7 +582,7 @@ pie
      */
     private async createActivityTrendsSection(events: FileEvent[]): Promise<DashboardSection> {
         // Group events by date and type
-        const dateData: Record<string, { total: number, create: number, modify: number, delete: number, rename: number }> = {};
+        const dateData: Record<string, DailyEventCounts> = {};
         const dates: string[] = [];
 
         // Generate dates for the last 30 days
@@ -574,7 +592,7 @@ pie
             date.setDate(date.getDate() - i);
             const dateStr = this.formatDate(date);
             dates.push(dateStr);
-            dateData[dateStr] = { total: 0, create: 0, modify: 0, delete: 0, rename: 0 };
+            dateData[dateStr] = { total: 0, ...FileEventTypes.createEmptyCounts() };
         }
 
         // Count events by date and type
@@ -655,7 +673,7 @@ pie
             // Pie chart for event types
             trendsContent += '## Event Type Distribution\n\n```chart\n';
             trendsContent += 'type: pie\n';
-            trendsContent += 'labels: ["Created", "Modified", "Deleted", "Renamed"]\n';
+            trendsContent += 'labels: ["Created", "Modified", "Deleted", "Renamed", "Opened"]\n';
             trendsContent += 'series:\n';
             trendsContent += '  - data: [';
 
@@ -663,8 +681,9 @@ pie
             const modifyTotal = dates.reduce((sum, date) => sum + dateData[date].modify, 0);
             const deleteTotal = dates.reduce((sum, date) => sum + dateData[date].delete, 0);
             const renameTotal = dates.reduce((sum, date) => sum + dateData[date].rename, 0);
+            const openTotal = dates.reduce((sum, date) => sum + dateData[date].open, 0);
 
-            trendsContent += `${createTotal}, ${modifyTotal}, ${deleteTotal}, ${renameTotal}`;
+            trendsContent += `${createTotal}, ${modifyTotal}, ${deleteTotal}, ${renameTotal}, ${openTotal}`;
             trendsContent += ']\n';
 
             trendsContent += 'width: 60%\n';
@@ -704,7 +723,8 @@ pie
                 'Created': dates.reduce((sum, date) => sum + dateData[date].create, 0),
                 'Modified': dates.reduce((sum, date) => sum + dateData[date].modify, 0),
                 'Deleted': dates.reduce((sum, date) => sum + dateData[date].delete, 0),
-                'Renamed': dates.reduce((sum, date) => sum + dateData[date].rename, 0)
+                'Renamed': dates.reduce((sum, date) => sum + dateData[date].rename, 0),
+                'Opened': dates.reduce((sum, date) => sum + dateData[date].open, 0)
             };
 
             trendsContent += '## Event Type Distribution\n\n```mermaid\npie\n';
@@ -735,7 +755,7 @@ pie
         // Filter to only modifications with content changes
         const modifyEvents = events.filter(e =>
             e.eventType === 'modify' && e.contentDiff &&
-            (e.contentDiff.added > 0 || e.contentDiff.removed > 0)
+            ((e.contentDiff.linesAdded || 0) > 0 || (e.contentDiff.linesRemoved || 0) > 0)
         );
 
         if (modifyEvents.length === 0) {
@@ -746,19 +766,20 @@ pie
         }
 
         // Analyze content changes
-        const totalAdditions = modifyEvents.reduce((sum, e) => sum + e.contentDiff!.added, 0);
-        const totalDeletions = modifyEvents.reduce((sum, e) => sum + e.contentDiff!.removed, 0);
+        const linesChanged = (e: FileEvent) => (e.contentDiff!.linesAdded || 0) + (e.contentDiff!.linesRemoved || 0);
+        const totalAdditions = modifyEvents.reduce((sum, e) => sum + (e.contentDiff!.linesAdded || 0), 0);
+        const totalDeletions = modifyEvents.reduce((sum, e) => sum + (e.contentDiff!.linesRemoved || 0), 0);
 
         const avgAdditionsPerEdit = totalAdditions / modifyEvents.length;
         const avgDeletionsPerEdit = totalDeletions / modifyEvents.length;
 
         // Categorize edits by size
-        const smallEdits = modifyEvents.filter(e => e.contentDiff!.added + e.contentDiff!.removed < 10).length;
+        const smallEdits = modifyEvents.filter(e => linesChanged(e) < 10).length;
         const mediumEdits = modifyEvents.filter(e => {
-            const total = e.contentDiff!.added + e.contentDiff!.removed;
+            const total = linesChanged(e);
             return total >= 10 && total < 50;
         }).length;
-        const largeEdits = modifyEvents.filter(e => e.contentDiff!.added + e.contentDiff!.removed >= 50).length;
+        const largeEdits = modifyEvents.filter(e => linesChanged(e) >= 50).length;
 
         let writingContent = '## Content Changes\n\n';
 
@@ -811,6 +832,195 @@ pie
         };
     }
 
+    /**
+     * Create a section showing which notes are read, as opposed to edited
+     */
+    private async createReadingSection(events: FileEvent[]): Promise<DashboardSection> {
+        const opens: Record<string, number> = {};
+        const focuses: Record<string, number> = {};
+        const edited = new Set<string>();
+
+        events.forEach(event => {
+            if (event.eventType === 'open') {
+                opens[event.filePath] = (opens[event.filePath] || 0) + 1;
+            } else if (event.eventType === 'focus') {
+                focuses[event.filePath] = (focuses[event.filePath] || 0) + 1;
+            } else if (event.eventType === 'modify' || event.eventType === 'create') {
+                edited.add(event.filePath);
+            }
+        });
+
+        const openedFiles = Object.keys(opens);
+        if (openedFiles.length === 0) {
+            return {
+                title: "Reading Activity",
+                content: "No file open events recorded yet. Enable open and focus tracking in the plugin settings to see which notes you read."
+            };
+        }
+
+        const topOpened = openedFiles
+            .sort((a, b) => opens[b] - opens[a])
+            .slice(0, 10);
+
+        let content = '## Most Opened Notes\n\n';
+        content += '| File | Opens | Focus Switches | Edited |\n';
+        content += '|------|-------|----------------|--------|\n';
+
+        topOpened.forEach(filePath => {
+            const fileName = filePath.split('/').pop().replace(/\.md$/, '');
+            content += `| [[${fileName}]] | ${opens[filePath]} | ${focuses[filePath] || 0} | ${edited.has(filePath) ? 'Yes' : 'No'} |\n`;
+        });
+
+        // Notes that are opened repeatedly but never edited are likely reference material
+        const referenceNotes = openedFiles
+            .filter(filePath => !edited.has(filePath) && opens[filePath] > 1)
+            .slice(0, 10);
+
+        if (referenceNotes.length > 0) {
+            content += '\n## Reference Notes\n\n';
+            content += 'Notes you opened more than once in the last 30 days without editing them:\n\n';
+            referenceNotes.forEach(filePath => {
+                const fileName = filePath.split('/').pop().replace(/\.md$/, '');
+                content += `- [[${fileName}]] (${opens[filePath]} opens)\n`;
+            });
+        }
+
+        return {
+            title: "Reading Activity",
+            content
+        };
+    }
+
+    /**
+     * Create a section with progress towards each goal and a calendar of streak days
+     */
+    private async createGoalsSection(): Promise<DashboardSection> {
+        const goalTracker = this.plugin.goalTracker;
+        const [progress, streaks] = await Promise.all([goalTracker.getProgress(), goalTracker.getStreaks()]);
+
+        let content = '';
+        if (progress.length === 0) {
+            content += "No goals set. Add daily or weekly goals in the plugin settings; until then, any day with edits counts towards the streak.\n\n";
+        } else {
+            content += '| Goal | Progress | |\n';
+            content += '|------|----------|---|\n';
+            progress.forEach(p => {
+                const status = p.met ? '✅' : `${Math.floor((p.current / p.goal.target) * 100)}%`;
+                content += `| ${GoalTracker.describe(p.goal)} | <progress value="${Math.min(p.current, p.goal.target)}" max="${p.goal.target}"></progress> ${p.current} / ${p.goal.target} | ${status} |\n`;
+            });
+            content += '\n';
+        }
+
+        content += `- **Current Streak:** ${streaks.current} ${streaks.current === 1 ? 'day' : 'days'}\n`;
+        content += `- **Longest Streak:** ${streaks.longest} ${streaks.longest === 1 ? 'day' : 'days'}\n\n`;
+
+        // Last 12 weeks, one row per week starting on the locale's first day of the week
+        const today = window.moment().startOf('day');
+        const start = today.clone().startOf('week').subtract(11, 'weeks');
+        content += `| Week | ${window.moment.weekdaysShort(true).join(' | ')} |\n`;
+        content += `|------|${window.moment.weekdaysShort(true).map(() => '---').join('|')}|\n`;
+        for (const week = start.clone(); week.isSameOrBefore(today); week.add(1, 'week')) {
+            const cells: string[] = [];
+            for (let offset = 0; offset < 7; offset++) {
+                const day = week.clone().add(offset, 'days');
+                if (day.isAfter(today)) {
+                    cells.push(' ');
+                } else {
+                    cells.push(streaks.days.get(day.format('YYYY-MM-DD')) ? '🟩' : '⬜');
+                }
+            }
+            content += `| ${week.format('MMM D')} | ${cells.join(' | ')} |\n`;
+        }
+
+        return {
+            title: "Goals",
+            content
+        };
+    }
+
+    /**
+     * Create a section showing estimated time spent per note, based on sessions
+     */
+    private async createTimeSpentSection(sessions: ActivitySession[]): Promise<DashboardSection> {
+        const byFile = SessionBuilder.summarizeByFile(sessions).filter(file => file.activeDuration > 0);
+
+        if (byFile.length === 0) {
+            return {
+                title: "Time Spent",
+                content: "No sessions recorded in the last 30 days."
+            };
+        }
+
+        const totalActive = byFile.reduce((sum, file) => sum + file.activeDuration, 0);
+        const totalSessions = byFile.reduce((sum, file) => sum + file.sessions, 0);
+
+        let content = `- **Total Active Time:** ${SessionBuilder.formatDuration(totalActive)}\n`;
+        content += `- **Sessions:** ${totalSessions}\n`;
+        content += `- **Average Session:** ${SessionBuilder.formatDuration(totalActive / totalSessions)}\n\n`;
+
+        content += '## Time Spent per Note\n\n';
+        content += '| File | Sessions | Active Time | Share |\n';
+        content += '|------|----------|-------------|-------|\n';
+
+        byFile.slice(0, 10).forEach(file => {
+            const fileName = file.filePath.split('/').pop().replace(/\.md$/, '');
+            const share = Math.round((file.activeDuration / totalActive) * 100);
+            content += `| [[${fileName}]] | ${file.sessions} | ${SessionBuilder.formatDuration(file.activeDuration)} | ${share}% |\n`;
+        });
+
+        content += '\n*Time is estimated from gaps between recorded events; idle periods longer than the modify batching window end a session.*';
+
+        return {
+            title: "Time Spent",
+            content
+        };
+    }
+
+    /**
+     * Create a section breaking activity down by the device it was recorded on
+     */
+    private async createDevicesSection(events: FileEvent[]): Promise<DashboardSection> {
+        const localDeviceId = this.database.getDeviceId();
+        const byDevice: Record<string, { events: number, edits: number, wordsAdded: number, lastActive: number }> = {};
+
+        events.forEach(event => {
+            const deviceId = event.deviceId || localDeviceId;
+            if (!byDevice[deviceId]) {
+                byDevice[deviceId] = { events: 0, edits: 0, wordsAdded: 0, lastActive: 0 };
+            }
+            const device = byDevice[deviceId];
+            device.events++;
+            if (!FileEventTypes.isNavigation(event.eventType)) {
+                device.edits++;
+            }
+            device.wordsAdded += event.contentDiff?.wordsAdded || 0;
+            device.lastActive = Math.max(device.lastActive, event.timestamp);
+        });
+
+        const deviceIds = Object.keys(byDevice).sort((a, b) => byDevice[b].events - byDevice[a].events);
+        if (deviceIds.length < 2) {
+            return {
+                title: "Devices",
+                content: this.plugin.settings.syncEnabled
+                    ? "Only this device has recorded activity in the last 30 days."
+                    : "Enable cross-device sync in the plugin settings to combine activity from all your devices."
+            };
+        }
+
+        let content = '| Device | Events | Edits | Words Added | Last Active |\n';
+        content += '|--------|--------|-------|-------------|-------------|\n';
+        deviceIds.forEach(deviceId => {
+            const device = byDevice[deviceId];
+            const name = deviceId === localDeviceId ? `${deviceId} (this device)` : deviceId;
+            content += `| ${name} | ${device.events} | ${device.edits} | ${device.wordsAdded} | ${new Date(device.lastActive).toLocaleDateString()} |\n`;
+        });
+
+        return {
+            title: "Devices",
+            content
+        };
+    }
+
     /**
      * Helper method to describe day of week patterns
      */
@@ -934,7 +1144,7 @@ pie
     /**
      * Helper method to analyze trends
      */
-    private analyzeTrends(dateData: Record<string, { total: number, create: number, modify: number, delete: number, rename: number }>): string {
+    private analyzeTrends(dateData: Record<string, DailyEventCounts>): string {
         const dates = Object.keys(dateData).sort();
 
         // Calculate 7-day averages
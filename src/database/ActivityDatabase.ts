@@ -1,44 +1,89 @@
-import { App } from 'obsidian';
+import { App, Events } from 'obsidian';
 import moment from 'moment';
+import { ActivitySession } from '../sessions/SessionBuilder';
+import { ActivityStore, StorageBackend } from './ActivityStore';
+import { IndexedDBStore } from './IndexedDBStore';
+import { MemoryStore } from './MemoryStore';
+import { VaultFileStore } from './VaultFileStore';
+import { DailyStats, FileStats, StatsAggregator } from './StatsAggregator';
+import { DeviceIdentity } from '../sync/DeviceIdentity';
+import { CompactionResult, EventCompactor, EventRollup, RollupGranularity } from './EventCompactor';
+import { NoteIdentity } from './NoteIdentity';
+import { FilterQuery } from '../filters/FilterQuery';
+import { FileEventType } from './FileEventTypes';
 
 export interface FileEvent {
     id?: number;
+    eventId?: string;  // Stable across devices, used to deduplicate synced events
+    deviceId?: string; // Device the event was recorded on
     timestamp: number;
     filePath: string;
-    eventType: 'create' | 'modify' | 'delete' | 'rename';
+    eventType: FileEventType;
     oldPath?: string;  // For rename events
     contentDiff?: {
-        added: number;
-        removed: number;
+        added: number;     // Characters added
+        removed: number;   // Characters removed
+        linesAdded?: number;
+        linesRemoved?: number;
+        wordsAdded?: number;
+        wordsRemoved?: number;
+        hunks?: number;    // Number of changed regions in the line diff
         wordCountBefore?: number;
         wordCountAfter?: number;
         charCountBefore?: number;
         charCountAfter?: number;
+        batchStartTime?: number;  // First change in a batched modify
         lastDebounceTimestamp?: number;
     };
+    rollup?: EventRollup;  // Set when this event stands for several compacted raw events
+    source?: 'backfill';   // Set on events reconstructed from file dates or git history
 }
 
 export interface ExportOptions {
     format: 'json' | 'csv';
     startDate?: number;
     endDate?: number;
-    includeTypes?: ('create' | 'modify' | 'delete' | 'rename')[];
+    includeTypes?: FileEventType[];
+    deviceIds?: string[];
     fields?: string[];
+    filter?: FilterQuery;
 }
 
-export class ActivityDatabase {
-    private static DB_NAME = 'daily-activity-db';
-    private static DB_VERSION = 3;
-    private static EVENTS_STORE = 'file_events';
-    private static DAILY_STATS_STORE = 'daily_stats';
-    private static FILE_STATS_STORE = 'file_stats';
+export interface EventQuery {
+    startTime?: number;
+    endTime?: number;
+    filePath?: string;
+    eventTypes?: FileEventType[];
+    deviceIds?: string[];
+    raw?: boolean;  // Return compacted rollups as stored instead of expanding them
+    excludeBackfill?: boolean;
+    resolvePaths?: boolean;  // Report each event under its note's current path
+    filter?: FilterQuery;  // Checked against each event under the path it's reported with
+}
+
+export interface EventPage {
+    events: FileEvent[];
+    nextCursor: EventCursor | null;  // Pass back to getEventsPage for the next page
+}
 
+export interface EventCursor {
+    timestamp: number;
+    id: number;
+}
+
+/**
+ * Entry point for recorded activity. Delegates storage to the configured
+ * ActivityStore and triggers 'event-recorded' after each event is stored.
+ */
+export class ActivityDatabase extends Events {
     private static instance: ActivityDatabase;
     private app: App;
-    private db: IDBDatabase | null = null;
+    private store: ActivityStore | null = null;
     private plugin: any;
+    private noteIdentity: NoteIdentity = new NoteIdentity();
 
     private constructor(app: App, plugin: any) {
+        super();
         this.app = app;
         this.plugin = plugin;
     }
@@ -61,60 +106,58 @@ export class ActivityDatabase {
     }
 
     public isInitialized(): boolean {
-        return this.db !== null;
+        return this.store !== null && this.store.isInitialized();
     }
 
-    public async initialize(): Promise<void> {
+    /**
+     * Open the storage backend selected in settings, or the given store
+     */
+    public async initialize(store?: ActivityStore): Promise<void> {
         if (this.isInitialized()) {
             this.plugin.logger.debug('Database already initialized');
             return;
         }
 
-        this.plugin.logger.debug('Opening IndexedDB database...');
-
-        return new Promise((resolve, reject) => {
-            const request = indexedDB.open(ActivityDatabase.DB_NAME, ActivityDatabase.DB_VERSION);
-
-            request.onerror = (event) => {
-                this.plugin.logger.error('Failed to open database:', event);
-                reject(event);
-            };
-
-            request.onsuccess = (event) => {
-                this.db = (event.target as IDBOpenDBRequest).result;
-                this.plugin.logger.debug('Database opened successfully');
-                resolve();
-            };
-
-            request.onupgradeneeded = (event) => {
-                this.plugin.logger.debug('Database upgrade needed...');
-                const db = (event.target as IDBOpenDBRequest).result;
-
-                // Create object stores if they don't exist
-                if (!db.objectStoreNames.contains(ActivityDatabase.EVENTS_STORE)) {
-                    const eventsStore = db.createObjectStore(ActivityDatabase.EVENTS_STORE, {
-                        keyPath: 'id',
-                        autoIncrement: true
-                    });
-                    eventsStore.createIndex('timestamp', 'timestamp');
-                    eventsStore.createIndex('filePath', 'filePath');
-                    eventsStore.createIndex('eventType', 'eventType');
-                    eventsStore.createIndex('date', 'date');
-                }
+        this.store = store || this.createStore(this.plugin.settings.storageBackend);
+        await this.store.initialize();
 
-                if (!db.objectStoreNames.contains(ActivityDatabase.DAILY_STATS_STORE)) {
-                    db.createObjectStore(ActivityDatabase.DAILY_STATS_STORE, {
-                        keyPath: 'date'
-                    });
-                }
+        const renames = await this.queryEvents({ eventTypes: ['rename'], raw: true });
+        this.noteIdentity = NoteIdentity.fromEvents(renames);
+    }
 
-                if (!db.objectStoreNames.contains(ActivityDatabase.FILE_STATS_STORE)) {
-                    db.createObjectStore(ActivityDatabase.FILE_STATS_STORE, {
-                        keyPath: 'filePath'
-                    });
-                }
-            };
-        });
+    /**
+     * Close the current backend and open the one selected in settings
+     */
+    public async reopen(): Promise<void> {
+        await this.close();
+        this.store = null;
+        await this.initialize();
+    }
+
+    private createStore(backend: StorageBackend): ActivityStore {
+        switch (backend) {
+            case 'memory':
+                return new MemoryStore(this.plugin);
+            case 'vault-file':
+                return new VaultFileStore(this.plugin, this.plugin.settings.vaultStorePath);
+            case 'indexeddb':
+            default:
+                return new IndexedDBStore(this.plugin);
+        }
+    }
+
+    /**
+     * Path of the vault file the activity log is written to, if that backend is in use
+     */
+    public getVaultStorePath(): string | null {
+        return this.store instanceof VaultFileStore ? this.store.getFilePath() : null;
+    }
+
+    private requireStore(): ActivityStore {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+        return this.store!;
     }
 
     public async recordEvent(event: FileEvent): Promise<void> {
@@ -129,208 +172,278 @@ export class ActivityDatabase {
             timestamp: event.timestamp
         });
 
-        const eventDate = new Date(event.timestamp).toISOString().split('T')[0];
-        const eventWithDate = { ...event, date: eventDate };
+        const stamped: FileEvent = {
+            ...event,
+            deviceId: event.deviceId || this.getDeviceId(),
+            eventId: event.eventId || DeviceIdentity.createEventId(event.deviceId || this.getDeviceId(), event.timestamp)
+        };
+
+        await this.store!.recordEvent(stamped);
+        this.noteIdentity.addEvent(stamped);
+        this.trigger('event-recorded', stamped);
+    }
+
+    /**
+     * Add events recorded elsewhere (e.g. on another device or in an export).
+     * Unlike recordEvent this triggers 'events-imported' once for the batch
+     * instead of 'event-recorded', and sessions are rebuilt from the imported
+     * events alone rather than merged into the live ones.
+     */
+    public async importEvents(events: FileEvent[]): Promise<void> {
+        if (events.length === 0) return;
+        await this.requireStore().importEvents(events);
+        events.forEach(event => this.noteIdentity.addEvent(event));
+        this.plugin.logger.debug(`Imported ${events.length} events`);
+        this.trigger('events-imported', events);
+    }
 
-        return new Promise((resolve, reject) => {
-            const transaction = this.db!.transaction(
-                [ActivityDatabase.EVENTS_STORE, ActivityDatabase.DAILY_STATS_STORE, ActivityDatabase.FILE_STATS_STORE],
-                'readwrite'
-            );
+    /**
+     * Current path of the note that was at `filePath` at `timestamp`, following
+     * renames. Without a timestamp every rename away from the path is followed.
+     */
+    public resolvePath(filePath: string, timestamp?: number): string {
+        return this.noteIdentity.resolve(filePath, timestamp);
+    }
 
-            try {
-                // Record the event
-                const eventsStore = transaction.objectStore(ActivityDatabase.EVENTS_STORE);
-                eventsStore.add(eventWithDate);
+    /**
+     * Id of this device in synced activity logs
+     */
+    public getDeviceId(): string {
+        return DeviceIdentity.getDeviceId(this.app);
+    }
 
-                // Update daily stats
-                const dailyStatsStore = transaction.objectStore(ActivityDatabase.DAILY_STATS_STORE);
-                const dailyStatsRequest = dailyStatsStore.get(eventDate);
+    public async close(): Promise<void> {
+        if (this.store) {
+            await this.store.close();
+            this.plugin.logger.debug('Database connection closed');
+        }
+    }
 
-                dailyStatsRequest.onsuccess = () => {
-                    // Add debug logging for modify events
-                    if (event.eventType === 'modify') {
-                        this.plugin.logger.debug('Debug modify event - Initial dailyStatsRequest.result:', dailyStatsRequest.result);
-                    }
+    public async getDailyStats(date: string): Promise<DailyStats | undefined> {
+        if (this.excludesBackfill()) {
+            // Stored aggregates include backfilled events, so rebuild the day without them
+            const { startTime, endTime } = StatsAggregator.dayBounds(date);
+            const events = await this.queryEvents({ startTime, endTime, excludeBackfill: true, resolvePaths: true });
+            return StatsAggregator.buildDailyStats(events)[0];
+        }
 
-                    // Ensure we have a valid dailyStats object with all required properties
-                    const dailyStats = {
-                        date: eventDate,
-                        totalEvents: 0,
-                        eventCounts: {
-                            create: 0,
-                            modify: 0,
-                            delete: 0,
-                            rename: 0
-                        },
-                        ...dailyStatsRequest.result // Spread existing values after defaults
-                    };
-
-                    // Add more debug logging for modify events
-                    if (event.eventType === 'modify') {
-                        this.plugin.logger.debug('Debug modify event - Constructed dailyStats:', {
-                            date: dailyStats.date,
-                            totalEvents: dailyStats.totalEvents,
-                            eventCounts: dailyStats.eventCounts,
-                            hasEventCounts: !!dailyStats.eventCounts,
-                            modifyCount: dailyStats.eventCounts?.modify
-                        });
-                    }
+        const stats = await this.requireStore().getDailyStats(date);
+        return stats ? this.resolveFilesTouched(stats) : stats;
+    }
 
-                    // Increment counters
-                    dailyStats.totalEvents++;
-
-                    // Add safety check and logging
-                    if (event.eventType === 'modify') {
-                        if (!dailyStats.eventCounts) {
-                            this.plugin.logger.error('Debug modify event - eventCounts is undefined after spread');
-                            dailyStats.eventCounts = {
-                                create: 0,
-                                modify: 0,
-                                delete: 0,
-                                rename: 0
-                            };
-                        }
-                        if (typeof dailyStats.eventCounts[event.eventType] === 'undefined') {
-                            this.plugin.logger.error('Debug modify event - specific event type counter is undefined');
-                            dailyStats.eventCounts[event.eventType] = 0;
-                        }
-                    }
+    /**
+     * Aggregates for every day with activity from startDate to endDate
+     * (YYYY-MM-DD, inclusive), oldest first
+     */
+    public async getDailyStatsInRange(startDate: string, endDate: string): Promise<DailyStats[]> {
+        if (this.excludesBackfill()) {
+            // Stored aggregates include backfilled events, so rebuild the days without them
+            const byDate: Map<string, DailyStats> = new Map();
+            await this.iterateEventsInTimeRange(StatsAggregator.dayBounds(startDate).startTime, StatsAggregator.dayBounds(endDate).endTime, event => {
+                const date = StatsAggregator.dateKey(event.timestamp);
+                byDate.set(date, StatsAggregator.applyEventToDailyStats(byDate.get(date) || StatsAggregator.normalize(date), event));
+            });
+            return Array.from(byDate.values());
+        }
 
-                    dailyStats.eventCounts[event.eventType]++;
+        const stats = await this.requireStore().getDailyStatsInRange(startDate, endDate);
+        return stats.map(day => this.resolveFilesTouched(day));
+    }
 
-                    // Final state logging for modify events
-                    if (event.eventType === 'modify') {
-                        this.plugin.logger.debug('Debug modify event - Final dailyStats state:', {
-                            totalEvents: dailyStats.totalEvents,
-                            eventCounts: dailyStats.eventCounts,
-                            modifyCount: dailyStats.eventCounts?.modify
-                        });
-                    }
+    /**
+     * A note renamed during the day counts as one file, under its current name
+     */
+    private resolveFilesTouched(stats: DailyStats): DailyStats {
+        const dayStart = StatsAggregator.dayBounds(stats.date).startTime;
+        return { ...stats, filesTouched: Array.from(new Set(stats.filesTouched.map(path => this.resolvePath(path, dayStart)))) };
+    }
 
-                    // Put the updated stats back in the store
-                    dailyStatsStore.put(dailyStats);
-                };
-
-                // Update file stats
-                const fileStatsStore = transaction.objectStore(ActivityDatabase.FILE_STATS_STORE);
-                const fileStatsRequest = fileStatsStore.get(event.filePath);
-
-                fileStatsRequest.onsuccess = () => {
-                    let stats = fileStatsRequest.result || {
-                        filePath: event.filePath,
-                        totalEdits: 0,
-                        totalAdded: 0,
-                        totalRemoved: 0,
-                        lastModified: event.timestamp
-                    };
-
-                    // Update stats based on event type
-                    stats.totalEdits++;
-                    stats.lastModified = event.timestamp;
-                    if (event.contentDiff) {
-                        stats.totalAdded = (stats.totalAdded || 0) + (event.contentDiff.added || 0);
-                        stats.totalRemoved = (stats.totalRemoved || 0) + (event.contentDiff.removed || 0);
-                    }
+    public async getFileStats(filePath: string): Promise<FileStats | undefined> {
+        return this.requireStore().getFileStats(filePath);
+    }
 
-                    fileStatsStore.put(stats);
-                };
-
-                transaction.oncomplete = () => {
-                    this.plugin.logger.debug('Event and stats recorded successfully');
-                    resolve();
-                };
-
-                transaction.onerror = (error) => {
-                    this.plugin.logger.error('Error recording event:', error);
-                    reject(error);
-                };
-            } catch (error) {
-                this.plugin.logger.error('Error recording event:', error);
-                reject(error);
-            }
+    /**
+     * Get sessions that started in a time range, under their note's current path
+     */
+    public async getSessionsInTimeRange(startTime: number, endTime: number): Promise<ActivitySession[]> {
+        const sessions = await this.requireStore().getSessionsInTimeRange(startTime, endTime);
+        return sessions.map(session => {
+            const currentPath = this.resolvePath(session.filePath, session.end);
+            return currentPath === session.filePath ? session : { ...session, filePath: currentPath };
         });
     }
 
-    private async addToStore(tx: IDBTransaction, storeName: string, value: any): Promise<void> {
-        return new Promise((resolve, reject) => {
-            try {
-                const store = tx.objectStore(storeName);
-                const request = store.put(value);
-                request.onsuccess = () => resolve();
-                request.onerror = () => reject(request.error);
-            } catch (error) {
-                reject(error);
-            }
+    /**
+     * Get events in a time range for reports, with each event under its note's
+     * current path
+     */
+    public async getEventsInTimeRange(startTime: number, endTime: number): Promise<FileEvent[]> {
+        return this.queryEvents({ startTime, endTime, excludeBackfill: this.excludesBackfill(), resolvePaths: true });
+    }
+
+    /**
+     * Stream the events getEventsInTimeRange returns, without loading them all
+     */
+    public async iterateEventsInTimeRange(startTime: number, endTime: number, callback: (event: FileEvent) => boolean | void): Promise<void> {
+        return this.iterateEvents({ startTime, endTime, excludeBackfill: this.excludesBackfill(), resolvePaths: true }, callback);
+    }
+
+    /**
+     * Whether reports should leave out events reconstructed by the history backfill
+     */
+    private excludesBackfill(): boolean {
+        return !this.plugin.settings.includeBackfillInReports;
+    }
+
+    /**
+     * Get all events matching a query, in timestamp order
+     */
+    public async queryEvents(query: EventQuery): Promise<FileEvent[]> {
+        const events: FileEvent[] = [];
+        await this.iterateEvents(query, event => {
+            events.push(event);
         });
+        return events;
     }
 
-    private async getFromStore(tx: IDBTransaction, storeName: string, key: any): Promise<any> {
-        return new Promise((resolve, reject) => {
-            try {
-                const store = tx.objectStore(storeName);
-                const request = store.get(key);
-                request.onsuccess = () => resolve(request.result);
-                request.onerror = () => reject(request.error);
-            } catch (error) {
-                reject(error);
+    /**
+     * Get one page of events matching a query, in timestamp order. Pass the
+     * returned cursor to fetch the following page. Compacted rollups are returned
+     * as stored.
+     */
+    public async getEventsPage(query: EventQuery, pageSize: number, after?: EventCursor | null): Promise<EventPage> {
+        const events: FileEvent[] = [];
+        // Rollups are paged as stored; expanding them would break the cursor
+        const pageQuery = { ...query, raw: true, ...(after ? { startTime: Math.max(query.startTime ?? after.timestamp, after.timestamp) } : {}) };
+
+        await this.iterateEvents(pageQuery, event => {
+            // Events sharing the cursor's timestamp are ordered by id, so skip those already returned
+            if (after && event.timestamp === after.timestamp && event.id! <= after.id) {
+                return;
             }
+            events.push(event);
+            return events.length < pageSize;
         });
-    }
 
-    public async close(): Promise<void> {
-        if (this.db) {
-            this.db.close();
-            this.db = null;
-            this.plugin.logger.debug('Database connection closed');
-        }
+        const last = events[events.length - 1];
+        return {
+            events,
+            nextCursor: events.length === pageSize ? { timestamp: last.timestamp, id: last.id! } : null
+        };
     }
 
-    // Query methods for the new stores
-    public async getDailyStats(date: string): Promise<any> {
-        if (!this.isInitialized()) throw new Error('Database not initialized');
+    /**
+     * Stream events matching a query to a callback, in timestamp order, without
+     * loading them all into memory. Return false from the callback to stop early.
+     * Compacted rollups are expanded back into individual events unless the query
+     * asks for raw results, so older ranges read the same as recent ones.
+     */
+    public async iterateEvents(query: EventQuery, callback: (event: FileEvent) => boolean | void): Promise<void> {
+        const startTime = query.startTime ?? 0;
+        const endTime = query.endTime ?? Number.MAX_SAFE_INTEGER;
+        const localDeviceId = this.getDeviceId();
+
+        // A rollup is stored at its first event, so one starting before the range
+        // can still hold events inside it
+        const storeQuery = query.raw || query.startTime === undefined
+            ? query
+            : { ...query, startTime: query.startTime - EventCompactor.MAX_SPAN };
+
+        // Rollups also reach up to a day past the point they're stored at, so
+        // their events wait here, in timestamp order, until the stream passes them
+        let expanded: FileEvent[] = [];
+        let stopped = false;
+        const emitExpandedUntil = (timestamp: number): boolean => {
+            let emitted = 0;
+            while (!stopped && emitted < expanded.length && expanded[emitted].timestamp <= timestamp) {
+                stopped = callback(expanded[emitted++]) === false;
+            }
+            if (emitted > 0) {
+                expanded = expanded.slice(emitted);
+            }
+            return !stopped;
+        };
 
-        const tx = this.db!.transaction([ActivityDatabase.DAILY_STATS_STORE], 'readonly');
-        return this.getFromStore(tx, ActivityDatabase.DAILY_STATS_STORE, date);
-    }
+        await this.requireStore().iterateEvents(storeQuery, event => {
+            if (!emitExpandedUntil(event.timestamp)) {
+                return false;
+            }
+            if (!event.rollup && event.timestamp < startTime) {
+                return;
+            }
+            // Events from before sync was added carry no device and were recorded here
+            if (query.deviceIds && query.deviceIds.length > 0 && !query.deviceIds.includes(event.deviceId || localDeviceId)) {
+                return;
+            }
+            if (query.excludeBackfill && event.source === 'backfill') {
+                return;
+            }
+            if (query.resolvePaths) {
+                const currentPath = this.resolvePath(event.filePath, event.timestamp);
+                if (currentPath !== event.filePath) {
+                    event = { ...event, filePath: currentPath };
+                }
+            }
+            if (query.raw || !event.rollup) {
+                if (query.filter && !query.filter.matchesEvent(event)) return;
+                stopped = callback(event) === false;
+                return !stopped;
+            }
 
-    public async getFileStats(filePath: string): Promise<any> {
-        if (!this.isInitialized()) throw new Error('Database not initialized');
+            const inRange = EventCompactor.expand(event).filter(expandedEvent =>
+                expandedEvent.timestamp >= startTime && expandedEvent.timestamp <= endTime &&
+                (!query.filter || query.filter.matchesEvent(expandedEvent)));
+            expanded = ActivityDatabase.mergeByTimestamp(expanded, inRange);
+        });
 
-        const tx = this.db!.transaction([ActivityDatabase.FILE_STATS_STORE], 'readonly');
-        return this.getFromStore(tx, ActivityDatabase.FILE_STATS_STORE, filePath);
+        if (!stopped) {
+            emitExpandedUntil(Number.MAX_SAFE_INTEGER);
+        }
     }
 
     /**
-     * Get events in a time range
+     * Merge two lists sorted by timestamp, keeping the first list's events first on ties
      */
-    public async getEventsInTimeRange(startTime: number, endTime: number): Promise<FileEvent[]> {
-        if (!this.isInitialized()) {
-            throw new Error('Database not initialized');
+    private static mergeByTimestamp(first: FileEvent[], second: FileEvent[]): FileEvent[] {
+        const merged: FileEvent[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < first.length || j < second.length) {
+            if (j >= second.length || (i < first.length && first[i].timestamp <= second[j].timestamp)) {
+                merged.push(first[i++]);
+            } else {
+                merged.push(second[j++]);
+            }
         }
+        return merged;
+    }
 
-        return new Promise((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction([ActivityDatabase.EVENTS_STORE], 'readonly');
-                const store = transaction.objectStore(ActivityDatabase.EVENTS_STORE);
-                const index = store.index('timestamp');
-
-                const range = IDBKeyRange.bound(startTime, endTime);
-                const request = index.getAll(range);
-
-                request.onsuccess = () => {
-                    resolve(request.result);
-                };
-
-                request.onerror = () => {
-                    this.plugin.logger.error('Error getting events:', request.error);
-                    reject(request.error);
-                };
-            } catch (error) {
-                this.plugin.logger.error('Failed to get events:', error);
-                reject(error);
+    /**
+     * Roll raw events recorded before a cutoff up into per-file rollups. Daily,
+     * file and session aggregates are left untouched.
+     */
+    public async compactEvents(before: number, granularity: RollupGranularity): Promise<CompactionResult> {
+        const compactable: FileEvent[] = [];
+        await this.iterateEvents({ endTime: before - 1, raw: true }, event => {
+            if (EventCompactor.isCompactable(event)) {
+                compactable.push(event);
             }
         });
+
+        const { rollups, replaced } = EventCompactor.buildRollups(compactable, granularity);
+        const result: CompactionResult = {
+            eventsRemoved: replaced.length,
+            rollupsCreated: rollups.length,
+            bytesReclaimed: Math.max(0, EventCompactor.estimateSize(replaced) - EventCompactor.estimateSize(rollups))
+        };
+
+        if (replaced.length === 0) {
+            return result;
+        }
+
+        await this.requireStore().replaceEvents(replaced.map(event => event.id!), rollups);
+        this.plugin.logger.info(`Compacted ${result.eventsRemoved} events into ${result.rollupsCreated} rollups`);
+        return result;
     }
 
     public async exportEvents(options: ExportOptions): Promise<string> {
@@ -344,43 +457,12 @@ export class ActivityDatabase {
     }
 
     private async getEventsForExport(options: ExportOptions): Promise<FileEvent[]> {
-        if (!this.db) throw new Error('Database not initialized');
-
-        return new Promise((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction([ActivityDatabase.EVENTS_STORE], 'readonly');
-                const store = transaction.objectStore(ActivityDatabase.EVENTS_STORE);
-                const request = store.getAll();
-
-                request.onsuccess = () => {
-                    let events = request.result;
-
-                    // Filter by date range if specified
-                    if (options.startDate && options.endDate) {
-                        events = events.filter(event =>
-                            event.timestamp >= options.startDate! &&
-                            event.timestamp <= options.endDate!
-                        );
-                    }
-
-                    // Filter by event types if specified
-                    if (options.includeTypes && options.includeTypes.length > 0) {
-                        events = events.filter(event =>
-                            options.includeTypes!.includes(event.eventType)
-                        );
-                    }
-
-                    resolve(events);
-                };
-
-                request.onerror = () => {
-                    this.plugin.logger.error('Error exporting events:', request.error);
-                    reject(request.error);
-                };
-            } catch (error) {
-                this.plugin.logger.error('Failed to export events:', error);
-                reject(error);
-            }
+        return this.queryEvents({
+            startTime: options.startDate,
+            endTime: options.endDate,
+            eventTypes: options.includeTypes,
+            deviceIds: options.deviceIds,
+            filter: options.filter
         });
     }
 
@@ -397,10 +479,17 @@ export class ActivityDatabase {
             row['eventType'] = event.eventType;
             row['filePath'] = event.filePath;
             row['oldPath'] = event.oldPath || '';
+            row['eventId'] = event.eventId || '';
+            row['deviceId'] = event.deviceId || '';
+            row['source'] = event.source || '';
 
             // Format content diff fields
             row['added'] = event.contentDiff?.added || 0;
             row['removed'] = event.contentDiff?.removed || 0;
+            row['linesAdded'] = event.contentDiff?.linesAdded || 0;
+            row['linesRemoved'] = event.contentDiff?.linesRemoved || 0;
+            row['wordsAdded'] = event.contentDiff?.wordsAdded || 0;
+            row['wordsRemoved'] = event.contentDiff?.wordsRemoved || 0;
             row['wordCountBefore'] = event.contentDiff?.wordCountBefore || 0;
             row['wordCountAfter'] = event.contentDiff?.wordCountAfter || 0;
             row['charCountBefore'] = event.contentDiff?.charCountBefore || 0;
@@ -432,12 +521,20 @@ export class ActivityDatabase {
                     filtered[field] = event.filePath;
                 } else if (field === 'oldPath') {
                     filtered[field] = event.oldPath;
+                } else if (field === 'eventId') {
+                    filtered[field] = event.eventId;
+                } else if (field === 'deviceId') {
+                    filtered[field] = event.deviceId;
+                } else if (field === 'source') {
+                    filtered[field] = event.source;
                 } else if (field.startsWith('contentDiff.')) {
                     const subField = field.split('.')[1];
                     if (event.contentDiff && subField in event.contentDiff) {
                         filtered[field] = (event.contentDiff as any)[subField];
                     }
                 } else if (field === 'added' || field === 'removed' ||
+                    field === 'linesAdded' || field === 'linesRemoved' ||
+                    field === 'wordsAdded' || field === 'wordsRemoved' ||
                     field === 'wordCountBefore' || field === 'wordCountAfter' ||
                     field === 'charCountBefore' || field === 'charCountAfter') {
                     filtered[field] = event.contentDiff ? (event.contentDiff as any)[field] || 0 : 0;
@@ -484,86 +581,32 @@ export class ActivityDatabase {
      * Get all events
      */
     public async getAllEvents(): Promise<FileEvent[]> {
-        if (!this.isInitialized()) {
-            throw new Error('Database not initialized');
-        }
-
-        return new Promise((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction([ActivityDatabase.EVENTS_STORE], 'readonly');
-                const store = transaction.objectStore(ActivityDatabase.EVENTS_STORE);
-                const request = store.getAll();
-
-                request.onsuccess = () => {
-                    resolve(request.result);
-                };
-
-                request.onerror = () => {
-                    this.plugin.logger.error('Error getting all events:', request.error);
-                    reject(request.error);
-                };
-            } catch (error) {
-                this.plugin.logger.error('Failed to get all events:', error);
-                reject(error);
-            }
-        });
+        return this.queryEvents({});
     }
 
     /**
      * Calculate statistics for all files
      */
-    public async getAllFileStats(): Promise<any[]> {
-        if (!this.isInitialized()) {
-            throw new Error('Database not initialized');
+    public async getAllFileStats(): Promise<FileStats[]> {
+        if (this.excludesBackfill()) {
+            return StatsAggregator.buildFileStats(await this.queryEvents({ excludeBackfill: true, resolvePaths: true }));
         }
-
-        return new Promise((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction([ActivityDatabase.FILE_STATS_STORE], 'readonly');
-                const store = transaction.objectStore(ActivityDatabase.FILE_STATS_STORE);
-                const request = store.getAll();
-
-                request.onsuccess = () => {
-                    resolve(request.result);
-                };
-
-                request.onerror = () => {
-                    this.plugin.logger.error('Error getting all file stats:', request.error);
-                    reject(request.error);
-                };
-            } catch (error) {
-                this.plugin.logger.error('Failed to get all file stats:', error);
-                reject(error);
-            }
-        });
+        return this.requireStore().getAllFileStats();
     }
 
     /**
-     * Get file statistics for a specific file
+     * Calculate per-file statistics from the events in a time range
      */
-    public async getFileStatistics(startTime: number, endTime: number): Promise<any[]> {
-        if (!this.isInitialized()) {
-            throw new Error('Database not initialized');
-        }
+    public async getFileStatistics(startTime: number, endTime: number): Promise<FileStats[]> {
+        const byFile: Map<string, FileStats> = new Map();
 
-        return new Promise((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction([ActivityDatabase.FILE_STATS_STORE], 'readonly');
-                const store = transaction.objectStore(ActivityDatabase.FILE_STATS_STORE);
-                const request = store.getAll();
-
-                request.onsuccess = () => {
-                    resolve(request.result);
-                };
-
-                request.onerror = () => {
-                    this.plugin.logger.error('Error getting file statistics:', request.error);
-                    reject(request.error);
-                };
-            } catch (error) {
-                console.error('Failed to get file statistics:', error);
-                reject(error);
+        await this.iterateEvents({ startTime, endTime, excludeBackfill: this.excludesBackfill(), resolvePaths: true }, event => {
+            if (!byFile.has(event.filePath)) {
+                byFile.set(event.filePath, StatsAggregator.createFileStats(event.filePath));
             }
+            StatsAggregator.applyEventToFileStats(byFile.get(event.filePath)!, event);
         });
+
+        return Array.from(byFile.values());
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,252 @@
+import { ActivityDatabase, FileEvent } from './ActivityDatabase';
+import { FILE_EVENT_TYPES } from './FileEventTypes';
+import { EventCompactor } from './EventCompactor';
+
+export type ImportFormat = 'json' | 'csv';
+
+export interface ImportError {
+    row: number;      // 1-based row (CSV line after the header, or JSON array index + 1)
+    message: string;
+}
+
+export interface ImportPreview {
+    format: ImportFormat;
+    totalRows: number;
+    events: FileEvent[];       // Valid events not in the database yet
+    duplicates: number;        // Valid rows already in the database or repeated in the file
+    errors: ImportError[];
+    startTime: number | null;
+    endTime: number | null;
+    fileCount: number;
+}
+
+interface EventIdentities {
+    eventIds: Set<string>;
+    keys: Set<string>;            // timestamp, path, type and device
+    devicelessKeys: Set<string>;  // timestamp, path and type
+}
+
+const CONTENT_DIFF_FIELDS = [
+    'added', 'removed', 'linesAdded', 'linesRemoved', 'wordsAdded', 'wordsRemoved',
+    'hunks', 'wordCountBefore', 'wordCountAfter', 'charCountBefore', 'charCountAfter'
+];
+
+/**
+ * Reads files written by ActivityDatabase.exportEvents back into events. Rows are
+ * validated, and rows matching an event already in the database (by eventId, or by
+ * timestamp, path, type and device for exports without ids) are skipped.
+ */
+export class ActivityImporter {
+    private database: ActivityDatabase;
+
+    constructor(database: ActivityDatabase) {
+        this.database = database;
+    }
+
+    /**
+     * Guess the format from the file extension, falling back to the content
+     */
+    public static detectFormat(path: string, content: string): ImportFormat {
+        const extension = path.split('.').pop()?.toLowerCase();
+        if (extension === 'json' || extension === 'csv') return extension;
+        return content.trimStart().startsWith('[') ? 'json' : 'csv';
+    }
+
+    /**
+     * Parse and validate a file, and work out which events are new
+     */
+    public async preview(content: string, format: ImportFormat): Promise<ImportPreview> {
+        const rows = format === 'json' ? ActivityImporter.parseJSON(content) : ActivityImporter.parseCSV(content);
+        const errors: ImportError[] = [];
+        const parsed: FileEvent[] = [];
+
+        rows.forEach((row, index) => {
+            const result = ActivityImporter.toEvent(row);
+            if (typeof result === 'string') {
+                errors.push({ row: index + 1, message: result });
+            } else {
+                parsed.push(result);
+            }
+        });
+
+        const existing = await this.getExistingIdentities();
+        const events: FileEvent[] = [];
+        let duplicates = 0;
+
+        parsed.forEach(event => {
+            if (this.isKnown(event, existing)) {
+                duplicates++;
+                return;
+            }
+            this.remember(event, existing);
+            events.push(event);
+        });
+
+        return {
+            format,
+            totalRows: rows.length,
+            events,
+            duplicates,
+            errors,
+            startTime: events.reduce((min, event) => min === null || event.timestamp < min ? event.timestamp : min, null as number | null),
+            endTime: events.reduce((max, event) => max === null || event.timestamp > max ? event.timestamp : max, null as number | null),
+            fileCount: new Set(events.map(event => event.filePath)).size
+        };
+    }
+
+    /**
+     * Everything an imported event could match: event ids (including those a
+     * rollup replaced) and the timestamp/path/type of each event as exported,
+     * with and without its device
+     */
+    private async getExistingIdentities(): Promise<EventIdentities> {
+        const identities: EventIdentities = { eventIds: new Set(), keys: new Set(), devicelessKeys: new Set() };
+        const localDeviceId = this.database.getDeviceId();
+
+        await this.database.iterateEvents({ raw: true }, event => {
+            event.rollup?.eventIds.forEach(id => identities.eventIds.add(id));
+            // Exports expand rollups, so match against the expanded events too
+            EventCompactor.expand(event).forEach(expanded => {
+                // Events recorded before device ids existed belong to this device
+                this.remember({ ...expanded, eventId: event.eventId, deviceId: event.deviceId || localDeviceId }, identities);
+            });
+        });
+
+        return identities;
+    }
+
+    private isKnown(event: FileEvent, identities: EventIdentities): boolean {
+        if (event.eventId && identities.eventIds.has(event.eventId)) return true;
+        // Exports without the deviceId field can only be matched on the rest
+        return event.deviceId
+            ? identities.keys.has(ActivityImporter.eventKey(event))
+            : identities.devicelessKeys.has(ActivityImporter.eventKey({ ...event, deviceId: undefined }));
+    }
+
+    private remember(event: FileEvent, identities: EventIdentities): void {
+        if (event.eventId) identities.eventIds.add(event.eventId);
+        identities.keys.add(ActivityImporter.eventKey(event));
+        identities.devicelessKeys.add(ActivityImporter.eventKey({ ...event, deviceId: undefined }));
+    }
+
+    private static eventKey(event: FileEvent): string {
+        return [event.timestamp, event.filePath, event.eventType, event.deviceId || ''].join('\u0000');
+    }
+
+    /**
+     * Turn an exported row into an event, or return why it can't be imported
+     */
+    private static toEvent(row: Record<string, any>): FileEvent | string {
+        if (!row || typeof row !== 'object' || Array.isArray(row)) {
+            return 'Not an object';
+        }
+
+        const timestamp = typeof row.timestamp === 'number' ? row.timestamp : Date.parse(row.timestamp);
+        if (row.timestamp === undefined || row.timestamp === '' || isNaN(timestamp)) {
+            return `Invalid timestamp "${row.timestamp ?? ''}"`;
+        }
+        if (typeof row.filePath !== 'string' || row.filePath.trim() === '') {
+            return 'Missing filePath';
+        }
+        if (!FILE_EVENT_TYPES.includes(row.eventType)) {
+            return `Unknown eventType "${row.eventType ?? ''}"`;
+        }
+
+        const event: FileEvent = {
+            timestamp,
+            filePath: row.filePath,
+            eventType: row.eventType
+        };
+        if (row.oldPath) event.oldPath = String(row.oldPath);
+        if (row.eventId) event.eventId = String(row.eventId);
+        if (row.deviceId) event.deviceId = String(row.deviceId);
+        if (row.source === 'backfill') event.source = 'backfill';
+
+        // Full JSON exports nest the diff; filtered exports flatten it into
+        // plain or "contentDiff."-prefixed fields
+        const diff: Record<string, number> = {};
+        for (const field of CONTENT_DIFF_FIELDS) {
+            const value = row.contentDiff?.[field] ?? row[`contentDiff.${field}`] ?? row[field];
+            if (value === undefined || value === '') continue;
+
+            const number = Number(value);
+            if (isNaN(number)) {
+                return `Invalid ${field} "${value}"`;
+            }
+            diff[field] = number;
+        }
+        if (Object.keys(diff).length > 0) {
+            event.contentDiff = { added: 0, removed: 0, ...diff };
+        }
+
+        return event;
+    }
+
+    private static parseJSON(content: string): Record<string, any>[] {
+        const data = JSON.parse(content);
+        if (!Array.isArray(data)) {
+            throw new Error('Expected a JSON array of events');
+        }
+        return data;
+    }
+
+    /**
+     * Parse CSV written by convertToCSV: a header row, and values quoted when
+     * they contain commas, quotes or line breaks
+     */
+    private static parseCSV(content: string): Record<string, any>[] {
+        const records = ActivityImporter.splitCSV(content);
+        if (records.length === 0) return [];
+
+        const header = records[0];
+        return records.slice(1)
+            .filter(values => !(values.length === 1 && values[0] === ''))
+            .map(values => {
+                const row: Record<string, string> = {};
+                header.forEach((field, index) => row[field] = values[index] ?? '');
+                return row;
+            });
+    }
+
+    private static splitCSV(content: string): string[][] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let value = '';
+        let quoted = false;
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+
+            if (quoted) {
+                if (char === '"' && content[i + 1] === '"') {
+                    value += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    value += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                record.push(value);
+                value = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && content[i + 1] === '\n') i++;
+                record.push(value);
+                records.push(record);
+                record = [];
+                value = '';
+            } else {
+                value += char;
+            }
+        }
+
+        if (value !== '' || record.length > 0) {
+            record.push(value);
+            records.push(record);
+        }
+
+        return records;
+    }
+}
@@ -0,0 +1,47 @@
+import { EventQuery, FileEvent } from './ActivityDatabase';
+import { DailyStats, FileStats } from './StatsAggregator';
+import { ActivitySession } from '../sessions/SessionBuilder';
+
+export type StorageBackend = 'indexeddb' | 'memory' | 'vault-file';
+
+/**
+ * Storage backend for recorded activity. Implementations keep the events plus
+ * the daily, per-file and session aggregates derived from them; everything else
+ * ActivityDatabase offers is built on top of these methods.
+ */
+export interface ActivityStore {
+    initialize(): Promise<void>;
+    isInitialized(): boolean;
+    close(): Promise<void>;
+
+    recordEvent(event: FileEvent): Promise<void>;
+
+    /**
+     * Store a batch of events recorded elsewhere, updating the aggregates. Sessions
+     * are built from the batch on its own.
+     */
+    importEvents(events: FileEvent[]): Promise<void>;
+
+    /**
+     * Remove events by id and add others in their place, leaving the aggregates
+     * alone. Used to compact old events into rollups.
+     */
+    replaceEvents(removeIds: number[], additions: FileEvent[]): Promise<void>;
+
+    /**
+     * Stream events matching a query to a callback, in timestamp order. Return
+     * false from the callback to stop early.
+     */
+    iterateEvents(query: EventQuery, callback: (event: FileEvent) => boolean | void): Promise<void>;
+
+    getDailyStats(date: string): Promise<DailyStats | undefined>;
+
+    /**
+     * Aggregates for every day with activity from startDate to endDate
+     * (YYYY-MM-DD, inclusive), oldest first
+     */
+    getDailyStatsInRange(startDate: string, endDate: string): Promise<DailyStats[]>;
+    getFileStats(filePath: string): Promise<FileStats | undefined>;
+    getAllFileStats(): Promise<FileStats[]>;
+    getSessionsInTimeRange(startTime: number, endTime: number): Promise<ActivitySession[]>;
+}
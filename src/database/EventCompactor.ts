@@ -0,0 +1,163 @@
+import { FileEvent } from './ActivityDatabase';
+import { FileEventType } from './FileEventTypes';
+
+export type RollupGranularity = 'hour' | 'day';
+
+export interface EventRollup {
+    granularity: RollupGranularity;
+    start: number;        // Timestamp of the first event rolled up
+    end: number;          // Timestamp of the last event rolled up
+    count: number;        // Number of raw events rolled up
+    eventIds: string[];   // Ids of the rolled up events, so synced copies aren't re-imported
+}
+
+export interface CompactionResult {
+    eventsRemoved: number;
+    rollupsCreated: number;
+    bytesReclaimed: number;  // Estimated from the serialized size of the events
+}
+
+/**
+ * Rolls raw events up into one event per file, event type, device, source and
+ * hour (or day). Creates, deletes and renames are rare and carry paths that later
+ * features rely on, so they are always kept as they are.
+ */
+export class EventCompactor {
+    private static COMPACTABLE_TYPES: FileEventType[] = ['modify', 'open', 'focus', 'blur', 'close'];
+
+    // Longest time a rollup can span: a day bucket when the clocks go back
+    public static MAX_SPAN = 25 * 60 * 60 * 1000;
+
+    public static isCompactable(event: FileEvent): boolean {
+        return !event.rollup && EventCompactor.COMPACTABLE_TYPES.includes(event.eventType);
+    }
+
+    /**
+     * Number of raw events an event stands for
+     */
+    public static weight(event: FileEvent): number {
+        return event.rollup ? event.rollup.count : 1;
+    }
+
+    /**
+     * Build rollups for a list of compactable events. Buckets holding a single
+     * event gain nothing from compaction and are left out.
+     */
+    public static buildRollups(events: FileEvent[], granularity: RollupGranularity): { rollups: FileEvent[], replaced: FileEvent[] } {
+        const groups: Map<string, FileEvent[]> = new Map();
+
+        events.forEach(event => {
+            const key = [event.filePath, event.eventType, event.deviceId || '', event.source || '', EventCompactor.bucketStart(event.timestamp, granularity)].join('\u0000');
+            if (!groups.has(key)) {
+                groups.set(key, []);
+            }
+            groups.get(key)!.push(event);
+        });
+
+        const worthRollingUp = Array.from(groups.values()).filter(group => group.length > 1);
+        return {
+            rollups: worthRollingUp.map(group => EventCompactor.rollUp(group, granularity)),
+            replaced: worthRollingUp.reduce((all, group) => all.concat(group), [] as FileEvent[])
+        };
+    }
+
+    private static rollUp(events: FileEvent[], granularity: RollupGranularity): FileEvent {
+        const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+        const first = sorted[0];
+        const last = sorted[sorted.length - 1];
+
+        const rollup: FileEvent = {
+            timestamp: first.timestamp,
+            filePath: first.filePath,
+            eventType: first.eventType,
+            eventId: `rollup-${first.eventId || first.id}`,
+            rollup: {
+                granularity,
+                start: first.timestamp,
+                end: last.timestamp,
+                count: sorted.length,
+                eventIds: sorted.filter(event => event.eventId).map(event => event.eventId!)
+            }
+        };
+        if (first.deviceId) {
+            rollup.deviceId = first.deviceId;
+        }
+        if (first.source) {
+            rollup.source = first.source;
+        }
+
+        const diffs = sorted.filter(event => event.contentDiff).map(event => event.contentDiff!);
+        if (diffs.length > 0) {
+            const sum = (field: 'added' | 'removed' | 'linesAdded' | 'linesRemoved' | 'wordsAdded' | 'wordsRemoved' | 'hunks') =>
+                diffs.reduce((total, diff) => total + (diff[field] || 0), 0);
+
+            rollup.contentDiff = {
+                added: sum('added'),
+                removed: sum('removed'),
+                linesAdded: sum('linesAdded'),
+                linesRemoved: sum('linesRemoved'),
+                wordsAdded: sum('wordsAdded'),
+                wordsRemoved: sum('wordsRemoved'),
+                hunks: sum('hunks'),
+                wordCountBefore: diffs[0].wordCountBefore,
+                wordCountAfter: diffs[diffs.length - 1].wordCountAfter,
+                charCountBefore: diffs[0].charCountBefore,
+                charCountAfter: diffs[diffs.length - 1].charCountAfter
+            };
+        }
+
+        return rollup;
+    }
+
+    /**
+     * Expand a rollup back into one event per raw event it replaced, spread evenly
+     * over its time span with the content changes divided between them. Counts,
+     * totals and hour-of-day breakdowns come out the same as for the raw events.
+     */
+    public static expand(event: FileEvent): FileEvent[] {
+        if (!event.rollup) return [event];
+
+        const { start, end, count } = event.rollup;
+        const step = count > 1 ? (end - start) / (count - 1) : 0;
+        const { rollup, eventId, ...base } = event;
+        const expanded: FileEvent[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const copy: FileEvent = { ...base, timestamp: Math.round(start + step * i) };
+            if (event.contentDiff) {
+                const share = (total: number | undefined) => {
+                    const value = total || 0;
+                    return Math.floor(value / count) + (i < value % count ? 1 : 0);
+                };
+                copy.contentDiff = {
+                    added: share(event.contentDiff.added),
+                    removed: share(event.contentDiff.removed),
+                    linesAdded: share(event.contentDiff.linesAdded),
+                    linesRemoved: share(event.contentDiff.linesRemoved),
+                    wordsAdded: share(event.contentDiff.wordsAdded),
+                    wordsRemoved: share(event.contentDiff.wordsRemoved),
+                    hunks: share(event.contentDiff.hunks)
+                };
+            }
+            expanded.push(copy);
+        }
+
+        return expanded;
+    }
+
+    /**
+     * Rough size of events as stored, used to report reclaimed space
+     */
+    public static estimateSize(events: FileEvent[]): number {
+        return events.reduce((total, event) => total + JSON.stringify(event).length, 0);
+    }
+
+    private static bucketStart(timestamp: number, granularity: RollupGranularity): number {
+        const date = new Date(timestamp);
+        date.setMinutes(0, 0, 0);
+        if (granularity === 'day') {
+            date.setHours(0);
+        }
+        return date.getTime();
+    }
+}
@@ -0,0 +1,22 @@
+export type FileEventType = 'create' | 'modify' | 'delete' | 'rename' | 'open' | 'focus' | 'blur' | 'close';
+
+export const FILE_EVENT_TYPES: FileEventType[] = ['create', 'modify', 'delete', 'rename', 'open', 'focus', 'blur', 'close'];
+
+/**
+ * Helpers for event types. Kept apart from ActivityDatabase so the aggregates
+ * its stores build can use them without importing the database.
+ */
+export class FileEventTypes {
+    /**
+     * Whether an event records reading a note rather than changing it
+     */
+    public static isNavigation(eventType: FileEventType): boolean {
+        return eventType === 'open' || eventType === 'focus' || eventType === 'blur' || eventType === 'close';
+    }
+
+    public static createEmptyCounts(): Record<FileEventType, number> {
+        const counts = {} as Record<FileEventType, number>;
+        FILE_EVENT_TYPES.forEach(type => counts[type] = 0);
+        return counts;
+    }
+}
@@ -0,0 +1,569 @@
+import { EventQuery, FileEvent } from './ActivityDatabase';
+import { ActivityStore } from './ActivityStore';
+import { DailyStats, FileStats, StatsAggregator } from './StatsAggregator';
+import { ActivitySession, SessionBuilder } from '../sessions/SessionBuilder';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Activity store backed by the browser's IndexedDB. Data stays on this device.
+ */
+export class IndexedDBStore implements ActivityStore {
+    private static DB_NAME = 'daily-activity-db';
+    private static DB_VERSION = 8;
+    private static EVENTS_STORE = 'file_events';
+    private static DAILY_STATS_STORE = 'daily_stats';
+    private static FILE_STATS_STORE = 'file_stats';
+    private static SESSIONS_STORE = 'sessions';
+
+    private db: IDBDatabase | null = null;
+    private plugin: DailyActivityPlugin;
+    private sessionBuilder: SessionBuilder = new SessionBuilder();
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    public isInitialized(): boolean {
+        return this.db !== null;
+    }
+
+    public async initialize(): Promise<void> {
+        if (this.isInitialized()) {
+            this.plugin.logger.debug('Database already initialized');
+            return;
+        }
+
+        this.plugin.logger.debug('Opening IndexedDB database...');
+
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(IndexedDBStore.DB_NAME, IndexedDBStore.DB_VERSION);
+
+            request.onerror = (event) => {
+                this.plugin.logger.error('Failed to open database:', event);
+                reject(event);
+            };
+
+            request.onsuccess = (event) => {
+                this.db = (event.target as IDBOpenDBRequest).result;
+                this.plugin.logger.debug('Database opened successfully');
+                resolve();
+            };
+
+            request.onupgradeneeded = (event) => {
+                this.plugin.logger.debug('Database upgrade needed...');
+                const db = (event.target as IDBOpenDBRequest).result;
+
+                // Create object stores if they don't exist
+                if (!db.objectStoreNames.contains(IndexedDBStore.EVENTS_STORE)) {
+                    const eventsStore = db.createObjectStore(IndexedDBStore.EVENTS_STORE, {
+                        keyPath: 'id',
+                        autoIncrement: true
+                    });
+                    eventsStore.createIndex('timestamp', 'timestamp');
+                    eventsStore.createIndex('filePath', 'filePath');
+                    eventsStore.createIndex('eventType', 'eventType');
+                    eventsStore.createIndex('date', 'date');
+                }
+
+                // Version 6: compound indexes for per-file and per-type range queries
+                const eventsStore = (event.target as IDBOpenDBRequest).transaction!.objectStore(IndexedDBStore.EVENTS_STORE);
+                if (!eventsStore.indexNames.contains('filePath_timestamp')) {
+                    eventsStore.createIndex('filePath_timestamp', ['filePath', 'timestamp']);
+                }
+                if (!eventsStore.indexNames.contains('eventType_timestamp')) {
+                    eventsStore.createIndex('eventType_timestamp', ['eventType', 'timestamp']);
+                }
+
+                if (!db.objectStoreNames.contains(IndexedDBStore.DAILY_STATS_STORE)) {
+                    db.createObjectStore(IndexedDBStore.DAILY_STATS_STORE, {
+                        keyPath: 'date'
+                    });
+                }
+
+                if (!db.objectStoreNames.contains(IndexedDBStore.FILE_STATS_STORE)) {
+                    db.createObjectStore(IndexedDBStore.FILE_STATS_STORE, {
+                        keyPath: 'filePath'
+                    });
+                }
+
+                // Version 4: reading/editing sessions, rebuilt from any existing events
+                if (!db.objectStoreNames.contains(IndexedDBStore.SESSIONS_STORE)) {
+                    const sessionsStore = db.createObjectStore(IndexedDBStore.SESSIONS_STORE, {
+                        keyPath: 'id'
+                    });
+                    sessionsStore.createIndex('start', 'start');
+                    sessionsStore.createIndex('filePath', 'filePath');
+                    sessionsStore.createIndex('date', 'date');
+
+                    if (event.oldVersion > 0) {
+                        this.rebuildSessions((event.target as IDBOpenDBRequest).transaction!);
+                    }
+                }
+
+                // Version 5: daily_stats carries content totals, files touched and
+                // first/last activity (version 4 was already taken by the sessions
+                // store). Version 8: days are keyed by local rather than UTC date.
+                // Rebuild every day from the recorded events.
+                if (event.oldVersion > 0 && event.oldVersion < 8) {
+                    this.rebuildDailyStats((event.target as IDBOpenDBRequest).transaction!);
+                }
+
+                // Version 7: file_stats follow notes across renames; merge the
+                // records left behind under old paths
+                if (event.oldVersion > 0 && event.oldVersion < 7) {
+                    const transaction = (event.target as IDBOpenDBRequest).transaction!;
+                    const renamesRequest = transaction.objectStore(IndexedDBStore.EVENTS_STORE).index('eventType').getAll('rename');
+                    renamesRequest.onsuccess = () => this.mergeRenamedFileStats(transaction, renamesRequest.result);
+                }
+            };
+        });
+    }
+
+    public async recordEvent(event: FileEvent): Promise<void> {
+        if (!this.isInitialized()) {
+            this.plugin.logger.error('Database not initialized, cannot record event:', event);
+            throw new Error('Database not initialized');
+        }
+
+        const eventDate = StatsAggregator.dateKey(event.timestamp);
+        const eventWithDate = { ...event, date: eventDate };
+
+        return new Promise((resolve, reject) => {
+            const transaction = this.db!.transaction(
+                [IndexedDBStore.EVENTS_STORE, IndexedDBStore.DAILY_STATS_STORE, IndexedDBStore.FILE_STATS_STORE, IndexedDBStore.SESSIONS_STORE],
+                'readwrite'
+            );
+
+            try {
+                // Record the event
+                const eventsStore = transaction.objectStore(IndexedDBStore.EVENTS_STORE);
+                eventsStore.add(eventWithDate);
+
+                // Fold the event into the file's current session
+                const session = this.sessionBuilder.addEvent(event, SessionBuilder.optionsFromSettings(this.plugin.settings));
+                transaction.objectStore(IndexedDBStore.SESSIONS_STORE).put(session);
+
+                // Update daily stats
+                const dailyStatsStore = transaction.objectStore(IndexedDBStore.DAILY_STATS_STORE);
+                const dailyStatsRequest = dailyStatsStore.get(eventDate);
+
+                dailyStatsRequest.onsuccess = () => {
+                    // Records written by older versions may lack some fields
+                    const dailyStats = StatsAggregator.normalize(eventDate, dailyStatsRequest.result);
+                    StatsAggregator.applyEventToDailyStats(dailyStats, event);
+
+                    if (event.eventType === 'modify') {
+                        this.plugin.logger.debug('Updated daily stats for modify event:', {
+                            date: dailyStats.date,
+                            totalEvents: dailyStats.totalEvents,
+                            modifyCount: dailyStats.eventCounts.modify,
+                            totalAdded: dailyStats.totalAdded,
+                            totalRemoved: dailyStats.totalRemoved
+                        });
+                    }
+
+                    // Put the updated stats back in the store
+                    dailyStatsStore.put(dailyStats);
+                };
+
+                // Update file stats
+                const fileStatsStore = transaction.objectStore(IndexedDBStore.FILE_STATS_STORE);
+                const fileStatsRequest = fileStatsStore.get(event.filePath);
+
+                fileStatsRequest.onsuccess = () => {
+                    const stats = fileStatsRequest.result || {
+                        ...StatsAggregator.createFileStats(event.filePath),
+                        lastModified: event.timestamp
+                    };
+                    StatsAggregator.applyEventToFileStats(stats, event);
+
+                    if (event.eventType !== 'rename' || !event.oldPath) {
+                        fileStatsStore.put(stats);
+                        return;
+                    }
+
+                    // A renamed note takes its history along to the new path
+                    const oldStatsRequest = fileStatsStore.get(event.oldPath);
+                    oldStatsRequest.onsuccess = () => {
+                        if (oldStatsRequest.result) {
+                            StatsAggregator.mergeFileStats(stats, oldStatsRequest.result);
+                            fileStatsStore.delete(event.oldPath!);
+                        }
+                        fileStatsStore.put(stats);
+                    };
+                };
+
+                transaction.oncomplete = () => {
+                    this.plugin.logger.debug('Event and stats recorded successfully');
+                    resolve();
+                };
+
+                transaction.onerror = (error) => {
+                    this.plugin.logger.error('Error recording event:', error);
+                    reject(error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Error recording event:', error);
+                reject(error);
+            }
+        });
+    }
+
+    public async importEvents(events: FileEvent[]): Promise<void> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+        const byDate: Map<string, FileEvent[]> = new Map();
+        const byFile: Map<string, FileEvent[]> = new Map();
+        sorted.forEach(event => {
+            const date = StatsAggregator.dateKey(event.timestamp);
+            if (!byDate.has(date)) byDate.set(date, []);
+            if (!byFile.has(event.filePath)) byFile.set(event.filePath, []);
+            byDate.get(date)!.push(event);
+            byFile.get(event.filePath)!.push(event);
+        });
+
+        return new Promise((resolve, reject) => {
+            const transaction = this.db!.transaction(
+                [IndexedDBStore.EVENTS_STORE, IndexedDBStore.DAILY_STATS_STORE, IndexedDBStore.FILE_STATS_STORE, IndexedDBStore.SESSIONS_STORE],
+                'readwrite'
+            );
+
+            try {
+                const eventsStore = transaction.objectStore(IndexedDBStore.EVENTS_STORE);
+                sorted.forEach(event => {
+                    const { id, ...withoutId } = event;
+                    eventsStore.add({ ...withoutId, date: StatsAggregator.dateKey(event.timestamp) });
+                });
+
+                const sessionsStore = transaction.objectStore(IndexedDBStore.SESSIONS_STORE);
+                SessionBuilder.buildSessions(sorted, SessionBuilder.optionsFromSettings(this.plugin.settings))
+                    .forEach(session => sessionsStore.put(session));
+
+                const dailyStatsStore = transaction.objectStore(IndexedDBStore.DAILY_STATS_STORE);
+                byDate.forEach((dateEvents, date) => {
+                    const request = dailyStatsStore.get(date);
+                    request.onsuccess = () => {
+                        const dailyStats = StatsAggregator.normalize(date, request.result);
+                        dateEvents.forEach(event => StatsAggregator.applyEventToDailyStats(dailyStats, event));
+                        dailyStatsStore.put(dailyStats);
+                    };
+                });
+
+                // Renames in the batch take the history kept under their old paths
+                // along, once every file's stats have been updated
+                const renames = sorted.filter(event => event.eventType === 'rename' && event.oldPath);
+                let pendingFiles = byFile.size;
+
+                const fileStatsStore = transaction.objectStore(IndexedDBStore.FILE_STATS_STORE);
+                byFile.forEach((fileEvents, filePath) => {
+                    const request = fileStatsStore.get(filePath);
+                    request.onsuccess = () => {
+                        const stats = request.result || StatsAggregator.createFileStats(filePath);
+                        fileEvents.forEach(event => StatsAggregator.applyEventToFileStats(stats, event));
+                        fileStatsStore.put(stats);
+
+                        if (--pendingFiles === 0 && renames.length > 0) {
+                            this.mergeRenamedFileStats(transaction, renames);
+                        }
+                    };
+                });
+
+                transaction.oncomplete = () => {
+                    this.plugin.logger.debug(`Imported ${sorted.length} events`);
+                    resolve();
+                };
+
+                transaction.onerror = (error) => {
+                    this.plugin.logger.error('Error importing events:', error);
+                    reject(error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Error importing events:', error);
+                reject(error);
+            }
+        });
+    }
+
+    public async replaceEvents(removeIds: number[], additions: FileEvent[]): Promise<void> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        return new Promise((resolve, reject) => {
+            const transaction = this.db!.transaction([IndexedDBStore.EVENTS_STORE], 'readwrite');
+
+            try {
+                const eventsStore = transaction.objectStore(IndexedDBStore.EVENTS_STORE);
+                removeIds.forEach(id => eventsStore.delete(id));
+                additions.forEach(event => {
+                    const { id, ...withoutId } = event;
+                    eventsStore.add({ ...withoutId, date: StatsAggregator.dateKey(event.timestamp) });
+                });
+
+                transaction.oncomplete = () => resolve();
+
+                transaction.onerror = (error) => {
+                    this.plugin.logger.error('Error replacing events:', error);
+                    reject(error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Error replacing events:', error);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Rebuild the sessions store from all recorded events, within an upgrade transaction
+     */
+    private rebuildSessions(transaction: IDBTransaction): void {
+        const request = transaction.objectStore(IndexedDBStore.EVENTS_STORE).getAll();
+
+        request.onsuccess = () => {
+            const sessions = SessionBuilder.buildSessions(request.result, SessionBuilder.optionsFromSettings(this.plugin.settings));
+            const sessionsStore = transaction.objectStore(IndexedDBStore.SESSIONS_STORE);
+            sessions.forEach(session => sessionsStore.put(session));
+            this.plugin.logger.info(`Rebuilt ${sessions.length} sessions from existing events`);
+        };
+
+        request.onerror = () => {
+            this.plugin.logger.error('Failed to rebuild sessions:', request.error);
+        };
+    }
+
+    /**
+     * Replace daily_stats with aggregates rebuilt from all recorded events, within an upgrade transaction
+     */
+    private rebuildDailyStats(transaction: IDBTransaction): void {
+        const request = transaction.objectStore(IndexedDBStore.EVENTS_STORE).getAll();
+
+        request.onsuccess = () => {
+            const dailyStats = StatsAggregator.buildDailyStats(request.result);
+            const dailyStatsStore = transaction.objectStore(IndexedDBStore.DAILY_STATS_STORE);
+            dailyStatsStore.clear();
+            dailyStats.forEach(stats => dailyStatsStore.put(stats));
+            this.plugin.logger.info(`Rebuilt daily stats for ${dailyStats.length} days from existing events`);
+        };
+
+        request.onerror = () => {
+            this.plugin.logger.error('Failed to rebuild daily stats:', request.error);
+        };
+    }
+
+    /**
+     * Fold the file_stats kept under renamed notes' old paths into their new
+     * paths, following chains of renames in order. A path that holds a note
+     * again is left alone, since its stats may belong to that note.
+     */
+    private mergeRenamedFileStats(transaction: IDBTransaction, renames: FileEvent[]): void {
+        const fileStatsStore = transaction.objectStore(IndexedDBStore.FILE_STATS_STORE);
+        const request = fileStatsStore.getAll();
+
+        request.onsuccess = () => {
+            const byPath: Map<string, FileStats> = new Map();
+            (request.result as FileStats[]).forEach(stats => byPath.set(stats.filePath, stats));
+            const changed: Set<string> = new Set();
+            const removed: Set<string> = new Set();
+
+            [...renames]
+                .sort((a, b) => a.timestamp - b.timestamp)
+                .forEach(rename => {
+                    const oldStats = byPath.get(rename.oldPath!);
+                    if (!oldStats || this.plugin.app.vault.getAbstractFileByPath(rename.oldPath!)) return;
+
+                    const stats = byPath.get(rename.filePath) || StatsAggregator.createFileStats(rename.filePath);
+                    byPath.set(rename.filePath, StatsAggregator.mergeFileStats(stats, oldStats));
+                    byPath.delete(rename.oldPath!);
+
+                    changed.add(rename.filePath);
+                    removed.delete(rename.filePath);
+                    changed.delete(rename.oldPath!);
+                    removed.add(rename.oldPath!);
+                });
+
+            removed.forEach(path => fileStatsStore.delete(path));
+            changed.forEach(path => fileStatsStore.put(byPath.get(path)));
+            if (removed.size > 0) {
+                this.plugin.logger.info(`Merged file stats for ${removed.size} renamed notes`);
+            }
+        };
+
+        request.onerror = () => {
+            this.plugin.logger.error('Failed to merge file stats for renamed notes:', request.error);
+        };
+    }
+
+    private async getFromStore(tx: IDBTransaction, storeName: string, key: any): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                const store = tx.objectStore(storeName);
+                const request = store.get(key);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            } catch (error) {
+                reject(error);
+            }
+        });
+    }
+
+    public async close(): Promise<void> {
+        if (this.db) {
+            this.db.close();
+            this.db = null;
+            this.plugin.logger.debug('Database connection closed');
+        }
+    }
+
+    public async getDailyStats(date: string): Promise<DailyStats | undefined> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        const tx = this.db!.transaction([IndexedDBStore.DAILY_STATS_STORE], 'readonly');
+        const stats = await this.getFromStore(tx, IndexedDBStore.DAILY_STATS_STORE, date);
+        return stats ? StatsAggregator.normalize(date, stats) : undefined;
+    }
+
+    public async getDailyStatsInRange(startDate: string, endDate: string): Promise<DailyStats[]> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return new Promise((resolve, reject) => {
+            try {
+                const transaction = this.db!.transaction([IndexedDBStore.DAILY_STATS_STORE], 'readonly');
+                const request = transaction.objectStore(IndexedDBStore.DAILY_STATS_STORE).getAll(IDBKeyRange.bound(startDate, endDate));
+
+                request.onsuccess = () => {
+                    resolve(request.result.map((stats: DailyStats) => StatsAggregator.normalize(stats.date, stats)));
+                };
+
+                request.onerror = () => {
+                    this.plugin.logger.error('Error getting daily stats:', request.error);
+                    reject(request.error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Failed to get daily stats:', error);
+                reject(error);
+            }
+        });
+    }
+
+    public async getFileStats(filePath: string): Promise<FileStats | undefined> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        const tx = this.db!.transaction([IndexedDBStore.FILE_STATS_STORE], 'readonly');
+        return this.getFromStore(tx, IndexedDBStore.FILE_STATS_STORE, filePath);
+    }
+
+    public async getAllFileStats(): Promise<FileStats[]> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        return new Promise((resolve, reject) => {
+            try {
+                const transaction = this.db!.transaction([IndexedDBStore.FILE_STATS_STORE], 'readonly');
+                const store = transaction.objectStore(IndexedDBStore.FILE_STATS_STORE);
+                const request = store.getAll();
+
+                request.onsuccess = () => {
+                    resolve(request.result);
+                };
+
+                request.onerror = () => {
+                    this.plugin.logger.error('Error getting all file stats:', request.error);
+                    reject(request.error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Failed to get all file stats:', error);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Get sessions that started in a time range
+     */
+    public async getSessionsInTimeRange(startTime: number, endTime: number): Promise<ActivitySession[]> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        return new Promise((resolve, reject) => {
+            try {
+                const transaction = this.db!.transaction([IndexedDBStore.SESSIONS_STORE], 'readonly');
+                const index = transaction.objectStore(IndexedDBStore.SESSIONS_STORE).index('start');
+                const request = index.getAll(IDBKeyRange.bound(startTime, endTime));
+
+                request.onsuccess = () => {
+                    resolve(request.result);
+                };
+
+                request.onerror = () => {
+                    this.plugin.logger.error('Error getting sessions:', request.error);
+                    reject(request.error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Failed to get sessions:', error);
+                reject(error);
+            }
+        });
+    }
+
+    public async iterateEvents(query: EventQuery, callback: (event: FileEvent) => boolean | void): Promise<void> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        const startTime = query.startTime ?? 0;
+        const endTime = query.endTime ?? Number.MAX_SAFE_INTEGER;
+        const eventTypes = query.eventTypes && query.eventTypes.length > 0 ? query.eventTypes : null;
+
+        return new Promise((resolve, reject) => {
+            try {
+                const transaction = this.db!.transaction([IndexedDBStore.EVENTS_STORE], 'readonly');
+                const store = transaction.objectStore(IndexedDBStore.EVENTS_STORE);
+
+                // Pick the narrowest index for the query; anything the index doesn't
+                // cover is filtered while iterating
+                let request: IDBRequest<IDBCursorWithValue | null>;
+                if (query.filePath) {
+                    request = store.index('filePath_timestamp').openCursor(
+                        IDBKeyRange.bound([query.filePath, startTime], [query.filePath, endTime])
+                    );
+                } else if (eventTypes && eventTypes.length === 1) {
+                    request = store.index('eventType_timestamp').openCursor(
+                        IDBKeyRange.bound([eventTypes[0], startTime], [eventTypes[0], endTime])
+                    );
+                } else {
+                    request = store.index('timestamp').openCursor(IDBKeyRange.bound(startTime, endTime));
+                }
+
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (!cursor) {
+                        resolve();
+                        return;
+                    }
+
+                    const event: FileEvent = cursor.value;
+                    if (!eventTypes || eventTypes.includes(event.eventType)) {
+                        if (callback(event) === false) {
+                            resolve();
+                            return;
+                        }
+                    }
+                    cursor.continue();
+                };
+
+                request.onerror = () => {
+                    this.plugin.logger.error('Error getting events:', request.error);
+                    reject(request.error);
+                };
+            } catch (error) {
+                this.plugin.logger.error('Failed to get events:', error);
+                reject(error);
+            }
+        });
+    }
+}
@@ -0,0 +1,95 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { FileEvent } from './ActivityDatabase';
+import { Logger } from '../Logger';
+
+/**
+ * An append-only file of FileEvents, one JSON object per line
+ */
+export class JsonlLog {
+    private adapter: DataAdapter;
+    private logger: Logger;
+    private writeQueue: Promise<void> = Promise.resolve();
+    readonly path: string;
+
+    constructor(adapter: DataAdapter, path: string, logger: Logger) {
+        this.adapter = adapter;
+        this.path = normalizePath(path);
+        this.logger = logger;
+    }
+
+    public async exists(): Promise<boolean> {
+        return this.adapter.exists(this.path);
+    }
+
+    /**
+     * Read every valid event in the log. Unreadable lines are skipped so a
+     * partially written line (e.g. from a sync conflict) doesn't block loading.
+     */
+    public async read(): Promise<FileEvent[]> {
+        if (!(await this.exists())) return [];
+
+        const content = await this.adapter.read(this.path);
+        const events: FileEvent[] = [];
+
+        content.split('\n').forEach((line, index) => {
+            if (line.trim() === '') return;
+            try {
+                const event = JSON.parse(line);
+                if (typeof event.timestamp === 'number' && typeof event.filePath === 'string' && typeof event.eventType === 'string') {
+                    events.push(event);
+                } else {
+                    this.logger.warn(`Skipping invalid event on line ${index + 1} of ${this.path}`);
+                }
+            } catch (error) {
+                this.logger.warn(`Skipping unreadable line ${index + 1} of ${this.path}`);
+            }
+        });
+
+        return events;
+    }
+
+    /**
+     * Append events to the log; writes are chained so lines never interleave
+     */
+    public append(events: FileEvent[]): Promise<void> {
+        const lines = events.map(event => JSON.stringify(event) + '\n').join('');
+
+        return this.enqueue(async () => {
+            if (await this.exists()) {
+                await this.adapter.append(this.path, lines);
+                return;
+            }
+
+            const folder = this.path.substring(0, this.path.lastIndexOf('/'));
+            if (folder && !(await this.adapter.exists(folder))) {
+                await this.adapter.mkdir(folder);
+            }
+            await this.adapter.write(this.path, lines);
+        });
+    }
+
+    /**
+     * Replace the whole log with the given events
+     */
+    public rewrite(events: FileEvent[]): Promise<void> {
+        const lines = events.map(event => JSON.stringify(event) + '\n').join('');
+        return this.enqueue(() => this.adapter.write(this.path, lines));
+    }
+
+    /**
+     * Wait for pending writes to finish
+     */
+    public async flush(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const result = this.writeQueue.then(write);
+
+        // Keep the queue alive after a failed write; the caller still sees the error
+        this.writeQueue = result.catch(error => {
+            this.logger.error(`Failed to write to ${this.path}:`, error);
+        });
+        return result;
+    }
+}
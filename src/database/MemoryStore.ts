@@ -0,0 +1,173 @@
+import { EventQuery, FileEvent } from './ActivityDatabase';
+import { ActivityStore } from './ActivityStore';
+import { DailyStats, FileStats, StatsAggregator } from './StatsAggregator';
+import { ActivitySession, SessionBuilder } from '../sessions/SessionBuilder';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Activity store that keeps everything in memory. Nothing survives a reload, so
+ * it is mainly useful for trying the plugin out and for running the event
+ * handler and dashboard outside a browser.
+ */
+export class MemoryStore implements ActivityStore {
+    protected plugin: DailyActivityPlugin;
+    private initialized = false;
+    private events: FileEvent[] = [];  // Sorted by timestamp
+    private nextId = 1;
+    private dailyStats: Map<string, DailyStats> = new Map();
+    private fileStats: Map<string, FileStats> = new Map();
+    private sessions: Map<string, ActivitySession> = new Map();
+    private sessionBuilder: SessionBuilder = new SessionBuilder();
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    public isInitialized(): boolean {
+        return this.initialized;
+    }
+
+    public async initialize(): Promise<void> {
+        this.initialized = true;
+    }
+
+    public async close(): Promise<void> {
+        this.initialized = false;
+        this.events = [];
+        this.nextId = 1;
+        this.dailyStats.clear();
+        this.fileStats.clear();
+        this.sessions.clear();
+        this.sessionBuilder = new SessionBuilder();
+    }
+
+    public async recordEvent(event: FileEvent): Promise<void> {
+        if (!this.isInitialized()) {
+            this.plugin.logger.error('Database not initialized, cannot record event:', event);
+            throw new Error('Database not initialized');
+        }
+
+        this.addEvent(event);
+    }
+
+    public async importEvents(events: FileEvent[]): Promise<void> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        const sessionBuilder = new SessionBuilder();
+        [...events]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(event => this.addEvent({ ...event, id: undefined }, sessionBuilder));
+    }
+
+    /**
+     * Store an event and fold it into the aggregates, returning the stored copy
+     */
+    protected addEvent(event: FileEvent, sessionBuilder: SessionBuilder = this.sessionBuilder): FileEvent {
+        const stored = this.insertEvent(event);
+
+        const date = StatsAggregator.dateKey(stored.timestamp);
+        const dailyStats = StatsAggregator.normalize(date, this.dailyStats.get(date));
+        this.dailyStats.set(date, StatsAggregator.applyEventToDailyStats(dailyStats, stored));
+
+        const fileStats = this.fileStats.get(stored.filePath) || StatsAggregator.createFileStats(stored.filePath);
+        this.fileStats.set(stored.filePath, StatsAggregator.applyEventToFileStats(fileStats, stored));
+
+        // A renamed note takes its history along to the new path
+        if (stored.eventType === 'rename' && stored.oldPath && this.fileStats.has(stored.oldPath)) {
+            StatsAggregator.mergeFileStats(fileStats, this.fileStats.get(stored.oldPath)!);
+            this.fileStats.delete(stored.oldPath);
+        }
+
+        if (SessionBuilder.isSessionEvent(stored)) {
+            const session = sessionBuilder.addEvent(stored, SessionBuilder.optionsFromSettings(this.plugin.settings));
+            this.sessions.set(session.id, session);
+        }
+
+        return stored;
+    }
+
+    public async replaceEvents(removeIds: number[], additions: FileEvent[]): Promise<void> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        const removed = new Set(removeIds);
+        this.events = this.events.filter(event => !removed.has(event.id!));
+        additions.forEach(event => this.insertEvent({ ...event, id: undefined }));
+    }
+
+    /**
+     * Events as currently stored, in timestamp order
+     */
+    protected getStoredEvents(): FileEvent[] {
+        return this.events;
+    }
+
+    /**
+     * Add an event to the timeline without touching the aggregates
+     */
+    private insertEvent(event: FileEvent): FileEvent {
+        const stored: FileEvent = { ...event, id: event.id ?? this.nextId };
+        this.nextId = Math.max(this.nextId, stored.id!) + 1;
+
+        // Events almost always arrive in order, so search from the end
+        let index = this.events.length;
+        while (index > 0 && this.events[index - 1].timestamp > stored.timestamp) {
+            index--;
+        }
+        this.events.splice(index, 0, stored);
+
+        return stored;
+    }
+
+    public async iterateEvents(query: EventQuery, callback: (event: FileEvent) => boolean | void): Promise<void> {
+        if (!this.isInitialized()) {
+            throw new Error('Database not initialized');
+        }
+
+        const startTime = query.startTime ?? 0;
+        const endTime = query.endTime ?? Number.MAX_SAFE_INTEGER;
+        const eventTypes = query.eventTypes && query.eventTypes.length > 0 ? query.eventTypes : null;
+
+        for (const event of this.events) {
+            if (event.timestamp < startTime) continue;
+            if (event.timestamp > endTime) break;
+            if (query.filePath && event.filePath !== query.filePath) continue;
+            if (eventTypes && !eventTypes.includes(event.eventType)) continue;
+
+            if (callback(event) === false) break;
+        }
+    }
+
+    public async getDailyStats(date: string): Promise<DailyStats | undefined> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return this.dailyStats.get(date);
+    }
+
+    public async getDailyStatsInRange(startDate: string, endDate: string): Promise<DailyStats[]> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return Array.from(this.dailyStats.values())
+            .filter(stats => stats.date >= startDate && stats.date <= endDate)
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    public async getFileStats(filePath: string): Promise<FileStats | undefined> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return this.fileStats.get(filePath);
+    }
+
+    public async getAllFileStats(): Promise<FileStats[]> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return Array.from(this.fileStats.values());
+    }
+
+    public async getSessionsInTimeRange(startTime: number, endTime: number): Promise<ActivitySession[]> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        return Array.from(this.sessions.values())
+            .filter(session => session.start >= startTime && session.start <= endTime)
+            .sort((a, b) => a.start - b.start);
+    }
+}
@@ -0,0 +1,60 @@
+import { FileEvent } from './ActivityDatabase';
+
+interface Rename {
+    newPath: string;
+    timestamp: number;
+}
+
+/**
+ * Follows notes through renames. Events and stats are keyed by the path a note
+ * had at the time, so to treat them as one note each path is resolved forward
+ * along the chain of rename events to the path the note has now.
+ */
+export class NoteIdentity {
+    private renames: Map<string, Rename[]> = new Map();  // By old path, in timestamp order
+
+    public static fromEvents(events: FileEvent[]): NoteIdentity {
+        const identity = new NoteIdentity();
+        events.forEach(event => identity.addEvent(event));
+        return identity;
+    }
+
+    /**
+     * Remember a rename; other events are ignored
+     */
+    public addEvent(event: FileEvent): void {
+        if (event.eventType !== 'rename' || !event.oldPath || event.oldPath === event.filePath) return;
+
+        const renames = this.renames.get(event.oldPath) || [];
+        let index = renames.length;
+        while (index > 0 && renames[index - 1].timestamp > event.timestamp) {
+            index--;
+        }
+        renames.splice(index, 0, { newPath: event.filePath, timestamp: event.timestamp });
+        this.renames.set(event.oldPath, renames);
+    }
+
+    /**
+     * Whether the note at a path was ever renamed away from it
+     */
+    public wasRenamed(path: string): boolean {
+        return this.renames.has(path);
+    }
+
+    /**
+     * Current path of the note that was at `path` at `timestamp`. Leave out the
+     * timestamp to follow every rename away from the path.
+     */
+    public resolve(path: string, timestamp: number = 0): string {
+        let current = path;
+        let since = timestamp;
+
+        // Each step moves forward in time, so a note renamed back and forth still ends
+        for (;;) {
+            const next = (this.renames.get(current) || []).find(rename => rename.timestamp >= since);
+            if (!next) return current;
+            current = next.newPath;
+            since = next.timestamp + 1;
+        }
+    }
+}
@@ -0,0 +1,236 @@
+import { FileEvent } from './ActivityDatabase';
+import { FileEventType, FileEventTypes, FILE_EVENT_TYPES } from './FileEventTypes';
+import { EventCompactor } from './EventCompactor';
+
+export interface DailyStats {
+    date: string;                              // YYYY-MM-DD
+    totalEvents: number;
+    eventCounts: Record<FileEventType, number>;
+    totalAdded: number;                        // Characters added
+    totalRemoved: number;                      // Characters removed
+    totalLinesAdded: number;
+    totalLinesRemoved: number;
+    totalWordsAdded: number;
+    totalWordsRemoved: number;
+    filesTouched: string[];                    // Unique paths with a non-navigation event
+    firstActivity: number | null;
+    lastActivity: number | null;
+}
+
+export interface FileStats {
+    filePath: string;
+    totalEdits: number;
+    totalAdded: number;                        // Characters added
+    totalRemoved: number;                      // Characters removed
+    totalLinesAdded: number;
+    totalLinesRemoved: number;
+    totalWordsAdded: number;
+    totalWordsRemoved: number;
+    totalOpens: number;
+    lastModified?: number;
+    lastOpened?: number;
+    previousPaths?: string[];                  // Paths the note had before it was renamed
+}
+
+/**
+ * Folds file events into per-day and per-file aggregates. Used both when recording a single
+ * event and when rebuilding daily_stats from the full event history.
+ */
+export class StatsAggregator {
+    /**
+     * Date key used for daily_stats: the local YYYY-MM-DD, like session dates
+     * and report days
+     */
+    public static dateKey(timestamp: number): string {
+        const date = new Date(timestamp);
+        const year = date.getFullYear();
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${year}-${month}-${day}`;
+    }
+
+    /**
+     * First and last millisecond of the local day a date key stands for
+     */
+    public static dayBounds(date: string): { startTime: number, endTime: number } {
+        const [year, month, day] = date.split('-').map(Number);
+        return {
+            startTime: new Date(year, month - 1, day).getTime(),
+            endTime: new Date(year, month - 1, day + 1).getTime() - 1
+        };
+    }
+
+    /**
+     * Fill in any fields missing from a stored record, e.g. one written before
+     * content totals were aggregated
+     */
+    public static normalize(date: string, existing?: Partial<DailyStats>): DailyStats {
+        const stats: DailyStats = {
+            date,
+            totalEvents: 0,
+            eventCounts: {} as Record<FileEventType, number>,
+            totalAdded: 0,
+            totalRemoved: 0,
+            totalLinesAdded: 0,
+            totalLinesRemoved: 0,
+            totalWordsAdded: 0,
+            totalWordsRemoved: 0,
+            filesTouched: [],
+            firstActivity: null,
+            lastActivity: null,
+            ...existing
+        };
+
+        FILE_EVENT_TYPES.forEach(type => {
+            if (typeof stats.eventCounts[type] === 'undefined') {
+                stats.eventCounts[type] = 0;
+            }
+        });
+
+        return stats;
+    }
+
+    public static createFileStats(filePath: string): FileStats {
+        return {
+            filePath,
+            totalEdits: 0,
+            totalAdded: 0,
+            totalRemoved: 0,
+            totalLinesAdded: 0,
+            totalLinesRemoved: 0,
+            totalWordsAdded: 0,
+            totalWordsRemoved: 0,
+            totalOpens: 0
+        };
+    }
+
+    /**
+     * Add one event to a file's aggregates (mutates and returns the stats)
+     */
+    public static applyEventToFileStats(stats: FileStats, event: FileEvent): FileStats {
+        const count = EventCompactor.weight(event);
+
+        // Navigation events count as views rather than edits so they don't
+        // inflate "most active" rankings
+        if (FileEventTypes.isNavigation(event.eventType)) {
+            if (event.eventType === 'open') {
+                stats.totalOpens = (stats.totalOpens || 0) + count;
+            }
+            stats.lastOpened = Math.max(stats.lastOpened || 0, event.rollup ? event.rollup.end : event.timestamp);
+        } else {
+            stats.totalEdits += count;
+            // Imported and synced events can be older than what's already recorded
+            stats.lastModified = Math.max(stats.lastModified || 0, event.rollup ? event.rollup.end : event.timestamp);
+        }
+
+        if (event.contentDiff) {
+            stats.totalAdded = (stats.totalAdded || 0) + (event.contentDiff.added || 0);
+            stats.totalRemoved = (stats.totalRemoved || 0) + (event.contentDiff.removed || 0);
+            stats.totalLinesAdded = (stats.totalLinesAdded || 0) + (event.contentDiff.linesAdded || 0);
+            stats.totalLinesRemoved = (stats.totalLinesRemoved || 0) + (event.contentDiff.linesRemoved || 0);
+            stats.totalWordsAdded = (stats.totalWordsAdded || 0) + (event.contentDiff.wordsAdded || 0);
+            stats.totalWordsRemoved = (stats.totalWordsRemoved || 0) + (event.contentDiff.wordsRemoved || 0);
+        }
+
+        return stats;
+    }
+
+    /**
+     * Fold the stats kept under a renamed note's old path into its new stats
+     * (mutates and returns the target)
+     */
+    public static mergeFileStats(target: FileStats, source: FileStats): FileStats {
+        target.totalEdits = (target.totalEdits || 0) + (source.totalEdits || 0);
+        target.totalAdded = (target.totalAdded || 0) + (source.totalAdded || 0);
+        target.totalRemoved = (target.totalRemoved || 0) + (source.totalRemoved || 0);
+        target.totalLinesAdded = (target.totalLinesAdded || 0) + (source.totalLinesAdded || 0);
+        target.totalLinesRemoved = (target.totalLinesRemoved || 0) + (source.totalLinesRemoved || 0);
+        target.totalWordsAdded = (target.totalWordsAdded || 0) + (source.totalWordsAdded || 0);
+        target.totalWordsRemoved = (target.totalWordsRemoved || 0) + (source.totalWordsRemoved || 0);
+        target.totalOpens = (target.totalOpens || 0) + (source.totalOpens || 0);
+
+        if (source.lastModified) {
+            target.lastModified = Math.max(target.lastModified || 0, source.lastModified);
+        }
+        if (source.lastOpened) {
+            target.lastOpened = Math.max(target.lastOpened || 0, source.lastOpened);
+        }
+
+        const previousPaths = new Set([...(target.previousPaths || []), ...(source.previousPaths || []), source.filePath]);
+        previousPaths.delete(target.filePath);
+        target.previousPaths = Array.from(previousPaths);
+
+        return target;
+    }
+
+    /**
+     * Add one event to a day's aggregates (mutates and returns the stats)
+     */
+    public static applyEventToDailyStats(stats: DailyStats, event: FileEvent): DailyStats {
+        const count = EventCompactor.weight(event);
+        stats.totalEvents += count;
+        stats.eventCounts[event.eventType] = (stats.eventCounts[event.eventType] || 0) + count;
+
+        if (event.contentDiff) {
+            stats.totalAdded += event.contentDiff.added || 0;
+            stats.totalRemoved += event.contentDiff.removed || 0;
+            stats.totalLinesAdded += event.contentDiff.linesAdded || 0;
+            stats.totalLinesRemoved += event.contentDiff.linesRemoved || 0;
+            stats.totalWordsAdded += event.contentDiff.wordsAdded || 0;
+            stats.totalWordsRemoved += event.contentDiff.wordsRemoved || 0;
+        }
+
+        // Opening or switching to a note doesn't count as touching it
+        if (!FileEventTypes.isNavigation(event.eventType) && !stats.filesTouched.includes(event.filePath)) {
+            stats.filesTouched.push(event.filePath);
+        }
+
+        if (stats.firstActivity === null || event.timestamp < stats.firstActivity) {
+            stats.firstActivity = event.timestamp;
+        }
+        const lastTimestamp = event.rollup ? event.rollup.end : event.timestamp;
+        if (stats.lastActivity === null || lastTimestamp > stats.lastActivity) {
+            stats.lastActivity = lastTimestamp;
+        }
+
+        return stats;
+    }
+
+    /**
+     * Build daily aggregates from scratch for a list of events
+     */
+    public static buildDailyStats(events: FileEvent[]): DailyStats[] {
+        const byDate: Map<string, DailyStats> = new Map();
+
+        events.forEach(event => {
+            const date = StatsAggregator.dateKey(event.timestamp);
+            if (!byDate.has(date)) {
+                byDate.set(date, StatsAggregator.normalize(date));
+            }
+            StatsAggregator.applyEventToDailyStats(byDate.get(date)!, event);
+        });
+
+        return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * Build per-file aggregates from scratch for a list of events
+     */
+    public static buildFileStats(events: FileEvent[]): FileStats[] {
+        const byFile: Map<string, FileStats> = new Map();
+
+        events.forEach(event => {
+            if (!byFile.has(event.filePath)) {
+                byFile.set(event.filePath, StatsAggregator.createFileStats(event.filePath));
+            }
+            StatsAggregator.applyEventToFileStats(byFile.get(event.filePath)!, event);
+
+            if (event.eventType === 'rename' && event.oldPath && byFile.has(event.oldPath)) {
+                StatsAggregator.mergeFileStats(byFile.get(event.filePath)!, byFile.get(event.oldPath)!);
+                byFile.delete(event.oldPath);
+            }
+        });
+
+        return Array.from(byFile.values());
+    }
+}
@@ -0,0 +1,69 @@
+import { FileEvent } from './ActivityDatabase';
+import { JsonlLog } from './JsonlLog';
+import { MemoryStore } from './MemoryStore';
+import { SessionBuilder } from '../sessions/SessionBuilder';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Activity store that appends events as JSON lines to a file inside the vault,
+ * so the history travels with the vault to other devices. Aggregates are kept in
+ * memory and rebuilt from the log when the store is opened.
+ */
+export class VaultFileStore extends MemoryStore {
+    private log: JsonlLog;
+
+    constructor(plugin: DailyActivityPlugin, filePath: string) {
+        super(plugin);
+        this.log = new JsonlLog(plugin.app.vault.adapter, filePath, plugin.logger);
+    }
+
+    public getFilePath(): string {
+        return this.log.path;
+    }
+
+    public async initialize(): Promise<void> {
+        if (this.isInitialized()) {
+            this.plugin.logger.debug('Database already initialized');
+            return;
+        }
+
+        await super.initialize();
+
+        const events = await this.log.read();
+        events
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(event => this.addEvent(event));
+
+        this.plugin.logger.info(`Loaded ${events.length} events from ${this.log.path}`);
+    }
+
+    public async close(): Promise<void> {
+        await this.log.flush();
+        await super.close();
+    }
+
+    public async recordEvent(event: FileEvent): Promise<void> {
+        if (!this.isInitialized()) {
+            this.plugin.logger.error('Database not initialized, cannot record event:', event);
+            throw new Error('Database not initialized');
+        }
+
+        const stored = this.addEvent(event);
+        await this.log.append([stored]);
+    }
+
+    public async importEvents(events: FileEvent[]): Promise<void> {
+        if (!this.isInitialized()) throw new Error('Database not initialized');
+
+        const sessionBuilder = new SessionBuilder();
+        const stored = [...events]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(event => this.addEvent({ ...event, id: undefined }, sessionBuilder));
+        await this.log.append(stored);
+    }
+
+    public async replaceEvents(removeIds: number[], additions: FileEvent[]): Promise<void> {
+        await super.replaceEvents(removeIds, additions);
+        await this.log.rewrite(this.getStoredEvents());
+    }
+}
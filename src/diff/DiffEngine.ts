@@ -0,0 +1,274 @@
+export interface DiffCounts {
+    linesAdded: number;
+    linesRemoved: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+    charsAdded: number;
+    charsRemoved: number;
+}
+
+export interface DiffHunk extends DiffCounts {
+    oldStart: number; // 0-based line index in the old content
+    oldLines: number;
+    newStart: number; // 0-based line index in the new content
+    newLines: number;
+}
+
+export interface DiffResult extends DiffCounts {
+    hunks: DiffHunk[];
+}
+
+interface EditOp {
+    type: 'equal' | 'insert' | 'delete';
+    oldIndex: number;
+    newIndex: number;
+}
+
+/**
+ * Line-based diff engine (Myers' O(ND) algorithm).
+ *
+ * Lines are diffed first to find the changed hunks, then the text of each hunk is
+ * diffed again at the word level so that rewriting part of a line only counts the
+ * words and characters that actually changed.
+ */
+export class DiffEngine {
+    // Beyond this many edits we stop searching for a minimal script and treat the
+    // region as replaced wholesale; keeps time and memory bounded on huge rewrites.
+    private static MAX_EDIT_DISTANCE = 1000;
+
+    /**
+     * Diff two versions of a document
+     */
+    public static diff(oldContent: string, newContent: string): DiffResult {
+        const result: DiffResult = { ...DiffEngine.emptyCounts(), hunks: [] };
+        if (oldContent === newContent) return result;
+
+        const oldLines = DiffEngine.splitLines(oldContent);
+        const newLines = DiffEngine.splitLines(newContent);
+
+        for (const hunk of DiffEngine.findHunks(oldLines, newLines)) {
+            result.hunks.push(hunk);
+            result.linesAdded += hunk.linesAdded;
+            result.linesRemoved += hunk.linesRemoved;
+            result.wordsAdded += hunk.wordsAdded;
+            result.wordsRemoved += hunk.wordsRemoved;
+            result.charsAdded += hunk.charsAdded;
+            result.charsRemoved += hunk.charsRemoved;
+        }
+
+        return result;
+    }
+
+    /**
+     * Count the words in a piece of text
+     */
+    public static countWords(text: string): number {
+        const matches = text.match(/\S+/g);
+        return matches ? matches.length : 0;
+    }
+
+    private static emptyCounts(): DiffCounts {
+        return {
+            linesAdded: 0,
+            linesRemoved: 0,
+            wordsAdded: 0,
+            wordsRemoved: 0,
+            charsAdded: 0,
+            charsRemoved: 0
+        };
+    }
+
+    private static splitLines(content: string): string[] {
+        return content.length === 0 ? [] : content.split('\n');
+    }
+
+    private static findHunks(oldLines: string[], newLines: string[]): DiffHunk[] {
+        const ops = DiffEngine.editScript(oldLines, newLines);
+        const hunks: DiffHunk[] = [];
+
+        let i = 0;
+        while (i < ops.length) {
+            if (ops[i].type === 'equal') {
+                i++;
+                continue;
+            }
+
+            // Collect a run of consecutive inserts/deletes into one hunk
+            const removed: string[] = [];
+            const added: string[] = [];
+            const oldStart = ops[i].oldIndex;
+            const newStart = ops[i].newIndex;
+            while (i < ops.length && ops[i].type !== 'equal') {
+                if (ops[i].type === 'delete') {
+                    removed.push(oldLines[ops[i].oldIndex]);
+                } else {
+                    added.push(newLines[ops[i].newIndex]);
+                }
+                i++;
+            }
+
+            hunks.push({
+                oldStart,
+                oldLines: removed.length,
+                newStart,
+                newLines: added.length,
+                ...DiffEngine.countHunk(removed, added)
+            });
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Word/character counts for a single hunk, using a token-level diff of its text
+     */
+    private static countHunk(removed: string[], added: string[]): DiffCounts {
+        const counts = DiffEngine.emptyCounts();
+        counts.linesRemoved = removed.length;
+        counts.linesAdded = added.length;
+
+        const oldTokens = DiffEngine.tokenize(removed);
+        const newTokens = DiffEngine.tokenize(added);
+
+        for (const op of DiffEngine.editScript(oldTokens, newTokens)) {
+            if (op.type === 'delete') {
+                const token = oldTokens[op.oldIndex];
+                counts.charsRemoved += token.length;
+                if (/\S/.test(token)) counts.wordsRemoved++;
+            } else if (op.type === 'insert') {
+                const token = newTokens[op.newIndex];
+                counts.charsAdded += token.length;
+                if (/\S/.test(token)) counts.wordsAdded++;
+            }
+        }
+
+        return counts;
+    }
+
+    private static tokenize(lines: string[]): string[] {
+        if (lines.length === 0) return [];
+        return lines.join('\n').concat('\n').match(/\s+|\S+/g) || [];
+    }
+
+    /**
+     * Compute an edit script between two sequences, trimming the common prefix and
+     * suffix before running Myers on the remaining middle section.
+     */
+    private static editScript(a: string[], b: string[]): EditOp[] {
+        let prefix = 0;
+        while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+            prefix++;
+        }
+
+        let suffix = 0;
+        while (suffix < a.length - prefix && suffix < b.length - prefix &&
+            a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+            suffix++;
+        }
+
+        const ops: EditOp[] = [];
+        for (let i = 0; i < prefix; i++) {
+            ops.push({ type: 'equal', oldIndex: i, newIndex: i });
+        }
+
+        const middleA = a.slice(prefix, a.length - suffix);
+        const middleB = b.slice(prefix, b.length - suffix);
+        const middle = DiffEngine.myers(middleA, middleB) || DiffEngine.replaceAll(middleA, middleB);
+        for (const op of middle) {
+            ops.push({ type: op.type, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+        }
+
+        for (let i = suffix; i > 0; i--) {
+            ops.push({ type: 'equal', oldIndex: a.length - i, newIndex: b.length - i });
+        }
+
+        return ops;
+    }
+
+    private static replaceAll(a: string[], b: string[]): EditOp[] {
+        const ops: EditOp[] = [];
+        for (let i = 0; i < a.length; i++) {
+            ops.push({ type: 'delete', oldIndex: i, newIndex: 0 });
+        }
+        for (let j = 0; j < b.length; j++) {
+            ops.push({ type: 'insert', oldIndex: a.length, newIndex: j });
+        }
+        return ops;
+    }
+
+    /**
+     * Myers' shortest edit script. Returns null when the edit distance exceeds
+     * MAX_EDIT_DISTANCE so the caller can fall back to a wholesale replacement.
+     */
+    private static myers(a: string[], b: string[]): EditOp[] | null {
+        const n = a.length;
+        const m = b.length;
+        if (n === 0 || m === 0) return DiffEngine.replaceAll(a, b);
+
+        const max = n + m;
+        const offset = max + 1;
+        const v = new Int32Array(2 * max + 3);
+        // trace[d] holds the furthest-reaching x for diagonals -(d+1)..(d+1) before step d
+        const trace: Int32Array[] = [];
+        const limit = Math.min(max, DiffEngine.MAX_EDIT_DISTANCE);
+
+        for (let d = 0; d <= limit; d++) {
+            trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+            for (let k = -d; k <= d; k += 2) {
+                let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+                let y = x - k;
+
+                while (x < n && y < m && a[x] === b[y]) {
+                    x++;
+                    y++;
+                }
+
+                v[offset + k] = x;
+
+                if (x >= n && y >= m) {
+                    return DiffEngine.backtrack(trace, n, m);
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private static backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+        const ops: EditOp[] = [];
+        let x = n;
+        let y = m;
+
+        for (let d = trace.length - 1; d >= 0; d--) {
+            const v = trace[d];
+            const at = (k: number) => v[k + d + 1];
+            const k = x - y;
+
+            const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+            const prevX = at(prevK);
+            const prevY = prevX - prevK;
+
+            while (x > prevX && y > prevY) {
+                ops.push({ type: 'equal', oldIndex: x - 1, newIndex: y - 1 });
+                x--;
+                y--;
+            }
+
+            if (d > 0) {
+                if (x === prevX) {
+                    ops.push({ type: 'insert', oldIndex: x, newIndex: y - 1 });
+                } else {
+                    ops.push({ type: 'delete', oldIndex: x - 1, newIndex: y });
+                }
+            }
+
+            x = prevX;
+            y = prevY;
+        }
+
+        return ops.reverse();
+    }
+}
@@ -0,0 +1,88 @@
+import { App } from 'obsidian';
+import { FilterContext, FilterLists, FilterQuery } from './FilterQuery';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Parses filter expressions with the saved filters from the settings, and
+ * builds the filters the settings ask for
+ */
+export class ActivityFilters {
+    private app: App;
+    private plugin: DailyActivityPlugin;
+    private cache: Map<string, FilterQuery> = new Map();
+    private cacheKey = '';
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+    }
+
+    /**
+     * Parse an expression, throwing when it's invalid. Parsed filters are kept
+     * until the saved filters change.
+     */
+    public parse(text: string): FilterQuery {
+        const key = JSON.stringify(this.plugin.settings.savedFilters);
+        if (key !== this.cacheKey) {
+            this.cache.clear();
+            this.cacheKey = key;
+        }
+
+        let query = this.cache.get(text);
+        if (!query) {
+            query = FilterQuery.parse(text, this.getContext());
+            this.cache.set(text, query);
+        }
+        return query;
+    }
+
+    /**
+     * What's wrong with an expression, or null when it's valid
+     */
+    public validate(text: string): string | null {
+        try {
+            this.parse(text);
+            return null;
+        } catch (error) {
+            return error.message;
+        }
+    }
+
+    /**
+     * The include/exclude lists combined with an expression
+     */
+    public combine(lists: FilterLists, text = ''): FilterQuery {
+        return FilterQuery.fromLists(lists).and(this.parse(text));
+    }
+
+    /**
+     * The filter for link lists and reports when the filter dialog is off
+     */
+    public fromSettings(): FilterQuery {
+        const settings = this.plugin.settings;
+        return this.combine(settings, settings.filterQuery);
+    }
+
+    /**
+     * Which events are recorded. An invalid tracking filter is left out, so
+     * activity isn't lost while it's being edited.
+     */
+    public forTracking(): FilterQuery {
+        const settings = this.plugin.settings;
+        const lists = { includePaths: settings.activityTrackingIncludePaths, excludePaths: settings.activityTrackingExcludePaths };
+        try {
+            return this.combine(lists, settings.activityTrackingFilter);
+        } catch (error) {
+            this.plugin.logger.warn(`Ignoring invalid activity tracking filter: ${error.message}`);
+            return FilterQuery.fromLists(lists);
+        }
+    }
+
+    private getContext(): FilterContext {
+        return {
+            app: this.app,
+            savedFilters: this.plugin.settings.savedFilters,
+            deviceId: this.plugin.database.getDeviceId()
+        };
+    }
+}
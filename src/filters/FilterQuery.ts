@@ -0,0 +1,461 @@
+import { App, CachedMetadata, getAllTags, TFile } from 'obsidian';
+import { FileEvent } from '../database/ActivityDatabase';
+import { FileEventType } from '../database/FileEventTypes';
+import { PathPatterns } from './PathPatterns';
+
+export interface SavedFilter {
+    name: string;   // Used as @name in other filters
+    query: string;
+}
+
+/**
+ * What a filter is checked against: a file, and the event recorded on it when
+ * there is one
+ */
+export interface FilterSubject {
+    path: string;
+    eventType?: FileEventType;
+    event?: FileEvent;
+}
+
+export interface FilterContext {
+    app: App;
+    savedFilters: SavedFilter[];
+    deviceId: string;  // Device for events recorded before sync was added
+}
+
+/**
+ * The include/exclude lists from before filter expressions. Path lists hold
+ * gitignore-style patterns.
+ */
+export interface FilterLists {
+    includeRegex?: string[];
+    excludeRegex?: string[];
+    includePaths?: string[];
+    excludePaths?: string[];
+}
+
+// Null when the term doesn't apply to the subject, e.g. words>50 for a file
+// that isn't part of an event; such terms neither include nor exclude it
+type FilterTest = (subject: FilterSubject) => boolean | null;
+
+interface Token {
+    kind: 'word' | 'not' | 'or' | 'open' | 'close';
+    text: string;
+}
+
+const TEXT_FIELDS = ['path', 'name', 'folder', 'ext', 'tag', 'links-to', 'linked-from', 'type', 'device'];
+const NUMBER_FIELDS = ['words', 'lines', 'chars'];
+
+const EVENT_TYPES: Record<string, FileEventType> = {
+    create: 'create', created: 'create',
+    modify: 'modify', modified: 'modify', edit: 'modify', edited: 'modify',
+    delete: 'delete', deleted: 'delete',
+    rename: 'rename', renamed: 'rename',
+    open: 'open', opened: 'open',
+    close: 'close', closed: 'close',
+    focus: 'focus', blur: 'blur'
+};
+
+/**
+ * A parsed filter expression such as `path:Projects/ -tag:#archive type:modify
+ * words>50`. Terms are combined with AND unless joined by OR; `-` negates a term
+ * or a group in parentheses, and `@name` stands for a saved filter. A word
+ * without a field matches the path. `[property:value]` matches frontmatter.
+ * Tags, properties and links are read from the metadata cache each time a
+ * filter runs, so they reflect notes as they are now.
+ */
+export class FilterQuery {
+    private test: FilterTest | null;  // Null matches everything
+
+    private constructor(test: FilterTest | null) {
+        this.test = test;
+    }
+
+    /**
+     * Parse an expression, throwing an error that says what's wrong with it. An
+     * empty expression matches everything.
+     */
+    public static parse(text: string, context: FilterContext): FilterQuery {
+        return new FilterQuery(text.trim() ? FilterQuery.compile(text, context, []) : null);
+    }
+
+    /**
+     * The include/exclude lists as a filter: excludes win, and each include list
+     * with entries must be matched. Regexes and path patterns are case-sensitive.
+     */
+    public static fromLists(lists: FilterLists): FilterQuery {
+        const values = (list?: string[]) => (list || []).filter(value => value.length > 0);
+        const regexTest = (pattern: string): FilterTest => {
+            const regex = FilterQuery.regex(`/${pattern}/`);
+            return subject => regex.test(subject.path);
+        };
+        const includePaths = PathPatterns.parse(values(lists.includePaths));
+        const excludePaths = PathPatterns.parse(values(lists.excludePaths));
+
+        const tests: FilterTest[] = [];
+        values(lists.excludeRegex).forEach(pattern => tests.push(FilterQuery.not(regexTest(pattern))));
+        if (!excludePaths.isEmpty()) tests.push(subject => !excludePaths.matches(subject.path));
+        if (values(lists.includeRegex).length > 0) tests.push(FilterQuery.any(values(lists.includeRegex).map(regexTest)));
+        if (!includePaths.isEmpty()) tests.push(subject => includePaths.matches(subject.path));
+
+        return new FilterQuery(tests.length > 0 ? FilterQuery.all(tests) : null);
+    }
+
+    /**
+     * Both filters at once
+     */
+    public and(other: FilterQuery): FilterQuery {
+        if (!other.test) return this;
+        if (!this.test) return other;
+        return new FilterQuery(FilterQuery.all([this.test, other.test]));
+    }
+
+    public isEmpty(): boolean {
+        return this.test === null;
+    }
+
+    public matches(subject: FilterSubject): boolean {
+        return !this.test || this.test(subject) !== false;
+    }
+
+    public matchesPath(path: string): boolean {
+        return this.matches({ path });
+    }
+
+    public matchesEvent(event: FileEvent): boolean {
+        return this.matches({ path: event.filePath, eventType: event.eventType, event });
+    }
+
+    private static compile(text: string, context: FilterContext, savedNames: string[]): FilterTest {
+        const tokens = FilterQuery.tokenize(text);
+        let position = 0;
+
+        const parseOr = (): FilterTest => {
+            const branches = [parseAnd()];
+            while (tokens[position]?.kind === 'or') {
+                position++;
+                branches.push(parseAnd());
+            }
+            return branches.length === 1 ? branches[0] : FilterQuery.any(branches);
+        };
+
+        const parseAnd = (): FilterTest => {
+            const terms: FilterTest[] = [];
+            while (position < tokens.length && tokens[position].kind !== 'or' && tokens[position].kind !== 'close') {
+                terms.push(parseUnary());
+            }
+            if (terms.length === 0) {
+                throw new Error(position < tokens.length ? `Expected a filter before "${tokens[position].text}"` : 'Expected a filter at the end');
+            }
+            return terms.length === 1 ? terms[0] : FilterQuery.all(terms);
+        };
+
+        const parseUnary = (): FilterTest => {
+            const token = tokens[position++];
+            if (token.kind === 'not') {
+                if (position >= tokens.length) throw new Error('Expected a filter after "-"');
+                return FilterQuery.not(parseUnary());
+            }
+            if (token.kind === 'open') {
+                const group = parseOr();
+                if (tokens[position]?.kind !== 'close') throw new Error('Missing ")"');
+                position++;
+                return group;
+            }
+            return FilterQuery.term(token.text, context, savedNames);
+        };
+
+        const test = parseOr();
+        if (position < tokens.length) {
+            throw new Error(`Unexpected "${tokens[position].text}"`);
+        }
+        return test;
+    }
+
+    /**
+     * Split an expression into words, parentheses, `-` and OR. Quotes and
+     * square brackets keep spaces and parentheses inside a word; parentheses
+     * that open inside a word, as in a regex, also close inside it.
+     */
+    private static tokenize(text: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+
+        while (i < text.length) {
+            const char = text[i];
+            if (/\s/.test(char)) {
+                i++;
+            } else if (char === '(' || char === ')') {
+                tokens.push({ kind: char === '(' ? 'open' : 'close', text: char });
+                i++;
+            } else if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+                tokens.push({ kind: 'not', text: char });
+                i++;
+            } else {
+                let word = '';
+                let depth = 0;
+                let brackets = 0;
+                let quoted = false;
+                for (; i < text.length; i++) {
+                    const c = text[i];
+                    if (c === '"') {
+                        quoted = !quoted;
+                    } else if (!quoted && c === '[') {
+                        brackets++;
+                    } else if (!quoted && c === ']' && brackets > 0) {
+                        brackets--;
+                    } else if (!quoted && brackets > 0) {
+                        // Spaces and parentheses belong to the property or link
+                    } else if (!quoted && /\s/.test(c)) {
+                        break;
+                    } else if (!quoted && c === '(') {
+                        depth++;
+                    } else if (!quoted && c === ')') {
+                        if (depth === 0) break;
+                        depth--;
+                    }
+                    word += c;
+                }
+                if (quoted) throw new Error(`Missing closing quote in ${word}`);
+                if (brackets > 0) throw new Error(`Missing "]" in ${word}`);
+                tokens.push({ kind: word === 'OR' ? 'or' : 'word', text: word });
+            }
+        }
+
+        return tokens;
+    }
+
+    private static term(word: string, context: FilterContext, savedNames: string[]): FilterTest {
+        if (word.startsWith('@')) {
+            return FilterQuery.saved(word.substring(1), context, savedNames);
+        }
+
+        const property = word.match(/^\[([^\]:<>=]+)(?:(>=|<=|:|>|<|=)(.*))?\]$/);
+        if (property) {
+            return FilterQuery.propertyTest(property[1].trim(), property[2], FilterQuery.unquote(property[3] || '').trim(), context);
+        }
+
+        const match = word.match(/^([a-zA-Z][a-zA-Z-]*)(>=|<=|:|>|<|=)(.*)$/);
+        if (!match) {
+            return FilterQuery.textTest('path', FilterQuery.unquote(word), context);
+        }
+
+        const field = match[1].toLowerCase();
+        const operator = match[2];
+        const value = FilterQuery.unquote(match[3]);
+        if (!value) {
+            throw new Error(`Missing a value after "${field}${operator}"`);
+        }
+
+        if (NUMBER_FIELDS.includes(field)) {
+            const number = Number(value);
+            if (!isFinite(number)) throw new Error(`"${field}" needs a number, e.g. ${field}>50`);
+            return FilterQuery.numberTest(field, operator, number);
+        }
+        if (TEXT_FIELDS.includes(field)) {
+            if (operator !== ':') throw new Error(`Use "${field}:" to match ${field}, e.g. ${field}:${value}`);
+            return FilterQuery.textTest(field, value, context);
+        }
+        throw new Error(`Unknown field "${field}". Use one of: ${[...TEXT_FIELDS, ...NUMBER_FIELDS].join(', ')}`);
+    }
+
+    private static saved(name: string, context: FilterContext, savedNames: string[]): FilterTest {
+        const saved = context.savedFilters.find(filter => filter.name.toLowerCase() === name.toLowerCase());
+        if (!saved) {
+            throw new Error(`No saved filter named "${name}"`);
+        }
+        if (savedNames.includes(saved.name)) {
+            throw new Error(`Saved filter "${saved.name}" refers to itself`);
+        }
+        if (!saved.query.trim()) {
+            return () => null;
+        }
+
+        try {
+            return FilterQuery.compile(saved.query, context, [...savedNames, saved.name]);
+        } catch (error) {
+            throw new Error(`In saved filter "${saved.name}": ${error.message}`);
+        }
+    }
+
+    private static textTest(field: string, value: string, context: FilterContext): FilterTest {
+        const lower = value.toLowerCase();
+        switch (field) {
+            case 'path':
+            case 'name': {
+                const part = (path: string) => field === 'name' ? path.split('/').pop() || path : path;
+                if (/^\/.+\/[a-z]*$/.test(value)) {
+                    const regex = FilterQuery.regex(value);
+                    return subject => regex.test(part(subject.path));
+                }
+                return subject => part(subject.path).toLowerCase().includes(lower);
+            }
+            case 'folder': {
+                const folder = lower.replace(/^\/+|\/+$/g, '') + '/';
+                return subject => subject.path.toLowerCase().startsWith(folder);
+            }
+            case 'ext': {
+                const extension = lower.replace(/^\./, '');
+                return subject => {
+                    const name = subject.path.split('/').pop() || '';
+                    return name.includes('.') && name.substring(name.lastIndexOf('.') + 1).toLowerCase() === extension;
+                };
+            }
+            case 'tag': {
+                const tag = '#' + lower.replace(/^#/, '');
+                return subject => FilterQuery.withMetadata(subject.path, context, cache =>
+                    (getAllTags(cache) || []).some(other => other.toLowerCase() === tag || other.toLowerCase().startsWith(tag + '/')));
+            }
+            case 'links-to': {
+                const linkpath = FilterQuery.linkpath(value);
+                return subject => FilterQuery.withMetadata(subject.path, context, () => {
+                    const metadataCache = context.app.metadataCache;
+                    const target = metadataCache.getFirstLinkpathDest(linkpath, subject.path);
+                    if (target) {
+                        return !!metadataCache.resolvedLinks[subject.path]?.[target.path];
+                    }
+                    // Links to notes that don't exist yet
+                    return Object.keys(metadataCache.unresolvedLinks[subject.path] || {}).some(link => link.toLowerCase() === linkpath.toLowerCase());
+                });
+            }
+            case 'linked-from': {
+                const linkpath = FilterQuery.linkpath(value);
+                return subject => {
+                    const metadataCache = context.app.metadataCache;
+                    const source = metadataCache.getFirstLinkpathDest(linkpath, '');
+                    return !!source && !!metadataCache.resolvedLinks[source.path]?.[subject.path];
+                };
+            }
+            case 'type': {
+                const eventType = EVENT_TYPES[lower];
+                if (!eventType) throw new Error(`Unknown event type "${value}"`);
+                return subject => subject.eventType ? subject.eventType === eventType : null;
+            }
+            case 'device':
+                return subject => subject.event ? (subject.event.deviceId || context.deviceId).toLowerCase() === lower : null;
+        }
+        throw new Error(`Unknown field "${field}"`);
+    }
+
+    /**
+     * Lines, words or characters changed (added plus removed) by an event
+     */
+    private static numberTest(field: string, operator: string, number: number): FilterTest {
+        return subject => {
+            if (!subject.event) return null;
+            const diff = subject.event.contentDiff;
+            const changed = !diff ? 0
+                : field === 'words' ? (diff.wordsAdded || 0) + (diff.wordsRemoved || 0)
+                    : field === 'lines' ? (diff.linesAdded || 0) + (diff.linesRemoved || 0)
+                        : diff.added + diff.removed;
+
+            switch (operator) {
+                case '>': return changed > number;
+                case '>=': return changed >= number;
+                case '<': return changed < number;
+                case '<=': return changed <= number;
+                default: return changed === number;
+            }
+        };
+    }
+
+    /**
+     * A frontmatter property: `[status]` for notes that have it, `[status:active]`
+     * for a value (any item of a list), and `[priority>2]` or `[due<2025-01-01]`
+     * to compare numbers or, failing that, text such as ISO dates
+     */
+    private static propertyTest(key: string, operator: string | undefined, value: string, context: FilterContext): FilterTest {
+        const lowerKey = key.toLowerCase();
+        if (operator && !value) {
+            throw new Error(`Missing a value in [${key}${operator}]`);
+        }
+
+        const compare = (actual: unknown): boolean => {
+            const text = String(actual).toLowerCase();
+            if (operator === ':' || operator === '=') return text === value.toLowerCase();
+
+            const [left, right] = isFinite(Number(actual)) && isFinite(Number(value)) && text !== ''
+                ? [Number(actual), Number(value)]
+                : [text, value.toLowerCase()];
+            switch (operator) {
+                case '>': return left > right;
+                case '>=': return left >= right;
+                case '<': return left < right;
+                default: return left <= right;
+            }
+        };
+
+        return subject => FilterQuery.withMetadata(subject.path, context, cache => {
+            const entry = Object.entries(cache.frontmatter || {}).find(([name]) => name.toLowerCase() === lowerKey);
+            if (!entry || entry[1] === null || entry[1] === undefined || entry[1] === '') return false;
+            if (!operator) return true;
+            return (Array.isArray(entry[1]) ? entry[1] : [entry[1]]).some(compare);
+        });
+    }
+
+    /**
+     * Check a note's cached metadata. Files no longer in the vault don't match;
+     * notes the metadata cache hasn't read yet, such as one just created, are
+     * skipped like terms that don't apply. Other files have no tags, properties
+     * or links.
+     */
+    private static withMetadata(path: string, context: FilterContext, check: (cache: CachedMetadata) => boolean): boolean | null {
+        const file = context.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return false;
+        if (file.extension !== 'md') return check({});
+
+        const cache = context.app.metadataCache.getFileCache(file);
+        return cache ? check(cache) : null;
+    }
+
+    /**
+     * The note a link term names, as written or as a [[wiki link]]
+     */
+    private static linkpath(value: string): string {
+        return value.replace(/^\[\[|\]\]$/g, '').split('|')[0].split('#')[0].trim();
+    }
+
+    /**
+     * A regex written as /pattern/flags; invalid ones throw with the reason
+     */
+    private static regex(value: string): RegExp {
+        const separator = value.lastIndexOf('/');
+        return new RegExp(value.substring(1, separator), value.substring(separator + 1).replace('g', ''));
+    }
+
+    private static unquote(text: string): string {
+        return text.replace(/"/g, '');
+    }
+
+    private static all(tests: FilterTest[]): FilterTest {
+        return subject => {
+            let result: boolean | null = null;
+            for (const test of tests) {
+                const matches = test(subject);
+                if (matches === false) return false;
+                if (matches === true) result = true;
+            }
+            return result;
+        };
+    }
+
+    private static any(tests: FilterTest[]): FilterTest {
+        return subject => {
+            let result: boolean | null = null;
+            for (const test of tests) {
+                const matches = test(subject);
+                if (matches === true) return true;
+                if (matches === false) result = false;
+            }
+            return result;
+        };
+    }
+
+    private static not(test: FilterTest): FilterTest {
+        return subject => {
+            const matches = test(subject);
+            return matches === null ? null : !matches;
+        };
+    }
+}
@@ -0,0 +1,91 @@
+interface PathPattern {
+    regex: RegExp;
+    negated: boolean;
+}
+
+/**
+ * A list of gitignore-style path patterns, one per line. `*` matches within a
+ * folder name, `**` across folders and `?` one character. A pattern without a
+ * slash matches a file or folder name at any depth, one with a slash matches
+ * from the vault root, and one ending in `/` only matches folders. A pattern
+ * matching a folder matches everything in it. `!pattern` takes back what an
+ * earlier line matched; the last matching line decides. Lines starting with
+ * `#` are comments.
+ */
+export class PathPatterns {
+    private patterns: PathPattern[];
+
+    private constructor(patterns: PathPattern[]) {
+        this.patterns = patterns;
+    }
+
+    public static parse(lines: string[]): PathPatterns {
+        const patterns = lines
+            .map(line => line.trim())
+            .filter(line => line.length > 0 && !line.startsWith('#'))
+            .map(line => PathPatterns.compile(line))
+            .filter((pattern): pattern is PathPattern => pattern !== null);
+        return new PathPatterns(patterns);
+    }
+
+    public isEmpty(): boolean {
+        return this.patterns.length === 0;
+    }
+
+    public matches(path: string): boolean {
+        let matched = false;
+        for (const pattern of this.patterns) {
+            if (pattern.negated === matched && pattern.regex.test(path)) {
+                matched = !pattern.negated;
+            }
+        }
+        return matched;
+    }
+
+    private static compile(line: string): PathPattern | null {
+        const negated = line.startsWith('!');
+        let pattern = negated ? line.slice(1) : line;
+
+        const folderOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\/+/, '');
+        if (!pattern) return null;
+
+        let body = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '*' && pattern[i + 1] === '*') {
+                const atStart = i === 0 || pattern[i - 1] === '/';
+                i++;
+                if (atStart && pattern[i + 1] === '/') {
+                    body += '(?:.*/)?';
+                    i++;
+                } else {
+                    body += '.*';
+                }
+            } else if (char === '*') {
+                body += '[^/]*';
+            } else if (char === '?') {
+                body += '[^/]';
+            } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+                const end = pattern.indexOf(']', i + 2);
+                const chars = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                body += `[${chars}]`;
+                i = end;
+            } else if (char === '\\' && i + 1 < pattern.length) {
+                body += PathPatterns.escape(pattern[++i]);
+            } else {
+                body += PathPatterns.escape(char);
+            }
+        }
+
+        const prefix = anchored ? '^' : '^(?:.*/)?';
+        const suffix = folderOnly ? '/.*$' : '(?:/.*)?$';
+        return { regex: new RegExp(prefix + body + suffix), negated };
+    }
+
+    private static escape(char: string): string {
+        return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+}
@@ -0,0 +1,144 @@
+import { App, TFile } from 'obsidian';
+import { debounce } from 'lodash';
+import { FileEvent } from '../database/ActivityDatabase';
+import { FileEventType } from '../database/FileEventTypes';
+import DailyActivityPlugin from '../main';
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+
+/**
+ * Keeps activity totals in the frontmatter of tracked notes, so Dataview and
+ * Bases can sort notes by engagement. Notes are updated in batches, debounced by
+ * the database write interval, and only after they were created, edited or
+ * renamed: writing to a note that was only read would change its modification
+ * time. The writes go through EventHandler.writeOwn so they aren't recorded as
+ * edits.
+ */
+export class FrontmatterEnricher {
+    private static WRITE_EVENTS: FileEventType[] = ['create', 'modify', 'rename'];
+
+    private app: App;
+    private plugin: DailyActivityPlugin;
+    private pending: Set<string> = new Set();
+    private flushDebounced: ReturnType<typeof debounce> | null = null;
+    private flushInterval = 0;
+    private activeTime: { until: string, byFile: Map<string, number> } | null = null;  // Active ms before today
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+    }
+
+    /**
+     * Queue a note for an update after it was created, edited or renamed
+     */
+    public schedule(event: FileEvent): void {
+        if (!this.plugin.settings.enrichFrontmatter || !FrontmatterEnricher.WRITE_EVENTS.includes(event.eventType)) return;
+        if (!event.filePath.endsWith('.md')) return;
+
+        // Time spent before today is cached by path
+        if (event.eventType === 'rename') {
+            this.activeTime = null;
+        }
+        this.pending.add(event.filePath);
+
+        const interval = this.plugin.settings.dbWriteDebounceInterval;
+        if (!this.flushDebounced || this.flushInterval !== interval) {
+            this.flushDebounced?.cancel();
+            this.flushDebounced = debounce(() => this.flush(), interval);
+            this.flushInterval = interval;
+        }
+        this.flushDebounced();
+    }
+
+    /**
+     * Write the queued notes' totals to their frontmatter
+     */
+    public async flush(): Promise<void> {
+        const paths = Array.from(this.pending);
+        this.pending.clear();
+        if (paths.length === 0) return;
+
+        let activeByFile: Map<string, number>;
+        try {
+            activeByFile = await this.getActiveTime();
+        } catch (error) {
+            this.plugin.logger.error('Failed to read time spent for frontmatter:', error);
+            return;
+        }
+
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            try {
+                await this.updateFile(file, activeByFile.get(path) || 0);
+            } catch (error) {
+                this.plugin.logger.error(`Failed to update frontmatter of ${path}:`, error);
+            }
+        }
+    }
+
+    public cancel(): void {
+        this.flushDebounced?.cancel();
+        this.pending.clear();
+    }
+
+    /**
+     * The note's text with its frontmatter swapped for the frontmatter of another
+     * version, used to follow the plugin's own writes without losing unsaved edits
+     */
+    public static withFrontmatterOf(content: string, source: string): string {
+        const frontmatter = source.match(FRONTMATTER_PATTERN)?.[0] || '';
+        return frontmatter + content.replace(FRONTMATTER_PATTERN, '');
+    }
+
+    private async updateFile(file: TFile, activeMs: number): Promise<void> {
+        const stats = await this.plugin.database.getFileStats(file.path);
+        if (!stats) return;
+
+        const fields: Record<string, number | string> = {
+            activity_edits: stats.totalEdits,
+            activity_words_added: stats.totalWordsAdded || 0,
+            activity_time_spent: Math.round(activeMs / 60000)
+        };
+        if (stats.lastModified) {
+            fields.activity_last_edited = window.moment(stats.lastModified).format('YYYY-MM-DDTHH:mm:ss');
+        }
+
+        // Leave the note alone when nothing changed
+        const current = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+        if (Object.keys(fields).every(key => String(current[key]) === String(fields[key]))) return;
+
+        await this.plugin.eventHandler.writeOwn(
+            file,
+            () => this.app.fileManager.processFrontMatter(file, frontmatter => {
+                Object.assign(frontmatter, fields);
+            }),
+            (content, written) => FrontmatterEnricher.withFrontmatterOf(content, written)
+        );
+    }
+
+    /**
+     * All-time active time per note; sessions before today are read once a day
+     */
+    private async getActiveTime(): Promise<Map<string, number>> {
+        const database = this.plugin.database;
+        const startOfToday = window.moment().startOf('day');
+        const today = startOfToday.format('YYYY-MM-DD');
+
+        if (!this.activeTime || this.activeTime.until !== today) {
+            const byFile: Map<string, number> = new Map();
+            (await database.getSessionsInTimeRange(0, startOfToday.valueOf() - 1)).forEach(session => {
+                byFile.set(session.filePath, (byFile.get(session.filePath) || 0) + session.activeDuration);
+            });
+            this.activeTime = { until: today, byFile };
+        }
+
+        const byFile = new Map(this.activeTime.byFile);
+        (await database.getSessionsInTimeRange(startOfToday.valueOf(), Date.now())).forEach(session => {
+            byFile.set(session.filePath, (byFile.get(session.filePath) || 0) + session.activeDuration);
+        });
+        return byFile;
+    }
+}
@@ -0,0 +1,236 @@
+import { Notice, debounce } from 'obsidian';
+import { Moment } from 'moment';
+import { StatsAggregator } from '../database/StatsAggregator';
+import DailyActivityPlugin from '../main';
+
+export type GoalMetric = 'words' | 'notes' | 'minutes';
+export type GoalPeriod = 'daily' | 'weekly';
+
+export interface ActivityGoal {
+    id: string;
+    metric: GoalMetric;
+    period: GoalPeriod;
+    target: number;
+    folder: string;  // Only count activity in this folder; empty for the whole vault
+}
+
+export interface GoalProgress {
+    goal: ActivityGoal;
+    current: number;
+    met: boolean;
+    periodKey: string;  // Day (or first day of the week) the progress is for, YYYY-MM-DD
+}
+
+export interface StreakSummary {
+    current: number;
+    longest: number;
+    days: Map<string, boolean>;  // Whether each day (YYYY-MM-DD) counted towards the streak
+}
+
+interface DayTotals {
+    active: boolean;                // Something was created, edited, renamed or deleted
+    byGoal: Map<string, number>;
+}
+
+/**
+ * Measures progress towards the goals in settings and keeps streaks. A day counts
+ * towards the streak when every daily goal was met, or when there are no daily
+ * goals, when anything was edited. Days are local calendar days.
+ */
+export class GoalTracker {
+    private static NOTIFIED_KEY = 'daily-activity-goals-notified';
+
+    private plugin: DailyActivityPlugin;
+    private history: { until: string, totals: Map<string, DayTotals> } | null = null;  // Totals before today
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    public static createGoal(): ActivityGoal {
+        return {
+            id: `goal-${Date.now().toString(36)}`,
+            metric: 'words',
+            period: 'daily',
+            target: 500,
+            folder: ''
+        };
+    }
+
+    public static describe(goal: ActivityGoal): string {
+        const units: Record<GoalMetric, string> = { words: 'words written', notes: 'notes created', minutes: 'minutes active' };
+        const scope = goal.folder ? ` in ${goal.folder}` : '';
+        return `${goal.target} ${units[goal.metric]} ${goal.period === 'daily' ? 'a day' : 'a week'}${scope}`;
+    }
+
+    /**
+     * Check goals shortly after activity is recorded, and drop cached totals when
+     * history changes underneath them
+     */
+    public load(): void {
+        const checkGoals = debounce(() => {
+            this.checkGoals().catch(error => this.plugin.logger.error('Failed to check goals:', error));
+        }, 5000, true);
+
+        this.plugin.registerEvent(this.plugin.database.on('event-recorded', checkGoals));
+        this.plugin.register(() => checkGoals.cancel());
+        this.plugin.registerEvent(this.plugin.database.on('events-imported', () => this.invalidate()));
+    }
+
+    /**
+     * Forget cached totals, e.g. after goals change or events are imported
+     */
+    public invalidate(): void {
+        this.history = null;
+    }
+
+    /**
+     * Progress towards every goal for the current day or week
+     */
+    public async getProgress(now: Moment = window.moment()): Promise<GoalProgress[]> {
+        const goals = this.plugin.settings.goals;
+        if (goals.length === 0) return [];
+
+        const weekStart = now.clone().startOf('week');
+        const dayStart = now.clone().startOf('day');
+        const totals = await this.collectTotals(Math.min(weekStart.valueOf(), dayStart.valueOf()), now.valueOf());
+
+        return goals.map(goal => {
+            const start = goal.period === 'daily' ? dayStart : weekStart;
+            let current = 0;
+            totals.forEach((day, date) => {
+                if (date >= start.format('YYYY-MM-DD')) {
+                    current += day.byGoal.get(goal.id) || 0;
+                }
+            });
+            current = Math.floor(current);
+
+            return { goal, current, met: current >= goal.target, periodKey: start.format('YYYY-MM-DD') };
+        });
+    }
+
+    /**
+     * Current and longest streak, with the days that counted. Totals before today
+     * are cached for the day, so this is cheap to call after every event.
+     */
+    public async getStreaks(now: Moment = window.moment()): Promise<StreakSummary> {
+        const today = now.format('YYYY-MM-DD');
+        const startOfToday = now.clone().startOf('day').valueOf();
+
+        if (!this.history || this.history.until !== today) {
+            this.history = { until: today, totals: await this.collectTotals(0, startOfToday - 1) };
+        }
+        const totals = new Map(this.history.totals);
+        (await this.collectTotals(startOfToday, now.valueOf())).forEach((day, date) => totals.set(date, day));
+
+        const days: Map<string, boolean> = new Map();
+        totals.forEach((day, date) => days.set(date, this.countsTowardsStreak(day)));
+
+        // Today still has time to count, so an unmet today doesn't break the streak yet
+        let current = 0;
+        const cursor = now.clone();
+        if (!days.get(today)) cursor.subtract(1, 'day');
+        while (days.get(cursor.format('YYYY-MM-DD'))) {
+            current++;
+            cursor.subtract(1, 'day');
+        }
+
+        let longest = 0;
+        let run = 0;
+        let previous: Moment | null = null;
+        Array.from(days.keys()).sort().forEach(date => {
+            if (!days.get(date)) return;
+            const day = window.moment(date, 'YYYY-MM-DD');
+            run = previous && day.diff(previous, 'days') === 1 ? run + 1 : 1;
+            longest = Math.max(longest, run);
+            previous = day;
+        });
+
+        return { current, longest, days };
+    }
+
+    /**
+     * Show a notice for each goal met since the last check, once per day or week
+     */
+    public async checkGoals(): Promise<void> {
+        if (!this.plugin.settings.goalNotifications || this.plugin.settings.goals.length === 0) return;
+
+        const progress = await this.getProgress();
+        const notified: string[] = JSON.parse(this.plugin.app.loadLocalStorage(GoalTracker.NOTIFIED_KEY) || '[]');
+        const currentKeys = progress.map(p => `${p.goal.id}@${p.periodKey}`);
+
+        progress.forEach((p, index) => {
+            if (!p.met || notified.includes(currentKeys[index])) return;
+            new Notice(`Goal met: ${GoalTracker.describe(p.goal)}`);
+        });
+
+        // Only keys for the current periods need remembering
+        const remembered = currentKeys.filter((key, index) => progress[index].met);
+        this.plugin.app.saveLocalStorage(GoalTracker.NOTIFIED_KEY, JSON.stringify(remembered));
+    }
+
+    private countsTowardsStreak(day: DayTotals): boolean {
+        const dailyGoals = this.plugin.settings.goals.filter(goal => goal.period === 'daily');
+        if (dailyGoals.length === 0) return day.active;
+        return dailyGoals.every(goal => (day.byGoal.get(goal.id) || 0) >= goal.target);
+    }
+
+    /**
+     * Per-day totals for each goal's metric in a time range of whole days. Days
+     * and goals for the whole vault come from daily_stats; words and notes goals
+     * limited to a folder are counted from the events, streamed.
+     */
+    private async collectTotals(startTime: number, endTime: number): Promise<Map<string, DayTotals>> {
+        const goals = this.plugin.settings.goals;
+        const database = this.plugin.database;
+        const totals: Map<string, DayTotals> = new Map();
+        const dayTotals = (date: string): DayTotals => {
+            if (!totals.has(date)) totals.set(date, { active: false, byGoal: new Map() });
+            return totals.get(date)!;
+        };
+        const add = (day: DayTotals, goal: ActivityGoal, amount: number) => {
+            if (amount > 0) day.byGoal.set(goal.id, (day.byGoal.get(goal.id) || 0) + amount);
+        };
+
+        const dailyStats = await database.getDailyStatsInRange(StatsAggregator.dateKey(startTime), StatsAggregator.dateKey(endTime));
+        dailyStats.forEach(stats => {
+            const day = dayTotals(stats.date);
+            day.active = stats.filesTouched.length > 0;
+            goals.forEach(goal => {
+                if (goal.folder) return;
+                if (goal.metric === 'words') add(day, goal, stats.totalWordsAdded);
+                if (goal.metric === 'notes') add(day, goal, stats.eventCounts.create);
+            });
+        });
+
+        const scopedGoals = goals.filter(goal => goal.folder && goal.metric !== 'minutes');
+        if (scopedGoals.length > 0) {
+            await database.iterateEventsInTimeRange(startTime, endTime, event => {
+                scopedGoals.forEach(goal => {
+                    if (!GoalTracker.inScope(goal, event.filePath)) return;
+                    const day = dayTotals(StatsAggregator.dateKey(event.timestamp));
+                    if (goal.metric === 'words') add(day, goal, event.contentDiff?.wordsAdded || 0);
+                    if (goal.metric === 'notes' && event.eventType === 'create') add(day, goal, 1);
+                });
+            });
+        }
+
+        const sessions = goals.some(goal => goal.metric === 'minutes') ? await database.getSessionsInTimeRange(startTime, endTime) : [];
+        sessions.forEach(session => {
+            const day = dayTotals(StatsAggregator.dateKey(session.start));
+            goals.forEach(goal => {
+                if (goal.metric === 'minutes' && GoalTracker.inScope(goal, session.filePath)) {
+                    add(day, goal, session.activeDuration / 60000);
+                }
+            });
+        });
+
+        return totals;
+    }
+
+    private static inScope(goal: ActivityGoal, filePath: string): boolean {
+        if (!goal.folder) return true;
+        const folder = goal.folder.replace(/\/+$/, '');
+        return filePath.startsWith(folder + '/');
+    }
+}
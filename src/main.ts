@@ -3,12 +3,29 @@
 import { Moment } from 'moment'
 import { MarkdownView, Plugin, App, Editor, Modal, Notice, PluginSettingTab, Setting } from 'obsidian'
 import { ActivityLogger } from 'src/ActivityLogger'
-import DateParser from 'src/DateParser'
+import DateParser, { DateRange } from 'src/DateParser'
 import FilterModal from 'src/modal/FilterModal'
+import DateRangeModal from 'src/modal/DateRangeModal'
 import { DailyActivitySettingsTab } from 'src/settings/SettingsTab'
-import { ActivityDatabase, FileEvent } from './database/ActivityDatabase'
+import { ActivityDatabase } from './database/ActivityDatabase'
+import { StorageBackend } from './database/ActivityStore'
+import { ActivitySync } from './sync/ActivitySync'
+import { CompactionResult, RollupGranularity } from './database/EventCompactor'
+import { HistoryBackfill } from './backfill/HistoryBackfill'
+import { ActivityView, ACTIVITY_VIEW_TYPE } from './view/ActivityView'
+import { ReportRenderer } from './reports/ReportRenderer'
+import { ActivityBlock } from './reports/ActivityBlock'
+import { ReportBlocks } from './reports/ReportBlocks'
+import { ReportTemplates } from './templates/ReportTemplates'
+import { ActivityStatusBar } from './view/ActivityStatusBar'
+import { ActivityGoal, GoalTracker } from './goals/GoalTracker'
+import { DailyActivityApi } from './api/ActivityApi'
+import { ActivityFilters } from './filters/ActivityFilters'
+import { SavedFilter } from './filters/FilterQuery'
+import { DailyNoteAutomation, DailyNoteSectionSchedule } from './dailynotes/DailyNoteAutomation'
 import { EventHandler } from './EventHandler'
 import ExportModal from 'src/modal/ExportModal'
+import ImportModal from 'src/modal/ImportModal'
 import { DashboardGenerator } from './dashboard/DashboardGenerator'
 import { Logger, LogLevel } from './Logger'
 
@@ -18,11 +35,22 @@ interface DailyActivityPluginSettings {
     includeHeader: boolean;
     headerStyle: string;
     excludeCurrentNote: boolean;
+    showStatusBar: boolean; // today's words, files and streak
+    // Template settings
+    reportTemplateFolder: string; // Vault folder with <report>.md templates; built-in templates when empty
+    // Daily note settings
+    dailyNoteSectionSchedule: DailyNoteSectionSchedule; // when to write yesterday's activity into its daily note
+    dailyNoteSectionTime: string; // HH:mm, for the 'time' schedule
+    // Goal settings
+    goals: ActivityGoal[];
+    goalNotifications: boolean;
     // Filter settings
     includeRegex: string[];
     excludeRegex: string[];
     includePaths: string[];
     excludePaths: string[];
+    filterQuery: string; // filter expression, combined with the lists above
+    savedFilters: SavedFilter[]; // named filters, used as @name in expressions
     // Whether to show filter dialog
     showFilterDialog: boolean;
     // Activity tracking settings
@@ -31,8 +59,24 @@ interface DailyActivityPluginSettings {
     trackFileModification: boolean;
     trackFileDeletion: boolean;
     trackFileRename: boolean;
+    trackFileOpen: boolean; // open and close events
+    trackFileFocus: boolean; // focus and blur events
     contentTrackingDebounceInterval: number;
     dbWriteDebounceInterval: number;
+    enrichFrontmatter: boolean; // keep activity totals in tracked notes' frontmatter
+    // Storage settings
+    storageBackend: StorageBackend;
+    vaultStorePath: string; // JSONL log used by the vault-file backend
+    // Cross-device sync settings
+    syncEnabled: boolean;
+    syncFolder: string; // Folder holding one JSONL log per device
+    // Retention settings
+    retentionEnabled: boolean;
+    rawEventRetentionDays: number; // raw events older than this are rolled up
+    rollupGranularity: RollupGranularity;
+    compactionSchedule: 'startup' | 'daily';
+    // Backfill settings
+    includeBackfillInReports: boolean;
     // Batch modification settings
     modifyBatchingEnabled: boolean;
     modifyInactivityThreshold: number; // in milliseconds
@@ -40,6 +84,7 @@ interface DailyActivityPluginSettings {
     // Path filtering for activity tracking
     activityTrackingIncludePaths: string[];
     activityTrackingExcludePaths: string[];
+    activityTrackingFilter: string; // filter expression events must match to be recorded
     // Export settings
     defaultExportFormat: 'json' | 'csv';
     autoExportSchedule: 'never' | 'daily' | 'weekly' | 'monthly';
@@ -55,20 +100,28 @@ interface DailyActivityPluginSettings {
     logLevel: LogLevel;
 }
 
-// TODO:
-// Track activity using events (file created, file modified, file opened, track additions/deletions by capturing file length on open/close (or focus/lose focus))
-
 const DEFAULT_SETTINGS: DailyActivityPluginSettings = {
     insertLocation: 'cursor',
     defaultLinkStyle: 'link',
     includeHeader: true,
     headerStyle: '## Files {type} on {date}',
     excludeCurrentNote: false,
+    showStatusBar: true,
+    // Default template settings
+    reportTemplateFolder: '',
+    // Default daily note settings
+    dailyNoteSectionSchedule: 'off',
+    dailyNoteSectionTime: '06:00',
+    // Default goal settings
+    goals: [],
+    goalNotifications: true,
     // Default empty filters
     includeRegex: [],
     excludeRegex: [],
     includePaths: [],
     excludePaths: [],
+    filterQuery: '',
+    savedFilters: [],
     // Default to show filter dialog
     showFilterDialog: true,
     // Default activity tracking settings
@@ -77,8 +130,24 @@ const DEFAULT_SETTINGS: DailyActivityPluginSettings = {
     trackFileModification: true,
     trackFileDeletion: true,
     trackFileRename: true,
+    trackFileOpen: true,
+    trackFileFocus: true,
     contentTrackingDebounceInterval: 10000, // 10 seconds
     dbWriteDebounceInterval: 60000, // 1 minute
+    enrichFrontmatter: false,
+    // Default storage settings
+    storageBackend: 'indexeddb',
+    vaultStorePath: 'Daily Activity/activity-log.jsonl',
+    // Default sync settings
+    syncEnabled: false,
+    syncFolder: 'Daily Activity/devices',
+    // Default retention settings
+    retentionEnabled: false,
+    rawEventRetentionDays: 90,
+    rollupGranularity: 'hour',
+    compactionSchedule: 'startup',
+    // Default backfill settings
+    includeBackfillInReports: true,
     // Batch modification settings
     modifyBatchingEnabled: true,
     modifyInactivityThreshold: 15000, // 15 seconds
@@ -86,6 +155,7 @@ const DEFAULT_SETTINGS: DailyActivityPluginSettings = {
     // Default empty activity tracking filters
     activityTrackingIncludePaths: [],
     activityTrackingExcludePaths: [],
+    activityTrackingFilter: '',
     // Default export settings
     defaultExportFormat: 'csv',
     autoExportSchedule: 'never',
@@ -103,11 +173,21 @@ const DEFAULT_SETTINGS: DailyActivityPluginSettings = {
 
 export default class DailyActivityPlugin extends Plugin {
     settings: DailyActivityPluginSettings
+    filters: ActivityFilters
     activityLogger: ActivityLogger
+    reportTemplates: ReportTemplates
+    reportRenderer: ReportRenderer
+    reportBlocks: ReportBlocks
+    statusBar: ActivityStatusBar
+    goalTracker: GoalTracker
+    dailyNoteAutomation: DailyNoteAutomation
+    api: DailyActivityApi // public API for other plugins and scripts
     database: ActivityDatabase
     eventHandler: EventHandler
+    activitySync: ActivitySync
     private dashboardGenerator: DashboardGenerator
     private dashboardUpdateInterval: NodeJS.Timeout | null = null
+    private compactionInterval: NodeJS.Timeout | null = null
     logger: Logger
 
     async onload() {
@@ -117,6 +197,7 @@ export default class DailyActivityPlugin extends Plugin {
         // Initialize logger after settings are loaded
         this.logger = new Logger(this)
         this.logger.info('Loading daily activity plugin...')
+        this.filters = new ActivityFilters(this.app, this)
 
         // Initialize database
         try {
@@ -145,6 +226,22 @@ export default class DailyActivityPlugin extends Plugin {
             return
         }
 
+        // Merge activity from other devices once the vault is loaded
+        this.activitySync = new ActivitySync(this.app, this)
+        this.app.workspace.onLayoutReady(() => {
+            this.activitySync.start().catch(error => {
+                this.logger.error('Failed to start activity sync:', error)
+            })
+        })
+
+        // Compact old events at startup, then on schedule
+        this.app.workspace.onLayoutReady(() => {
+            if (this.settings.retentionEnabled) {
+                this.compactActivityHistory(false)
+            }
+        })
+        this.setupCompactionInterval()
+
         // Set up auto-export if configured
         if (this.settings.autoExportSchedule !== 'never') {
             this.registerAutoExport()
@@ -152,6 +249,10 @@ export default class DailyActivityPlugin extends Plugin {
 
         this.logger.info('Initializing activity logger...')
         this.activityLogger = new ActivityLogger(this.app, this)
+        this.reportTemplates = new ReportTemplates(this.app, this)
+        this.reportRenderer = new ReportRenderer(this)
+        this.reportBlocks = new ReportBlocks(this)
+        ActivityBlock.register(this)
         this.logger.info('Activity logger initialized')
 
         // Initialize dashboard generator
@@ -162,6 +263,21 @@ export default class DailyActivityPlugin extends Plugin {
             this.setupDashboardInterval()
         }
 
+        // Write yesterday's activity into its daily note when scheduled
+        this.dailyNoteAutomation = new DailyNoteAutomation(this.app, this)
+        this.dailyNoteAutomation.load()
+
+        // Track progress towards writing goals
+        this.goalTracker = new GoalTracker(this)
+        this.goalTracker.load()
+
+        // Show today's counters in the status bar
+        this.statusBar = new ActivityStatusBar(this)
+        this.statusBar.load()
+
+        // Register the sidebar activity feed
+        this.registerView(ACTIVITY_VIEW_TYPE, (leaf) => new ActivityView(leaf, this))
+
         // Add settings tab
         this.addSettingTab(new DailyActivitySettingsTab(this.app, this))
 
@@ -171,6 +287,10 @@ export default class DailyActivityPlugin extends Plugin {
         // Add donate button to plugin description
         this.addDonateButton()
 
+        // Expose the public API once everything it relies on is ready
+        this.api = new DailyActivityApi(this)
+        this.api.load()
+
         this.logger.info('Daily activity plugin loaded')
     }
 
@@ -196,17 +316,18 @@ export default class DailyActivityPlugin extends Plugin {
                     .then(events => {
                         // Format events into markdown
                         let content = '# Recent Activity Log\n\n';
-                        content += '| Time | Event | File | Changes |\n';
-                        content += '|------|--------|------|---------|';
+                        content += '| Time | Event | File | Lines | Words | Characters |\n';
+                        content += '|------|--------|------|-------|-------|------------|';
 
                         for (const event of events) {
                             const time = window.moment(event.timestamp).format('HH:mm:ss');
                             const eventType = event.eventType.charAt(0).toUpperCase() + event.eventType.slice(1);
-                            const changes = event.contentDiff
-                                ? `+${event.contentDiff.added}/-${event.contentDiff.removed}`
-                                : '';
+                            const diff = event.contentDiff;
+                            const lines = diff ? `+${diff.linesAdded || 0}/-${diff.linesRemoved || 0}` : '';
+                            const words = diff ? `+${diff.wordsAdded || 0}/-${diff.wordsRemoved || 0}` : '';
+                            const chars = diff ? `+${diff.added}/-${diff.removed}` : '';
 
-                            content += `\n| ${time} | ${eventType} | ${event.filePath} | ${changes} |`;
+                            content += `\n| ${time} | ${eventType} | ${event.filePath} | ${lines} | ${words} | ${chars} |`;
                         }
 
                         // Insert at cursor
@@ -282,7 +403,7 @@ export default class DailyActivityPlugin extends Plugin {
 
                 if (this.settings.showFilterDialog) {
                     // Show filter dialog
-                    new FilterModal(this.app, this, (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => {
+                    new FilterModal(this.app, this, (fromDate: string, toDate: string, filter: string) => {
                         let moments = this.getMoments(fromDate, toDate, activeView);
                         this.activityLogger.insertActivityLog(
                             {
@@ -291,10 +412,7 @@ export default class DailyActivityPlugin extends Plugin {
                                 moments: moments,
                                 activeView,
                                 makeLink: true,
-                                includeRegex,
-                                excludeRegex,
-                                includePaths,
-                                excludePaths
+                                filter
                             });
                     }).open();
                 } else {
@@ -310,7 +428,8 @@ export default class DailyActivityPlugin extends Plugin {
                             includeRegex: this.settings.includeRegex,
                             excludeRegex: this.settings.excludeRegex,
                             includePaths: this.settings.includePaths,
-                            excludePaths: this.settings.excludePaths
+                            excludePaths: this.settings.excludePaths,
+                            filter: this.settings.filterQuery
                         });
                 }
             },
@@ -337,7 +456,7 @@ export default class DailyActivityPlugin extends Plugin {
 
                 if (this.settings.showFilterDialog) {
                     // Show filter dialog
-                    new FilterModal(this.app, this, (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => {
+                    new FilterModal(this.app, this, (fromDate: string, toDate: string, filter: string) => {
                         let moments = this.getMoments(fromDate, toDate, activeView);
                         this.activityLogger.insertActivityLog(
                             {
@@ -346,10 +465,7 @@ export default class DailyActivityPlugin extends Plugin {
                                 moments: moments,
                                 activeView,
                                 makeLink: true,
-                                includeRegex,
-                                excludeRegex,
-                                includePaths,
-                                excludePaths
+                                filter
                             });
                     }).open();
                 } else {
@@ -365,7 +481,8 @@ export default class DailyActivityPlugin extends Plugin {
                             includeRegex: this.settings.includeRegex,
                             excludeRegex: this.settings.excludeRegex,
                             includePaths: this.settings.includePaths,
-                            excludePaths: this.settings.excludePaths
+                            excludePaths: this.settings.excludePaths,
+                            filter: this.settings.filterQuery
                         });
                 }
             },
@@ -392,7 +509,7 @@ export default class DailyActivityPlugin extends Plugin {
 
                 if (this.settings.showFilterDialog) {
                     // Show filter dialog
-                    new FilterModal(this.app, this, (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => {
+                    new FilterModal(this.app, this, (fromDate: string, toDate: string, filter: string) => {
                         let moments = this.getMoments(fromDate, toDate, activeView);
                         this.activityLogger.insertActivityLog(
                             {
@@ -401,10 +518,7 @@ export default class DailyActivityPlugin extends Plugin {
                                 moments: moments,
                                 activeView,
                                 makeLink: false,
-                                includeRegex,
-                                excludeRegex,
-                                includePaths,
-                                excludePaths
+                                filter
                             });
                     }).open();
                 } else {
@@ -420,7 +534,8 @@ export default class DailyActivityPlugin extends Plugin {
                             includeRegex: this.settings.includeRegex,
                             excludeRegex: this.settings.excludeRegex,
                             includePaths: this.settings.includePaths,
-                            excludePaths: this.settings.excludePaths
+                            excludePaths: this.settings.excludePaths,
+                            filter: this.settings.filterQuery
                         });
                 }
             },
@@ -442,7 +557,7 @@ export default class DailyActivityPlugin extends Plugin {
 
                 if (this.settings.showFilterDialog) {
                     // Show filter dialog
-                    new FilterModal(this.app, this, (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => {
+                    new FilterModal(this.app, this, (fromDate: string, toDate: string, filter: string) => {
                         let moments = this.getMoments(fromDate, toDate, activeView);
                         this.activityLogger.insertActivityLog(
                             {
@@ -450,10 +565,7 @@ export default class DailyActivityPlugin extends Plugin {
                                 insertModifiedOnDateFiles: true,
                                 moments: moments,
                                 makeLink: false,
-                                includeRegex,
-                                excludeRegex,
-                                includePaths,
-                                excludePaths
+                                filter
                             });
                     }).open();
                 } else {
@@ -469,7 +581,8 @@ export default class DailyActivityPlugin extends Plugin {
                             includeRegex: this.settings.includeRegex,
                             excludeRegex: this.settings.excludeRegex,
                             includePaths: this.settings.includePaths,
-                            excludePaths: this.settings.excludePaths
+                            excludePaths: this.settings.excludePaths,
+                            filter: this.settings.filterQuery
                         });
                 }
             },
@@ -529,56 +642,14 @@ export default class DailyActivityPlugin extends Plugin {
                     return true
                 }
 
-                // Get today's date and format as ISO string (YYYY-MM-DD)
-                const today = new Date();
-                const todayStr = today.toISOString().split('T')[0];
-
-                // Get stats for today from daily stats store
-                this.database.getDailyStats(todayStr)
-                    .then(stats => {
-                        if (!stats) {
-                            // No activity today
-                            const content = '# Daily Activity Summary\n\n' +
-                                `**Date:** ${window.moment(today).format('YYYY-MM-DD')}\n\n` +
-                                'No activity recorded for today.\n\n';
-
-                            const editor = activeView.editor;
-                            const cursor = editor.getCursor();
-                            editor.replaceRange(content, cursor);
-                            return;
-                        }
-
-                        // Create summary content
-                        let content = '# Daily Activity Summary\n\n';
-                        content += `**Date:** ${window.moment(today).format('YYYY-MM-DD')}\n\n`;
-                        content += '## Activity Overview\n\n';
-                        content += `- **Total Events:** ${stats.totalEvents}\n`;
-
-                        // Add event type breakdown
-                        content += '- **Event Types:**\n';
-                        const eventCounts = stats.eventCounts || {};
-                        for (const [type, count] of Object.entries(eventCounts)) {
-                            const typeFormatted = type.charAt(0).toUpperCase() + type.slice(1);
-                            content += `  - ${typeFormatted}: ${count}\n`;
-                        }
-
-                        // Add content changes
-                        if (stats.totalAdded > 0 || stats.totalRemoved > 0) {
-                            content += '\n## Content Changes\n\n';
-                            content += `- **Lines Added:** ${stats.totalAdded}\n`;
-                            content += `- **Lines Removed:** ${stats.totalRemoved}\n`;
-                            content += `- **Net Change:** ${stats.totalAdded - stats.totalRemoved}\n`;
-                        }
-
-                        // Insert at cursor
-                        const editor = activeView.editor;
-                        const cursor = editor.getCursor();
-                        editor.replaceRange(content, cursor);
-                    })
-                    .catch(error => {
-                        console.error('Failed to get daily stats:', error);
-                        new Notice('Failed to get activity data.');
-                    });
+                const today = { start: window.moment().startOf('day'), end: window.moment().endOf('day') };
+                this.chooseReportRange(activeView, 'Daily Summary', today, (range, filter) => {
+                    this.reportBlocks.insert(activeView, { type: 'summary', params: [...ReportBlocks.rangeParams(range || today), ...ReportBlocks.filterParams(filter)] })
+                        .catch(error => {
+                            console.error('Failed to get daily stats:', error);
+                            new Notice('Failed to get activity data.');
+                        });
+                });
             }
         });
 
@@ -596,54 +667,13 @@ export default class DailyActivityPlugin extends Plugin {
                     return true
                 }
 
-                // Fetch all file stats from the database
-                this.database.getAllFileStats()
-                    .then(stats => {
-                        if (!stats || stats.length === 0) {
-                            const content = '# Most Active Files\n\n' +
-                                'No file activity data available.\n\n';
-
-                            const editor = activeView.editor;
-                            const cursor = editor.getCursor();
-                            editor.replaceRange(content, cursor);
-                            return;
-                        }
-
-                        // Sort by total edits (descending)
-                        stats.sort((a, b) => b.totalEdits - a.totalEdits);
-
-                        // Create markdown content
-                        let content = '# Most Active Files\n\n';
-                        content += '## Top 20 Most Edited Files\n\n';
-                        content += '| File | Total Edits | Last Modified | Lines Added | Lines Removed |\n';
-                        content += '|------|-------------|---------------|-------------|---------------|\n';
-
-                        // Add top 20 files
-                        const topFiles = stats.slice(0, 20);
-                        for (const file of topFiles) {
-                            const filePath = file.filePath;
-                            // Get just the filename without extension for display
-                            const fileName = filePath.split('/').pop() || filePath;
-                            // Remove .md extension for both the link target and display text
-                            const fileNameWithoutExt = fileName.replace(/\.md$/, '');
-                            const linkPath = filePath.replace(/\.md$/, '');
-                            const lastModified = window.moment(file.lastModified).format('YYYY-MM-DD HH:mm');
-
-                            // Create a proper Obsidian markdown link - [[path|display name]]
-                            const fileLink = `[[${linkPath}|${fileNameWithoutExt}]]`;
-
-                            content += `| ${fileLink} | ${file.totalEdits} | ${lastModified} | ${file.totalAdded} | ${file.totalRemoved} |\n`;
-                        }
-
-                        // Insert at cursor
-                        const editor = activeView.editor;
-                        const cursor = editor.getCursor();
-                        editor.replaceRange(content, cursor);
-                    })
-                    .catch(error => {
-                        console.error('Failed to get file stats:', error);
-                        new Notice('Failed to get file activity data.');
-                    });
+                this.chooseReportRange(activeView, 'Most Active Files', null, (range, filter) => {
+                    this.reportBlocks.insert(activeView, { type: 'files', params: [...(range ? ReportBlocks.rangeParams(range) : []), ...ReportBlocks.filterParams(filter)] })
+                        .catch(error => {
+                            console.error('Failed to get file stats:', error);
+                            new Notice('Failed to get file activity data.');
+                        });
+                });
             }
         });
 
@@ -661,93 +691,23 @@ export default class DailyActivityPlugin extends Plugin {
                     return true
                 }
 
-                // Get the dates for the last 7 days
-                const dates: string[] = [];
-                for (let i = 6; i >= 0; i--) {
-                    const date = new Date();
-                    date.setDate(date.getDate() - i);
-                    dates.push(date.toISOString().split('T')[0]);
-                }
-
-                // Fetch activity data for each day
-                Promise.all(dates.map(date => this.database.getDailyStats(date)))
-                    .then(results => {
-                        // Create summary content
-                        let content = '# Weekly Activity Overview\n\n';
-                        content += `**Period:** ${window.moment(dates[0]).format('MMM DD')} - ${window.moment(dates[dates.length - 1]).format('MMM DD, YYYY')}\n\n`;
-
-                        // Create a summary table
-                        content += '| Date | Total Events | Created | Modified | Deleted | Renamed | Lines Added | Lines Removed |\n';
-                        content += '|------|--------------|---------|----------|---------|---------|-------------|---------------|\n';
-
-                        // Weekly totals
-                        let weeklyEvents = 0;
-                        let weeklyCreated = 0;
-                        let weeklyModified = 0;
-                        let weeklyDeleted = 0;
-                        let weeklyRenamed = 0;
-                        let weeklyAdded = 0;
-                        let weeklyRemoved = 0;
-
-                        // Add data for each day
-                        dates.forEach((date, index) => {
-                            const stats = results[index];
-                            const formattedDate = window.moment(date).format('ddd, MMM DD');
-
-                            if (!stats) {
-                                // No data for this day
-                                content += `| ${formattedDate} | 0 | 0 | 0 | 0 | 0 | 0 | 0 |\n`;
-                                return;
-                            }
-
-                            const eventCounts = stats.eventCounts || {};
-                            const created = eventCounts['create'] || 0;
-                            const modified = eventCounts['modify'] || 0;
-                            const deleted = eventCounts['delete'] || 0;
-                            const renamed = eventCounts['rename'] || 0;
-
-                            // Update weekly totals
-                            weeklyEvents += stats.totalEvents || 0;
-                            weeklyCreated += created;
-                            weeklyModified += modified;
-                            weeklyDeleted += deleted;
-                            weeklyRenamed += renamed;
-                            weeklyAdded += stats.totalAdded || 0;
-                            weeklyRemoved += stats.totalRemoved || 0;
-
-                            content += `| ${formattedDate} | ${stats.totalEvents || 0} | ${created} | ${modified} | ${deleted} | ${renamed} | ${stats.totalAdded || 0} | ${stats.totalRemoved || 0} |\n`;
+                const lastWeek = { start: window.moment().subtract(6, 'days').startOf('day'), end: window.moment().endOf('day') };
+                this.chooseReportRange(activeView, 'Weekly Overview', lastWeek, (range, filter) => {
+                    const { start, end } = range || lastWeek;
+                    const params: [string, string][] = [['from', start.format('YYYY-MM-DD')], ['to', end.format('YYYY-MM-DD')], ...ReportBlocks.filterParams(filter)];
+                    this.reportBlocks.insert(activeView, { type: 'weekly', params })
+                        .catch(error => {
+                            console.error('Failed to get weekly stats:', error);
+                            new Notice('Failed to get weekly activity data.');
                         });
-
-                        // Add weekly totals row
-                        content += `| **Totals** | **${weeklyEvents}** | **${weeklyCreated}** | **${weeklyModified}** | **${weeklyDeleted}** | **${weeklyRenamed}** | **${weeklyAdded}** | **${weeklyRemoved}** |\n\n`;
-
-                        // Add a summary section
-                        content += '## Weekly Summary\n\n';
-                        content += `- **Total Events:** ${weeklyEvents}\n`;
-                        content += `- **Files Created:** ${weeklyCreated}\n`;
-                        content += `- **Files Modified:** ${weeklyModified}\n`;
-                        content += `- **Files Deleted:** ${weeklyDeleted}\n`;
-                        content += `- **Files Renamed:** ${weeklyRenamed}\n`;
-                        content += `- **Lines Added:** ${weeklyAdded}\n`;
-                        content += `- **Lines Removed:** ${weeklyRemoved}\n`;
-                        content += `- **Net Change:** ${weeklyAdded - weeklyRemoved} lines\n`;
-
-                        // Insert at cursor
-                        const editor = activeView.editor;
-                        const cursor = editor.getCursor();
-                        editor.replaceRange(content, cursor);
-                    })
-                    .catch(error => {
-                        console.error('Failed to get weekly stats:', error);
-                        new Notice('Failed to get weekly activity data.');
-                    });
+                });
             }
         });
 
         // Activity Timeline
         this.addCommand({
             id: 'db-activity-timeline',
-            name: "Today's Timeline",
+            name: "Activity Timeline",
             checkCallback: (checking: boolean) => {
                 let activeView = this.app.workspace.getActiveViewOfType(MarkdownView)
                 if (activeView == null) {
@@ -758,100 +718,43 @@ export default class DailyActivityPlugin extends Plugin {
                     return true
                 }
 
-                // Get timestamps for today (midnight to midnight)
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-                const tomorrow = new Date(today);
-                tomorrow.setDate(tomorrow.getDate() + 1);
-
-                // Get events for today
-                this.database.getEventsInTimeRange(today.getTime(), tomorrow.getTime())
-                    .then(events => {
-                        if (!events || events.length === 0) {
-                            const content = '# Today\'s Activity Timeline\n\n' +
-                                `**Date:** ${window.moment(today).format('YYYY-MM-DD')}\n\n` +
-                                'No activity recorded for today.\n\n';
-
-                            const editor = activeView.editor;
-                            const cursor = editor.getCursor();
-                            editor.replaceRange(content, cursor);
-                            return;
-                        }
-
-                        // Sort events by timestamp (ascending)
-                        events.sort((a, b) => a.timestamp - b.timestamp);
-
-                        // Group events by hour
-                        const hourlyEvents: Record<number, FileEvent[]> = {};
-                        for (let i = 0; i < 24; i++) {
-                            hourlyEvents[i] = [];
-                        }
-
-                        events.forEach(event => {
-                            const date = new Date(event.timestamp);
-                            const hour = date.getHours();
-                            hourlyEvents[hour].push(event);
+                const today = { start: window.moment().startOf('day'), end: window.moment().endOf('day') };
+                this.chooseReportRange(activeView, 'Activity Timeline', today, (range, filter) => {
+                    this.reportBlocks.insert(activeView, { type: 'timeline', params: [...ReportBlocks.rangeParams(range || today), ...ReportBlocks.filterParams(filter)] })
+                        .catch(error => {
+                            console.error('Failed to get events:', error);
+                            new Notice('Failed to get activity timeline data.');
                         });
+                });
+            }
+        });
 
-                        // Create content
-                        let content = '# Today\'s Activity Timeline\n\n';
-                        content += `**Date:** ${window.moment(today).format('YYYY-MM-DD')}\n\n`;
-
-                        // Add timeline
-                        for (let hour = 0; hour < 24; hour++) {
-                            const hourEvents = hourlyEvents[hour];
-                            if (hourEvents.length === 0) continue; // Skip empty hours
-
-                            const hourLabel = hour.toString().padStart(2, '0') + ':00';
-                            content += `## ${hourLabel}\n\n`;
-
-                            // Group by event type within each hour
-                            const eventsByType: Record<string, FileEvent[]> = {};
-                            hourEvents.forEach(event => {
-                                if (!eventsByType[event.eventType]) {
-                                    eventsByType[event.eventType] = [];
-                                }
-                                eventsByType[event.eventType].push(event);
-                            });
+        // Refresh Activity Blocks
+        this.addCommand({
+            id: 'refresh-activity-blocks',
+            name: "Refresh all activity blocks in this note",
+            checkCallback: (checking: boolean) => {
+                let activeView = this.app.workspace.getActiveViewOfType(MarkdownView)
+                if (activeView == null) {
+                    return false
+                }
 
-                            // Add events by type
-                            for (const [type, typeEvents] of Object.entries(eventsByType)) {
-                                const typeFormatted = type.charAt(0).toUpperCase() + type.slice(1);
-                                content += `### ${typeFormatted} (${typeEvents.length})\n\n`;
-
-                                typeEvents.forEach(event => {
-                                    const time = window.moment(event.timestamp).format('HH:mm:ss');
-                                    const fileName = event.filePath.split('/').pop() || event.filePath;
-                                    const fileNameWithoutExt = fileName.replace(/\.md$/, '');
-                                    const linkPath = event.filePath.replace(/\.md$/, '');
-                                    const fileLink = `[[${linkPath}|${fileNameWithoutExt}]]`;
-
-                                    content += `- ${time} - ${fileLink}`;
-
-                                    // Add details based on event type
-                                    if (event.eventType === 'modify' && event.contentDiff) {
-                                        content += ` (+${event.contentDiff.added}/-${event.contentDiff.removed})`;
-                                    } else if (event.eventType === 'rename' && event.oldPath) {
-                                        const oldName = event.oldPath.split('/').pop() || event.oldPath;
-                                        const oldNameWithoutExt = oldName.replace(/\.md$/, '');
-                                        content += ` (renamed from ${oldNameWithoutExt})`;
-                                    }
-
-                                    content += '\n';
-                                });
-
-                                content += '\n';
-                            }
-                        }
+                if (checking) {
+                    return true
+                }
 
-                        // Insert at cursor
-                        const editor = activeView.editor;
-                        const cursor = editor.getCursor();
-                        editor.replaceRange(content, cursor);
+                this.reportBlocks.refreshAll(activeView)
+                    .then(({ updated, skipped }) => {
+                        if (updated === 0 && skipped === 0) {
+                            new Notice('No activity blocks in this note.');
+                            return;
+                        }
+                        new Notice(`Refreshed ${updated} activity block${updated === 1 ? '' : 's'}` +
+                            (skipped > 0 ? `, skipped ${skipped} not recognized.` : '.'));
                     })
                     .catch(error => {
-                        console.error('Failed to get events:', error);
-                        new Notice('Failed to get activity timeline data.');
+                        this.logger.error('Failed to refresh activity blocks:', error);
+                        new Notice('Failed to refresh activity blocks.');
                     });
             }
         });
@@ -871,7 +774,7 @@ export default class DailyActivityPlugin extends Plugin {
                 }
 
                 // Show export modal to configure export
-                new ExportModal(this.app, this, async (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[]) => {
+                new ExportModal(this.app, this, async (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[], deviceIds?: string[], filter?: string) => {
                     try {
                         // Convert dates to timestamps
                         const startTimestamp = startDate ? new Date(startDate).getTime() : (Date.now() - 30 * 24 * 60 * 60 * 1000); // Default to last 30 days
@@ -888,7 +791,9 @@ export default class DailyActivityPlugin extends Plugin {
                             format: format, // format is now properly typed as 'json' | 'csv'
                             startDate: startTimestamp,
                             endDate: endTimestamp,
-                            fields: finalFields
+                            deviceIds,
+                            fields: finalFields,
+                            filter: this.filters.parse(filter || '')
                         }, finalPath, this.app);
 
                         new Notice(`Activity data exported successfully to ${finalPath}`);
@@ -900,6 +805,50 @@ export default class DailyActivityPlugin extends Plugin {
             }
         });
 
+        // Import Activity Data
+        this.addCommand({
+            id: 'db-import-activity-data',
+            name: "Import Activity Data",
+            callback: () => {
+                new ImportModal(this.app, this, async (preview) => {
+                    try {
+                        await this.database.importEvents(preview.events);
+                        new Notice(`Imported ${preview.events.length} activity events`);
+                    } catch (error) {
+                        console.error('Failed to import data:', error);
+                        new Notice('Failed to import activity data. Check console for details.');
+                    }
+                }).open();
+            }
+        });
+
+        // Open the sidebar activity feed
+        this.addCommand({
+            id: 'open-activity-view',
+            name: "Open Activity View",
+            callback: () => {
+                this.activateActivityView()
+            }
+        });
+
+        // Reconstruct activity from before tracking started
+        this.addCommand({
+            id: 'backfill-history',
+            name: "Backfill History",
+            callback: () => {
+                this.backfillHistory()
+            }
+        });
+
+        // Compact old activity events into rollups
+        this.addCommand({
+            id: 'compact-activity-history',
+            name: "Compact Activity History",
+            callback: () => {
+                this.compactActivityHistory(true)
+            }
+        });
+
         // Add a command to generate the dashboard
         this.addCommand({
             id: 'generate-activity-dashboard',
@@ -959,6 +908,30 @@ export default class DailyActivityPlugin extends Plugin {
         });
     }
 
+    /**
+     * The days a report command covers: the selected text when there is a
+     * selection, otherwise the date range dialog when the filter dialog is on,
+     * otherwise the command's default. A null range means all recorded history.
+     * The filter comes from the dialog, or the settings when it's off.
+     */
+    private chooseReportRange(activeView: MarkdownView, title: string, defaultRange: DateRange | null, onChoose: (range: DateRange | null, filter: string) => void) {
+        const editor = activeView.editor
+        const settingsFilter = this.settings.showFilterDialog ? '' : this.settings.filterQuery
+        if (editor && editor.somethingSelected()) {
+            const selection = editor.getSelection()
+            const range = new DateParser(this).parseDate(selection)
+            if (!range.start.isValid() || !range.end.isValid()) {
+                new Notice(`Couldn't understand the date "${selection.trim()}"`)
+                return
+            }
+            onChoose(range, settingsFilter)
+        } else if (this.settings.showFilterDialog) {
+            new DateRangeModal(this.app, this, title, defaultRange, onChoose).open()
+        } else {
+            onChoose(defaultRange, settingsFilter)
+        }
+    }
+
     private getMoments(fromDate: string, toDate: string, activeView: MarkdownView) {
         if (fromDate && toDate) {
             const dp = new DateParser(this)
@@ -971,8 +944,9 @@ export default class DailyActivityPlugin extends Plugin {
     onunload() {
         this.logger.info('Unloading daily activity plugin...');
 
-        // Clear dashboard interval
+        // Clear dashboard and compaction intervals
         this.clearDashboardInterval();
+        this.clearCompactionInterval();
 
         if (this.eventHandler) {
             this.logger.info('Cleaning up event handler...');
@@ -1005,14 +979,10 @@ export default class DailyActivityPlugin extends Plugin {
         }
 
         let selection = editor.getSelection()
-        this.logger.debug('Selection contains a date range: ', selection.includes('to'))
-
-        let moments: Moment[] = []
-        if (selection.includes('to')) {
-            moments = dp.parseDateRangeFromSelection(selection)
-        } else {
-            const dateRange = dp.parseDate(selection)
-            moments.push(dateRange.start)
+        let moments: Moment[] = dp.parseDateRangeFromSelection(selection)
+        if (moments.length === 0) {
+            new Notice(`Couldn't understand the date "${selection.trim()}", using today`)
+            return [window.moment()]
         }
 
         return moments
@@ -1145,6 +1115,86 @@ export default class DailyActivityPlugin extends Plugin {
         }
     }
 
+    /**
+     * Roll raw events older than the retention period up into rollups
+     */
+    public async compactActivityHistory(showResult: boolean): Promise<CompactionResult | null> {
+        try {
+            const cutoff = window.moment().subtract(this.settings.rawEventRetentionDays, 'days').startOf('day').valueOf();
+            const result = await this.database.compactEvents(cutoff, this.settings.rollupGranularity);
+
+            if (result.eventsRemoved > 0 || showResult) {
+                const reclaimed = result.bytesReclaimed >= 1024 * 1024
+                    ? `${(result.bytesReclaimed / (1024 * 1024)).toFixed(1)} MB`
+                    : `${Math.round(result.bytesReclaimed / 1024)} KB`;
+                new Notice(result.eventsRemoved > 0
+                    ? `Compacted ${result.eventsRemoved} activity events into ${result.rollupsCreated} rollups, reclaiming about ${reclaimed}`
+                    : 'No activity events needed compacting');
+            }
+            return result;
+        } catch (error) {
+            this.logger.error('Failed to compact activity history:', error);
+            if (showResult) {
+                new Notice('Failed to compact activity history. Check console for details.');
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Show the activity feed, opening it in the right sidebar if it isn't open yet
+     */
+    public async activateActivityView(): Promise<void> {
+        let leaf = this.app.workspace.getLeavesOfType(ACTIVITY_VIEW_TYPE)[0]
+        if (!leaf) {
+            leaf = this.app.workspace.getRightLeaf(false)
+            await leaf.setViewState({ type: ACTIVITY_VIEW_TYPE, active: true })
+        }
+        this.app.workspace.revealLeaf(leaf)
+    }
+
+    /**
+     * Reconstruct activity from before tracking started out of file dates and git history
+     */
+    public async backfillHistory(): Promise<void> {
+        try {
+            new Notice('Backfilling activity history...');
+            const result = await new HistoryBackfill(this.app, this).run();
+            const total = result.fileEvents + result.gitEvents;
+            const summary = total > 0
+                ? `Backfilled ${total} activity events (${result.fileEvents} from file dates, ${result.gitEvents} from git history)`
+                : 'No new history to backfill';
+            new Notice(result.gitSkipped ? `${summary}. Git history was skipped: ${result.gitSkipped}.` : summary);
+        } catch (error) {
+            this.logger.error('Failed to backfill activity history:', error);
+            new Notice('Failed to backfill activity history. Check console for details.');
+        }
+    }
+
+    /**
+     * Set up the daily compaction interval, if retention is enabled with a daily schedule
+     */
+    public setupCompactionInterval(): void {
+        this.clearCompactionInterval();
+
+        if (!this.settings.retentionEnabled || this.settings.compactionSchedule !== 'daily') {
+            return;
+        }
+
+        this.compactionInterval = setInterval(() => {
+            this.compactActivityHistory(false);
+        }, 24 * 60 * 60 * 1000);
+
+        this.logger.info('Activity compaction scheduled daily');
+    }
+
+    public clearCompactionInterval(): void {
+        if (this.compactionInterval) {
+            clearInterval(this.compactionInterval);
+            this.compactionInterval = null;
+        }
+    }
+
     /**
      * Adds a donate button to the plugin's description in the plugins list
      */
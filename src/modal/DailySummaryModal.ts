@@ -0,0 +1,41 @@
+import { App, MarkdownRenderer, Modal } from 'obsidian';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Shows today's Daily Summary without inserting it into a note
+ */
+export default class DailySummaryModal extends Modal {
+    private plugin: DailyActivityPlugin;
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('daily-activity-summary-modal');
+
+        // Rendered links don't navigate on their own outside a note
+        contentEl.addEventListener('click', (evt) => {
+            const link = (evt.target as HTMLElement).closest('a.internal-link');
+            if (!link) return;
+            evt.preventDefault();
+            this.app.workspace.openLinkText(link.getAttribute('data-href') || '', '', evt.ctrlKey || evt.metaKey);
+            this.close();
+        });
+
+        try {
+            const content = await this.plugin.reportRenderer.renderDailySummary();
+            await MarkdownRenderer.render(this.app, content, contentEl, '', this.plugin);
+        } catch (error) {
+            this.plugin.logger.error('Failed to render daily summary:', error);
+            contentEl.createEl('p', { text: 'Failed to get activity data.' });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
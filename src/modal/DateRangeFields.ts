@@ -0,0 +1,56 @@
+import { Moment } from 'moment';
+import { TextComponent } from 'obsidian';
+import DateParser from '../DateParser';
+import DailyActivityPlugin from '../main';
+
+export interface DateFieldsValue {
+    start: Moment | null;   // null when the field is empty
+    end: Moment | null;
+    invalid: string | null; // Text that couldn't be understood
+}
+
+/**
+ * A pair of from/to date fields with a line below them showing the range they
+ * resolve to as they're typed. Each dialog says how open ends are described.
+ */
+export class DateRangeFields {
+    private dateParser: DateParser;
+    private fromField: TextComponent;
+    private toField: TextComponent;
+    private previewEl: HTMLElement;
+    private describe: (start: Moment | null, end: Moment | null) => string;
+
+    constructor(containerEl: HTMLElement, plugin: DailyActivityPlugin, placeholders: [string, string], describe: (start: Moment | null, end: Moment | null) => string) {
+        this.dateParser = new DateParser(plugin);
+        this.describe = describe;
+
+        const dateContainer = containerEl.createDiv();
+        this.fromField = new TextComponent(dateContainer)
+            .setPlaceholder(placeholders[0])
+            .onChange(() => this.updatePreview());
+        dateContainer.createEl('br');
+        this.toField = new TextComponent(dateContainer)
+            .setPlaceholder(placeholders[1])
+            .onChange(() => this.updatePreview());
+
+        this.previewEl = containerEl.createDiv({ cls: 'daily-activity-date-preview' });
+        this.updatePreview();
+    }
+
+    public getValue(): DateFieldsValue {
+        const from = this.fromField.getValue();
+        const to = this.toField.getValue();
+        const { start, end, invalid } = this.dateParser.parseFields(from, to);
+        return { start, end, invalid: invalid === 'from' ? from.trim() : invalid === 'to' ? to.trim() : null };
+    }
+
+    public focus(): void {
+        this.fromField.inputEl.focus();
+    }
+
+    private updatePreview(): void {
+        const { start, end, invalid } = this.getValue();
+        this.previewEl.toggleClass('is-invalid', invalid !== null);
+        this.previewEl.setText(invalid !== null ? `Couldn't understand "${invalid}"` : this.describe(start, end));
+    }
+}
@@ -0,0 +1,77 @@
+import { App, ButtonComponent, Modal, Notice } from 'obsidian';
+import { Moment } from 'moment';
+import DateParser, { DateRange } from '../DateParser';
+import { DateRangeFields } from './DateRangeFields';
+import { FilterField } from './FilterField';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Asks which days a report should cover, and optionally a filter. Empty fields
+ * keep the report's default range; a single date or a range like "last month"
+ * in the first field is used on its own.
+ */
+export default class DateRangeModal extends Modal {
+    private plugin: DailyActivityPlugin;
+    private title: string;
+    private defaultRange: DateRange | null;  // null for all recorded history
+    private onSubmit: (range: DateRange | null, filter: string) => void;
+
+    constructor(app: App, plugin: DailyActivityPlugin, title: string, defaultRange: DateRange | null, onSubmit: (range: DateRange | null, filter: string) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.title = title;
+        this.defaultRange = defaultRange;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: this.title });
+        contentEl.createEl('p', { text: `Leave empty for ${this.defaultRange ? DateParser.describe(this.defaultRange) : 'all recorded history'}. Dates can be written as YYYY-MM-DD or like "last Friday", "last month" or "past 2 weeks".` });
+
+        const dateFields = new DateRangeFields(contentEl, this.plugin, ['From date or range', 'To date'], (start, end) => {
+            const range = this.resolve(start, end);
+            return range ? DateParser.describe(range) : 'All recorded history';
+        });
+
+        contentEl.createEl('h4', { text: 'Filter (Optional)' });
+        contentEl.createEl('p', { text: 'Only report on activity matching a filter such as tag:#work, [status:active] or type:modify words>50.' });
+        const filterField = new FilterField(contentEl, this.plugin);
+
+        new ButtonComponent(contentEl)
+            .setButtonText('Insert report')
+            .setCta()
+            .onClick(() => {
+                const { start, end, invalid } = dateFields.getValue();
+                if (invalid !== null) {
+                    new Notice(`Couldn't understand "${invalid}"`);
+                    return;
+                }
+
+                const filterError = filterField.getError();
+                if (filterError !== null) {
+                    new Notice(`Invalid filter: ${filterError}`);
+                    return;
+                }
+
+                this.onSubmit(this.resolve(start, end), filterField.getValue());
+                this.close();
+            });
+
+        dateFields.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private resolve(start: Moment | null, end: Moment | null): DateRange | null {
+        if (!start && !end) return this.defaultRange;
+        return {
+            start: (start || end!).clone().startOf('day'),
+            end: (end || start!).clone().endOf('day')
+        };
+    }
+}
@@ -1,12 +1,14 @@
-import { App, ButtonComponent, Modal, TextComponent } from 'obsidian';
+import { App, ButtonComponent, Modal, Notice, TextComponent } from 'obsidian';
 import DateParser from '../DateParser';
+import { DateRangeFields } from './DateRangeFields';
+import { FilterField } from './FilterField';
 import DailyActivityPlugin from '../main';
 
 export default class ExportModal extends Modal {
-    private onSubmit: (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[]) => void;
+    private onSubmit: (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[], deviceIds?: string[], filter?: string) => void;
     private plugin: DailyActivityPlugin;
 
-    constructor(app: App, plugin: DailyActivityPlugin, onSubmit: (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[]) => void) {
+    constructor(app: App, plugin: DailyActivityPlugin, onSubmit: (format: 'json' | 'csv', startDate?: number, endDate?: number, exportPath?: string, fields?: string[], deviceIds?: string[], filter?: string) => void) {
         super(app);
         this.onSubmit = onSubmit;
         this.plugin = plugin;
@@ -14,7 +16,6 @@ export default class ExportModal extends Modal {
 
     onOpen() {
         const { contentEl } = this;
-        const dateParser = new DateParser(this.plugin);
 
         // Format selection
         contentEl.createEl('h3', { text: 'Export Format' });
@@ -27,12 +28,12 @@ export default class ExportModal extends Modal {
         contentEl.createEl('h3', { text: 'Date Range (Optional)' });
         contentEl.createEl('p', { text: 'Leave empty to export all data' });
 
-        const dateContainer = contentEl.createDiv();
-        const inputStartDateField = new TextComponent(dateContainer)
-            .setPlaceholder('Start date (YYYY-MM-DD)');
-        dateContainer.createEl('br');
-        const inputEndDateField = new TextComponent(dateContainer)
-            .setPlaceholder('End date (YYYY-MM-DD)');
+        const dateFields = new DateRangeFields(contentEl, this.plugin, ['Start date or range, e.g. last month', 'End date'], (start, end) => {
+            if (start && end) return DateParser.describe({ start, end });
+            if (start) return `From ${start.format('ddd, MMM D, YYYY')} until now`;
+            if (end) return `Everything up to ${end.format('ddd, MMM D, YYYY')}`;
+            return 'All recorded activity';
+        });
 
         // Export path
         contentEl.createEl('h3', { text: 'Export Path (Optional)' });
@@ -50,38 +51,55 @@ export default class ExportModal extends Modal {
             .setValue(this.plugin.settings.exportFields.join(', '))
             .setPlaceholder('timestamp, eventType, filePath, etc.');
 
+        // Device selection
+        contentEl.createEl('h3', { text: 'Devices (Optional)' });
+        contentEl.createEl('p', { text: 'Leave empty to export activity from all devices' });
+        const devicesContainer = contentEl.createDiv();
+        const devicesField = new TextComponent(devicesContainer)
+            .setPlaceholder(`Example: ${this.plugin.database.getDeviceId()}`);
+
+        // Filter
+        contentEl.createEl('h3', { text: 'Filter (Optional)' });
+        contentEl.createEl('p', { text: 'Only export events matching a filter such as path:Projects/ type:modify words>50' });
+        const filterField = new FilterField(contentEl, this.plugin);
+
         // Submit button
         const submitBtn = new ButtonComponent(contentEl)
             .setButtonText('Export')
             .onClick(async () => {
-                let startDate = null;
-                let endDate = null;
-
                 // Parse dates if provided
-                const startDateStr = inputStartDateField.getValue().trim();
-                const endDateStr = inputEndDateField.getValue().trim();
-
-                if (startDateStr) {
-                    const dateRange = dateParser.parseDate(startDateStr);
-                    startDate = dateRange.start.valueOf();
+                const { start, end, invalid } = dateFields.getValue();
+                if (invalid !== null) {
+                    new Notice(`Couldn't understand "${invalid}"`);
+                    return;
                 }
 
-                if (endDateStr) {
-                    const dateRange = dateParser.parseDate(endDateStr);
-                    endDate = dateRange.end.valueOf();
+                const filterError = filterField.getError();
+                if (filterError !== null) {
+                    new Notice(`Invalid filter: ${filterError}`);
+                    return;
                 }
 
+                const startDate = start ? start.valueOf() : null;
+                const endDate = end ? end.valueOf() : null;
+
                 // Parse fields if provided
                 const fieldsStr = fieldsField.getValue().trim();
                 const fields = fieldsStr ? fieldsStr.split(',').map(f => f.trim()) : undefined;
 
+                // Parse devices if provided
+                const devicesStr = devicesField.getValue().trim();
+                const deviceIds = devicesStr ? devicesStr.split(',').map(d => d.trim()).filter(d => d) : undefined;
+
                 // Call onSubmit with gathered data
                 this.onSubmit(
                     formatSelect.getValue() as 'json' | 'csv',
                     startDate,
                     endDate,
                     exportPathField.getValue().trim(),
-                    fields
+                    fields,
+                    deviceIds,
+                    filterField.getValue()
                 );
 
                 this.close();
@@ -0,0 +1,79 @@
+import { DropdownComponent, TextComponent } from 'obsidian';
+import DailyActivityPlugin from '../main';
+
+/**
+ * A filter expression field with a line below it saying how many vault files
+ * pass it, or what's wrong with it, as it's typed. Saved filters can be picked
+ * from a dropdown, which adds them as @name.
+ */
+export class FilterField {
+    private plugin: DailyActivityPlugin;
+    private field: TextComponent;
+    private previewEl: HTMLElement;
+    private changeCallback: (() => void) | null = null;
+
+    constructor(containerEl: HTMLElement, plugin: DailyActivityPlugin, value = '') {
+        this.plugin = plugin;
+
+        const fieldContainer = containerEl.createDiv();
+        this.field = new TextComponent(fieldContainer)
+            .setPlaceholder('e.g. path:Projects/ -tag:#archive')
+            .setValue(value)
+            .onChange(() => this.changed());
+        this.field.inputEl.addClass('daily-activity-filter-input');
+
+        const savedFilters = plugin.settings.savedFilters.filter(saved => saved.name);
+        if (savedFilters.length > 0) {
+            const dropdown = new DropdownComponent(fieldContainer).addOption('', 'Saved filters');
+            savedFilters.forEach(saved => dropdown.addOption(saved.name, saved.name));
+            dropdown.onChange(name => {
+                if (!name) return;
+                const current = this.field.getValue().trim();
+                this.field.setValue(current ? `${current} @${name}` : `@${name}`);
+                dropdown.setValue('');
+                this.changed();
+            });
+        }
+
+        this.previewEl = containerEl.createDiv({ cls: 'daily-activity-filter-preview' });
+        this.updatePreview();
+    }
+
+    /**
+     * Call back after the expression changes, whether or not it's valid
+     */
+    public onChange(callback: () => void): this {
+        this.changeCallback = callback;
+        return this;
+    }
+
+    public getValue(): string {
+        return this.field.getValue().trim();
+    }
+
+    /**
+     * What's wrong with the expression, or null when it's valid
+     */
+    public getError(): string | null {
+        return this.plugin.filters.validate(this.getValue());
+    }
+
+    private changed(): void {
+        this.updatePreview();
+        this.changeCallback?.();
+    }
+
+    private updatePreview(): void {
+        const error = this.getError();
+        this.previewEl.toggleClass('is-invalid', error !== null);
+        if (error !== null) {
+            this.previewEl.setText(error);
+            return;
+        }
+
+        const filter = this.plugin.filters.parse(this.getValue());
+        const files = this.plugin.app.vault.getFiles();
+        const matching = filter.isEmpty() ? files.length : files.filter(file => filter.matchesPath(file.path)).length;
+        this.previewEl.setText(`${matching} of ${files.length} files match`);
+    }
+}
@@ -1,13 +1,15 @@
-import { App, ButtonComponent, Modal, TextComponent } from 'obsidian';
+import { App, ButtonComponent, Modal, Notice } from 'obsidian';
 import DateParser from '../DateParser';
+import { DateRangeFields } from './DateRangeFields';
+import { FilterField } from './FilterField';
 import DailyActivityPlugin from '../main';
 import moment from 'moment';
 
 export default class FilterModal extends Modal {
-    private onSubmit: (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => void;
+    private onSubmit: (fromDate: string, toDate: string, filter: string) => void;
     private plugin: DailyActivityPlugin;
 
-    constructor(app: App, plugin: DailyActivityPlugin, onSubmit: (fromDate: string, toDate: string, includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[]) => void) {
+    constructor(app: App, plugin: DailyActivityPlugin, onSubmit: (fromDate: string, toDate: string, filter: string) => void) {
         super(app);
         this.onSubmit = onSubmit;
         this.plugin = plugin;
@@ -15,65 +17,40 @@ export default class FilterModal extends Modal {
 
     onOpen() {
         const { contentEl } = this;
-        const dateParser = new DateParser(this.plugin);
 
         // Date range
         contentEl.createEl('h3', { text: 'Date Range' });
-        contentEl.createEl('p', { text: 'Leave empty to use today\'s date' });
+        contentEl.createEl('p', { text: 'Leave empty to use today\'s date. Dates can be written as YYYY-MM-DD or like "last week", "past 3 days" or "since Monday".' });
 
-        const dateContainer = contentEl.createDiv();
-        const inputFromDateField = new TextComponent(dateContainer)
-            .setPlaceholder('From date (YYYY-MM-DD)');
-        dateContainer.createEl('br');
-        const inputToDateField = new TextComponent(dateContainer)
-            .setPlaceholder('To date (YYYY-MM-DD)');
+        const dateFields = new DateRangeFields(contentEl, this.plugin, ['From date or range', 'To date'], (start, end) =>
+            DateParser.describe({ start: start || moment().startOf('day'), end: end || moment().endOf('day') }));
 
-        // Filters
-        contentEl.createEl('h3', { text: 'Filters (Optional)' });
-        contentEl.createEl('p', { text: 'One item per line' });
-
-        // Include regex
-        const includeRegexContainer = contentEl.createDiv();
-        contentEl.createEl('h4', { text: 'Include Regex Patterns' });
-        const includeRegexField = new TextComponent(includeRegexContainer)
-            .setPlaceholder('Regex patterns to include');
-
-        // Exclude regex
-        const excludeRegexContainer = contentEl.createDiv();
-        contentEl.createEl('h4', { text: 'Exclude Regex Patterns' });
-        const excludeRegexField = new TextComponent(excludeRegexContainer)
-            .setPlaceholder('Regex patterns to exclude');
-
-        // Include paths
-        const includePathsContainer = contentEl.createDiv();
-        contentEl.createEl('h4', { text: 'Include Paths' });
-        const includePathsField = new TextComponent(includePathsContainer)
-            .setPlaceholder('Paths to include');
-
-        // Exclude paths
-        const excludePathsContainer = contentEl.createDiv();
-        contentEl.createEl('h4', { text: 'Exclude Paths' });
-        const excludePathsField = new TextComponent(excludePathsContainer)
-            .setPlaceholder('Paths to exclude');
+        // Filter
+        contentEl.createEl('h3', { text: 'Filter (Optional)' });
+        contentEl.createEl('p', { text: 'Only list files matching a filter such as path:Projects/ -tag:#archive, [status:active] or links-to:[[Roadmap]]. Leave empty to list every file.' });
+        const filterField = new FilterField(contentEl, this.plugin);
 
         // Submit button
         const submitBtn = new ButtonComponent(contentEl)
             .setButtonText('Apply Filters')
             .onClick(async () => {
                 // Parse dates
-                const fromDateStr = inputFromDateField.getValue().trim();
-                const toDateStr = inputToDateField.getValue().trim();
-
-                let fromDate = fromDateStr ? dateParser.parseDate(fromDateStr).start.format('YYYY-MM-DD') : moment().format('YYYY-MM-DD');
-                let toDate = toDateStr ? dateParser.parseDate(toDateStr).end.format('YYYY-MM-DD') : moment().format('YYYY-MM-DD');
-
-                // Parse filters
-                const includeRegex = includeRegexField.getValue().split('\n').map(s => s.trim()).filter(s => s.length > 0);
-                const excludeRegex = excludeRegexField.getValue().split('\n').map(s => s.trim()).filter(s => s.length > 0);
-                const includePaths = includePathsField.getValue().split('\n').map(s => s.trim()).filter(s => s.length > 0);
-                const excludePaths = excludePathsField.getValue().split('\n').map(s => s.trim()).filter(s => s.length > 0);
-
-                this.onSubmit(fromDate, toDate, includeRegex, excludeRegex, includePaths, excludePaths);
+                const { start, end, invalid } = dateFields.getValue();
+                if (invalid !== null) {
+                    new Notice(`Couldn't understand "${invalid}"`);
+                    return;
+                }
+
+                const filterError = filterField.getError();
+                if (filterError !== null) {
+                    new Notice(`Invalid filter: ${filterError}`);
+                    return;
+                }
+
+                let fromDate = (start || moment()).format('YYYY-MM-DD');
+                let toDate = (end || moment()).format('YYYY-MM-DD');
+
+                this.onSubmit(fromDate, toDate, filterField.getValue());
                 this.close();
             });
     }
@@ -0,0 +1,143 @@
+import { App, ButtonComponent, DropdownComponent, Modal, TFile } from 'obsidian';
+import moment from 'moment';
+import { ActivityImporter, ImportPreview } from '../database/ActivityImporter';
+import DailyActivityPlugin from '../main';
+
+export default class ImportModal extends Modal {
+    private onSubmit: (preview: ImportPreview) => void;
+    private plugin: DailyActivityPlugin;
+
+    constructor(app: App, plugin: DailyActivityPlugin, onSubmit: (preview: ImportPreview) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const importer = new ActivityImporter(this.plugin.database);
+        let preview: ImportPreview | null = null;
+
+        // File selection
+        contentEl.createEl('h3', { text: 'File to Import' });
+        contentEl.createEl('p', { text: 'A CSV or JSON file written by Export Activity Data' });
+
+        const files = this.getImportableFiles();
+        if (files.length === 0) {
+            contentEl.createEl('p', { text: 'No CSV or JSON files found in the vault.' });
+            return;
+        }
+
+        const fileContainer = contentEl.createDiv();
+        const fileDropdown = new DropdownComponent(fileContainer);
+        files.forEach(file => fileDropdown.addOption(file.path, file.path));
+
+        // Preview
+        contentEl.createEl('h3', { text: 'Preview' });
+        const previewEl = contentEl.createDiv();
+        previewEl.createEl('p', { text: 'Preview the file to see what will be imported' });
+
+        const buttonContainer = contentEl.createDiv();
+        let importBtn: ButtonComponent;
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Preview')
+            .onClick(async () => {
+                preview = null;
+                importBtn.setDisabled(true);
+                previewEl.empty();
+                previewEl.createEl('p', { text: 'Reading file...' });
+
+                try {
+                    const file = this.app.vault.getAbstractFileByPath(fileDropdown.getValue());
+                    if (!(file instanceof TFile)) throw new Error('File not found');
+
+                    const content = await this.app.vault.read(file);
+                    preview = await importer.preview(content, ActivityImporter.detectFormat(file.path, content));
+                    this.renderPreview(previewEl, preview);
+                    importBtn.setDisabled(preview.events.length === 0);
+                } catch (error) {
+                    this.plugin.logger.error('Failed to read import file:', error);
+                    previewEl.empty();
+                    previewEl.createEl('p', { text: `Could not read file: ${error.message}` });
+                }
+            });
+
+        importBtn = new ButtonComponent(buttonContainer)
+            .setButtonText('Import')
+            .setCta()
+            .setDisabled(true)
+            .onClick(() => {
+                if (!preview) return;
+                this.onSubmit(preview);
+                this.close();
+            });
+
+        fileDropdown.onChange(() => {
+            preview = null;
+            importBtn.setDisabled(true);
+            previewEl.empty();
+            previewEl.createEl('p', { text: 'Preview the file to see what will be imported' });
+        });
+    }
+
+    /**
+     * Exports from the default export folder first, then every other CSV/JSON file
+     */
+    private getImportableFiles(): TFile[] {
+        const exportPath = this.plugin.settings.autoExportPath;
+        return this.app.vault.getFiles()
+            .filter(file => file.extension === 'csv' || file.extension === 'json')
+            .sort((a, b) => {
+                const aIsExport = exportPath !== '' && a.path.startsWith(exportPath) ? 0 : 1;
+                const bIsExport = exportPath !== '' && b.path.startsWith(exportPath) ? 0 : 1;
+                return aIsExport - bIsExport || b.stat.mtime - a.stat.mtime;
+            });
+    }
+
+    private renderPreview(container: HTMLElement, preview: ImportPreview): void {
+        container.empty();
+
+        const summary = container.createEl('ul');
+        summary.createEl('li', { text: `Rows read: ${preview.totalRows} (${preview.format.toUpperCase()})` });
+        summary.createEl('li', { text: `New events: ${preview.events.length}` });
+        summary.createEl('li', { text: `Already recorded: ${preview.duplicates}` });
+        summary.createEl('li', { text: `Invalid rows: ${preview.errors.length}` });
+        if (preview.startTime !== null && preview.endTime !== null) {
+            summary.createEl('li', {
+                text: `New events span ${moment(preview.startTime).format('YYYY-MM-DD')} to ${moment(preview.endTime).format('YYYY-MM-DD')} across ${preview.fileCount} files`
+            });
+        }
+
+        if (preview.errors.length > 0) {
+            container.createEl('h4', { text: 'Invalid rows' });
+            const errorList = container.createEl('ul');
+            preview.errors.slice(0, 5).forEach(error => {
+                errorList.createEl('li', { text: `Row ${error.row}: ${error.message}` });
+            });
+            if (preview.errors.length > 5) {
+                errorList.createEl('li', { text: `...and ${preview.errors.length - 5} more` });
+            }
+        }
+
+        if (preview.events.length > 0) {
+            container.createEl('h4', { text: 'First new events' });
+            const table = container.createEl('table');
+            const header = table.createEl('tr');
+            ['Time', 'Event', 'File', 'Change'].forEach(text => header.createEl('th', { text }));
+
+            preview.events.slice(0, 5).forEach(event => {
+                const row = table.createEl('tr');
+                row.createEl('td', { text: moment(event.timestamp).format('YYYY-MM-DD HH:mm') });
+                row.createEl('td', { text: event.eventType });
+                row.createEl('td', { text: event.filePath });
+                row.createEl('td', { text: event.contentDiff ? `+${event.contentDiff.added}/-${event.contentDiff.removed}` : '' });
+            });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
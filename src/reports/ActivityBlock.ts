@@ -0,0 +1,163 @@
+import { Moment } from 'moment';
+import { Component, MarkdownRenderChild, MarkdownRenderer, debounce } from 'obsidian';
+import DateParser, { DateRange } from '../DateParser';
+import DailyActivityPlugin from '../main';
+
+export type ActivityBlockType = 'summary' | 'timeline' | 'files' | 'weekly';
+
+export interface ActivityBlockOptions {
+    type: ActivityBlockType;
+    range: string | null;  // Anything DateParser understands; each type has its own default
+    folder: string;
+    filter: string;  // Filter expression; empty for all activity
+}
+
+const BLOCK_TYPES: ActivityBlockType[] = ['summary', 'timeline', 'files', 'weekly'];
+
+/**
+ * Renders an `activity` code block from the database whenever the note is shown,
+ * and again as activity is recorded while it stays open. The block holds
+ * `key: value` lines, e.g. `type: weekly`, `range: last week`, `folder: Projects/`,
+ * `filter: type:modify -tag:#archive`.
+ */
+export class ActivityBlock extends MarkdownRenderChild {
+    private static MAX_DAYS = 31;  // Summaries and timelines are rendered per day
+
+    private plugin: DailyActivityPlugin;
+    private source: string;
+    private sourcePath: string;
+    private rendered: Component | null = null;
+    private rendering: Promise<void> = Promise.resolve();
+
+    constructor(containerEl: HTMLElement, plugin: DailyActivityPlugin, source: string, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+        this.sourcePath = sourcePath;
+    }
+
+    public static register(plugin: DailyActivityPlugin): void {
+        plugin.registerMarkdownCodeBlockProcessor('activity', (source, el, ctx) => {
+            ctx.addChild(new ActivityBlock(el, plugin, source, ctx.sourcePath));
+        });
+    }
+
+    /**
+     * Read the block's options, throwing on unknown keys or values
+     */
+    public static parse(source: string): ActivityBlockOptions {
+        const options: ActivityBlockOptions = { type: 'summary', range: null, folder: '', filter: '' };
+
+        source.split('\n').map(line => line.trim()).filter(line => line.length > 0).forEach(line => {
+            const separator = line.indexOf(':');
+            if (separator === -1) {
+                throw new Error(`Expected "key: value", got "${line}"`);
+            }
+            const key = line.substring(0, separator).trim().toLowerCase();
+            const value = line.substring(separator + 1).trim();
+
+            switch (key) {
+                case 'type':
+                    if (!BLOCK_TYPES.includes(value as ActivityBlockType)) {
+                        throw new Error(`Unknown type "${value}". Use one of: ${BLOCK_TYPES.join(', ')}`);
+                    }
+                    options.type = value as ActivityBlockType;
+                    break;
+                case 'range':
+                    options.range = value || null;
+                    break;
+                case 'folder':
+                    options.folder = value.replace(/\/+$/, '');
+                    break;
+                case 'filter':
+                    options.filter = value;
+                    break;
+                default:
+                    throw new Error(`Unknown option "${key}". Use type, range, folder or filter`);
+            }
+        });
+
+        return options;
+    }
+
+    onload() {
+        const rerender = debounce(() => this.update(), 2000, true);
+        this.registerEvent(this.plugin.database.on('event-recorded', rerender));
+        this.registerEvent(this.plugin.database.on('events-imported', rerender));
+        this.register(() => rerender.cancel());
+        this.update();
+    }
+
+    /**
+     * Render the block again; renders run one at a time so a slow one can't
+     * replace the output of a later one
+     */
+    private update(): Promise<void> {
+        this.rendering = this.rendering
+            .then(() => this.render())
+            .catch(error => this.plugin.logger.error('Failed to render activity block:', error));
+        return this.rendering;
+    }
+
+    private async render(): Promise<void> {
+        let markdown: string;
+        try {
+            markdown = await this.buildMarkdown(ActivityBlock.parse(this.source));
+        } catch (error) {
+            this.plugin.logger.error('Failed to render activity block:', error);
+            this.containerEl.empty();
+            this.containerEl.createDiv({ cls: 'daily-activity-block-error', text: `Activity block: ${error.message}` });
+            return;
+        }
+
+        // Drop the previous render's components along with its elements
+        if (this.rendered) {
+            this.removeChild(this.rendered);
+        }
+        this.rendered = this.addChild(new Component());
+
+        this.containerEl.empty();
+        const contentEl = this.containerEl.createDiv({ cls: 'daily-activity-block' });
+        await MarkdownRenderer.render(this.plugin.app, markdown, contentEl, this.sourcePath, this.rendered);
+    }
+
+    private async buildMarkdown(options: ActivityBlockOptions): Promise<string> {
+        const renderer = this.plugin.reportRenderer;
+        const range = options.range ? this.parseRange(options.range) : null;
+        const reportOptions = { folder: options.folder, filter: this.plugin.filters.parse(options.filter) };
+
+        switch (options.type) {
+            case 'files':
+                return renderer.renderMostActiveFiles(range, reportOptions);
+            case 'weekly':
+                return renderer.renderWeeklyOverview(range || undefined, reportOptions);
+            case 'summary':
+            case 'timeline': {
+                const days = range ? this.daysIn(range) : [window.moment()];
+                const sections = await Promise.all(days.map(day => options.type === 'summary'
+                    ? renderer.renderDailySummary(day, reportOptions)
+                    : renderer.renderTimeline(day, reportOptions)));
+                return sections.join('\n');
+            }
+        }
+    }
+
+    private parseRange(input: string): DateRange {
+        const range = new DateParser(this.plugin).parseDate(input);
+        if (!range.start.isValid() || !range.end.isValid()) {
+            throw new Error(`Couldn't understand the range "${input}"`);
+        }
+        return range;
+    }
+
+    private daysIn(range: DateRange): Moment[] {
+        const days: Moment[] = [];
+        for (const day = range.start.clone().startOf('day'); day.isSameOrBefore(range.end, 'day'); day.add(1, 'day')) {
+            days.push(day.clone());
+        }
+        if (days.length > ActivityBlock.MAX_DAYS) {
+            throw new Error(`The range covers ${days.length} days; summaries and timelines are limited to ${ActivityBlock.MAX_DAYS}`);
+        }
+        return days;
+    }
+}
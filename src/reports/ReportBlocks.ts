@@ -0,0 +1,249 @@
+import { MarkdownView, TFile } from 'obsidian';
+import { Moment } from 'moment';
+import { DateRange } from '../DateParser';
+import DailyActivityPlugin from '../main';
+
+export type ReportBlockType = 'summary' | 'weekly' | 'timeline' | 'files' | 'created' | 'modified' | 'daily-note';
+
+/**
+ * What a block holds: the report and the parameters needed to build it again.
+ * Repeated parameters (such as several exclude paths) keep every value.
+ */
+export interface ReportBlockId {
+    type: ReportBlockType;
+    params: [string, string][];
+}
+
+export interface ReportBlockLocation {
+    id: string;
+    start: number;  // Offset of the start marker
+    end: number;    // Offset just past the end marker
+}
+
+const REPORT_BLOCK_TYPES: ReportBlockType[] = ['summary', 'weekly', 'timeline', 'files', 'created', 'modified', 'daily-note'];
+const START_PATTERN = /%% activity:start (.+?) %%/g;
+const END_MARKER = '%% activity:end %%';
+
+/**
+ * Generated reports are wrapped in `%% activity:start <id> %%` and
+ * `%% activity:end %%` comments. The id names the report and its parameters,
+ * e.g. `summary date=2024-03-05`, so running the same report again replaces the
+ * block and any block can be rebuilt later.
+ */
+export class ReportBlocks {
+    private plugin: DailyActivityPlugin;
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    public static format(id: ReportBlockId): string {
+        return [id.type, ...id.params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`)].join(' ');
+    }
+
+    public static parse(text: string): ReportBlockId | null {
+        const [type, ...pairs] = text.trim().split(/\s+/);
+        if (!REPORT_BLOCK_TYPES.includes(type as ReportBlockType)) return null;
+
+        const params: [string, string][] = [];
+        for (const pair of pairs) {
+            const separator = pair.indexOf('=');
+            if (separator === -1) return null;
+            params.push([pair.substring(0, separator), decodeURIComponent(pair.substring(separator + 1))]);
+        }
+        return { type: type as ReportBlockType, params };
+    }
+
+    public static findBlocks(content: string): ReportBlockLocation[] {
+        const blocks: ReportBlockLocation[] = [];
+        START_PATTERN.lastIndex = 0;
+
+        let match: RegExpExecArray | null;
+        while ((match = START_PATTERN.exec(content)) !== null) {
+            const endIndex = content.indexOf(END_MARKER, match.index);
+            if (endIndex === -1) break;
+            blocks.push({ id: match[1].trim(), start: match.index, end: endIndex + END_MARKER.length });
+            START_PATTERN.lastIndex = endIndex + END_MARKER.length;
+        }
+
+        return blocks;
+    }
+
+    public static wrap(id: string, body: string): string {
+        return `%% activity:start ${id} %%\n${body.trim()}\n${END_MARKER}`;
+    }
+
+    /**
+     * Replace the block with this id, or append it to the end of the content
+     */
+    public static upsert(content: string, id: string, body: string): string {
+        const block = ReportBlocks.wrap(id, body);
+        const existing = ReportBlocks.findBlocks(content).find(location => location.id === id);
+        if (existing) {
+            return content.substring(0, existing.start) + block + content.substring(existing.end);
+        }
+
+        return `${content}${ReportBlocks.separatorAfter(content)}${block}\n`;
+    }
+
+    /**
+     * Build a report and put it in the editor: in place of a block with the same
+     * id, otherwise where the insert location setting says
+     */
+    public async insert(view: MarkdownView, id: ReportBlockId): Promise<void> {
+        const idText = ReportBlocks.format(id);
+        const block = ReportBlocks.wrap(idText, await this.render(id, view.file));
+        const editor = view.editor;
+        const content = editor.getValue();
+
+        const existing = ReportBlocks.findBlocks(content).find(location => location.id === idText);
+        if (existing) {
+            editor.replaceRange(block, editor.offsetToPos(existing.start), editor.offsetToPos(existing.end));
+        } else if (this.plugin.settings.insertLocation === 'cursor') {
+            editor.replaceRange(`\n${block}\n`, editor.getCursor());
+        } else {
+            editor.replaceRange(`${ReportBlocks.separatorAfter(content)}${block}\n`, editor.offsetToPos(content.length));
+        }
+    }
+
+    /**
+     * Rebuild every block in a note. Returns how many were updated; blocks with
+     * ids that aren't understood are left alone.
+     */
+    public async refreshAll(view: MarkdownView): Promise<{ updated: number, skipped: number }> {
+        const editor = view.editor;
+        const rendered: Map<string, string> = new Map();
+        let skipped = 0;
+
+        for (const location of ReportBlocks.findBlocks(editor.getValue())) {
+            if (rendered.has(location.id)) continue;
+            const id = ReportBlocks.parse(location.id);
+            if (!id) {
+                skipped++;
+                continue;
+            }
+            rendered.set(location.id, ReportBlocks.wrap(location.id, await this.render(id, view.file)));
+        }
+
+        // The note may have changed while reports were built, so find the blocks
+        // again and replace from the end to keep earlier offsets valid
+        let updated = 0;
+        ReportBlocks.findBlocks(editor.getValue()).reverse().forEach(location => {
+            const block = rendered.get(location.id);
+            if (!block) return;
+            editor.replaceRange(block, editor.offsetToPos(location.start), editor.offsetToPos(location.end));
+            updated++;
+        });
+
+        return { updated, skipped };
+    }
+
+    /**
+     * The markdown a block holds
+     */
+    public async render(id: ReportBlockId, file: TFile | null): Promise<string> {
+        const renderer = this.plugin.reportRenderer;
+        const param = (key: string) => id.params.find(([name]) => name === key)?.[1];
+        const day = (key: string) => {
+            const value = param(key);
+            return value ? window.moment(value, 'YYYY-MM-DD') : window.moment();
+        };
+
+        const range = ReportBlocks.rangeOf(id);
+        const options = { filter: this.plugin.filters.parse(param('filter') || '') };
+
+        switch (id.type) {
+            case 'summary':
+                return renderer.renderDailySummary(range || window.moment(), options);
+            case 'timeline':
+                return renderer.renderTimeline(range || window.moment(), options);
+            case 'weekly':
+                return renderer.renderWeeklyOverview(range || undefined, options);
+            case 'files':
+                return renderer.renderMostActiveFiles(range, options);
+            case 'created':
+            case 'modified':
+                return this.renderLinks(id, file);
+            case 'daily-note':
+                return this.plugin.dailyNoteAutomation.renderSection(day('date'), file);
+        }
+    }
+
+    /**
+     * Parameters for the days a report covers: `date` for one day, otherwise `from` and `to`
+     */
+    public static rangeParams(range: DateRange): [string, string][] {
+        return range.start.isSame(range.end, 'day')
+            ? [['date', range.start.format('YYYY-MM-DD')]]
+            : [['from', range.start.format('YYYY-MM-DD')], ['to', range.end.format('YYYY-MM-DD')]];
+    }
+
+    /**
+     * Parameter for a report's filter expression; none when it's empty
+     */
+    public static filterParams(filter: string): [string, string][] {
+        return filter.trim() ? [['filter', filter.trim()]] : [];
+    }
+
+    /**
+     * The days in a block's `date` or `from` and `to` parameters; null when it has neither
+     */
+    private static rangeOf(id: ReportBlockId): DateRange | null {
+        const param = (key: string) => id.params.find(([name]) => name === key)?.[1];
+        const from = param('from') || param('date');
+        if (!from) return null;
+
+        const start = window.moment(from, 'YYYY-MM-DD').startOf('day');
+        const end = window.moment(param('to') || from, 'YYYY-MM-DD').endOf('day');
+        return start.isValid() && end.isValid() ? { start, end } : null;
+    }
+
+    /**
+     * Id for a list of links to files created or modified on a range of days
+     */
+    public static linksId(type: 'created' | 'modified', moments: Moment[], makeLink: boolean, filters: { includeRegex: string[], excludeRegex: string[], includePaths: string[], excludePaths: string[], filter: string }): ReportBlockId {
+        const params: [string, string][] = [
+            ['from', moments[0].format('YYYY-MM-DD')],
+            ['to', moments[moments.length - 1].format('YYYY-MM-DD')],
+            ['style', makeLink ? 'link' : 'plain']
+        ];
+        filters.includeRegex.filter(value => value).forEach(value => params.push(['include-regex', value]));
+        filters.excludeRegex.filter(value => value).forEach(value => params.push(['exclude-regex', value]));
+        filters.includePaths.filter(value => value).forEach(value => params.push(['include-path', value]));
+        filters.excludePaths.filter(value => value).forEach(value => params.push(['exclude-path', value]));
+        params.push(...ReportBlocks.filterParams(filters.filter));
+        return { type, params };
+    }
+
+    private renderLinks(id: ReportBlockId, file: TFile | null): Promise<string> {
+        const settings = this.plugin.settings;
+        const values = (key: string) => id.params.filter(([name]) => name === key).map(([, value]) => value);
+        const from = window.moment(values('from')[0], 'YYYY-MM-DD');
+        const to = window.moment(values('to')[0] || values('from')[0], 'YYYY-MM-DD');
+
+        const moments: Moment[] = [];
+        for (const day = from.clone(); day.isSameOrBefore(to, 'day'); day.add(1, 'day')) {
+            moments.push(day.clone());
+        }
+
+        const { created, modified } = this.plugin.activityLogger.getActivityLinks({
+            moments,
+            makeLink: values('style')[0] !== 'plain',
+            filter: this.plugin.filters.combine({
+                includeRegex: values('include-regex'),
+                excludeRegex: values('exclude-regex'),
+                includePaths: values('include-path'),
+                excludePaths: values('exclude-path')
+            }, values('filter')[0]),
+            excludeFilePath: settings.excludeCurrentNote ? file?.path : undefined
+        });
+
+        return id.type === 'created'
+            ? this.plugin.reportRenderer.renderFileList('created', created, to)
+            : this.plugin.reportRenderer.renderFileList('modified', modified, to);
+    }
+
+    private static separatorAfter(content: string): string {
+        return content.length === 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+    }
+}
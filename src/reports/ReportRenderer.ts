@@ -0,0 +1,375 @@
+import { Moment } from 'moment';
+import { DateRange } from '../DateParser';
+import { FileEvent } from '../database/ActivityDatabase';
+import { DailyStats, FileStats, StatsAggregator } from '../database/StatsAggregator';
+import { ActivitySession, SessionBuilder } from '../sessions/SessionBuilder';
+import { HeaderFormatter } from '../settings/HeaderFormatter';
+import { TemplateContext } from '../templates/TemplateEngine';
+import { FilterQuery } from '../filters/FilterQuery';
+import DailyActivityPlugin from '../main';
+
+export interface ReportOptions {
+    folder?: string;  // Only report on notes in this folder
+    filter?: FilterQuery;  // Only report on events that pass this filter
+}
+
+/**
+ * Builds the markdown for activity reports, so the same report can be inserted
+ * into a note, shown in a popover or rendered in an activity code block. Each
+ * report gathers its data and renders it through its template.
+ */
+export class ReportRenderer {
+    private plugin: DailyActivityPlugin;
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Summary of a day's or a range's activity: totals, content changes, time
+     * spent and devices
+     */
+    public async renderDailySummary(period: Moment | DateRange = window.moment(), options: ReportOptions = {}): Promise<string> {
+        const database = this.plugin.database;
+        const { start, end } = ReportRenderer.toDayRange(period);
+        const isRange = !start.isSame(end, 'day');
+
+        // Get stats for the day from daily stats store, plus the period's sessions and events
+        const [storedStats, sessions, events] = await Promise.all([
+            ReportRenderer.isSubset(options) || isRange ? Promise.resolve(undefined) : database.getDailyStats(start.format('YYYY-MM-DD')),
+            this.getSessions(start.valueOf(), end.valueOf(), options),
+            this.getEvents(start.valueOf(), end.valueOf(), options)
+        ]);
+        // Stored stats cover one day of the whole vault, so a subset's or a range's stats are built from its events
+        const stats = ReportRenderer.isSubset(options) || isRange ? ReportRenderer.buildStats(events, start.format('YYYY-MM-DD')) : storedStats;
+
+        return this.plugin.reportTemplates.render('daily-summary', {
+            date: start,
+            start,
+            end,
+            isRange,
+            isToday: !isRange && start.isSame(window.moment(), 'day'),
+            hasActivity: !!stats,
+            totalEvents: stats?.totalEvents ?? 0,
+            filesTouched: stats?.filesTouched.length ?? 0,
+            firstActivity: stats && stats.firstActivity !== null ? window.moment(stats.firstActivity) : null,
+            lastActivity: stats && stats.lastActivity !== null ? window.moment(stats.lastActivity) : null,
+            eventTypes: Object.entries(stats?.eventCounts || {}).map(([type, count]) => ({ type, name: ReportRenderer.capitalize(type), count })),
+            hasContentChanges: !!stats && (stats.totalAdded > 0 || stats.totalRemoved > 0),
+            lines: ReportRenderer.change(stats?.totalLinesAdded, stats?.totalLinesRemoved),
+            words: ReportRenderer.change(stats?.totalWordsAdded, stats?.totalWordsRemoved),
+            characters: ReportRenderer.change(stats?.totalAdded, stats?.totalRemoved),
+            timeSpent: this.timeSpentRows(sessions),
+            devices: this.deviceRows(events)
+        });
+    }
+
+    /**
+     * Files by edits, over all recorded history or within a range; the default
+     * template shows the top 20
+     */
+    public async renderMostActiveFiles(range: DateRange | null = null, options: ReportOptions = {}): Promise<string> {
+        // Stored file stats count every event, so a range's or a filter's are built from events
+        const filtered = !!options.filter && !options.filter.isEmpty();
+        let stats: FileStats[] = range || filtered
+            ? StatsAggregator.buildFileStats(await this.getEvents(range ? range.start.valueOf() : 0, range ? range.end.valueOf() : Date.now(), options))
+            : await this.plugin.database.getAllFileStats();
+        stats = (stats || []).filter(file => ReportRenderer.inFolder(file.filePath, options.folder));
+
+        // Sort by total edits (descending)
+        stats.sort((a, b) => b.totalEdits - a.totalEdits);
+
+        return this.plugin.reportTemplates.render('most-active-files', {
+            start: range ? range.start.clone().startOf('day') : null,
+            end: range ? range.end.clone() : null,
+            files: stats.map(file => ({
+                ...ReportRenderer.fileFields(file.filePath),
+                totalEdits: file.totalEdits,
+                lastModified: window.moment(file.lastModified),
+                linesAdded: file.totalLinesAdded || 0,
+                linesRemoved: file.totalLinesRemoved || 0,
+                wordsAdded: file.totalWordsAdded || 0,
+                wordsRemoved: file.totalWordsRemoved || 0
+            }))
+        });
+    }
+
+    /**
+     * Day-by-day table and totals for a range of days, the last 7 by default
+     */
+    public async renderWeeklyOverview(range?: DateRange, options: ReportOptions = {}): Promise<string> {
+        const start = range ? range.start.clone().startOf('day') : window.moment().startOf('day').subtract(6, 'days');
+        const end = range ? range.end.clone() : window.moment();
+
+        const dates: string[] = [];
+        for (const day = start.clone(); day.isSameOrBefore(end, 'day'); day.add(1, 'day')) {
+            dates.push(day.format('YYYY-MM-DD'));
+        }
+
+        // Fetch activity data for each day, plus the range's sessions and events
+        const [sessions, events] = await Promise.all([
+            this.getSessions(start.valueOf(), end.valueOf(), options),
+            this.getEvents(start.valueOf(), end.valueOf(), options)
+        ]);
+        const statsByDay = ReportRenderer.isSubset(options) ? this.buildStatsByDay(events) : new Map<string, DailyStats>();
+        const results = ReportRenderer.isSubset(options)
+            ? dates.map(date => statsByDay.get(date))
+            : await Promise.all(dates.map(date => this.plugin.database.getDailyStats(date)));
+
+        const activeByDay: Record<string, number> = {};
+        sessions.forEach(session => {
+            activeByDay[session.date] = (activeByDay[session.date] || 0) + session.activeDuration;
+        });
+
+        const days = dates.map((date, index) => {
+            const stats = results[index];
+            return {
+                date: window.moment(date),
+                totalEvents: stats?.totalEvents || 0,
+                filesTouched: stats?.filesTouched.length || 0,
+                created: stats?.eventCounts.create || 0,
+                modified: stats?.eventCounts.modify || 0,
+                deleted: stats?.eventCounts.delete || 0,
+                renamed: stats?.eventCounts.rename || 0,
+                linesAdded: stats?.totalLinesAdded || 0,
+                linesRemoved: stats?.totalLinesRemoved || 0,
+                wordsAdded: stats?.totalWordsAdded || 0,
+                wordsRemoved: stats?.totalWordsRemoved || 0,
+                activeMs: activeByDay[date] || 0,
+                activeTime: SessionBuilder.formatDuration(activeByDay[date] || 0)
+            };
+        });
+
+        // Totals over the range; files are counted once however many days they were touched
+        const weeklyFiles = new Set<string>();
+        results.forEach(stats => stats?.filesTouched.forEach(filePath => weeklyFiles.add(filePath)));
+        const sum = (key: 'totalEvents' | 'created' | 'modified' | 'deleted' | 'renamed' | 'linesAdded' | 'linesRemoved' | 'wordsAdded' | 'wordsRemoved' | 'activeMs') =>
+            days.reduce((total, day) => total + day[key], 0);
+        const weeklyActive = sum('activeMs');
+
+        return this.plugin.reportTemplates.render('weekly-overview', {
+            start: window.moment(dates[0]),
+            end: window.moment(dates[dates.length - 1]),
+            days,
+            totals: {
+                totalEvents: sum('totalEvents'),
+                filesTouched: weeklyFiles.size,
+                created: sum('created'),
+                modified: sum('modified'),
+                deleted: sum('deleted'),
+                renamed: sum('renamed'),
+                linesAdded: sum('linesAdded'),
+                linesRemoved: sum('linesRemoved'),
+                wordsAdded: sum('wordsAdded'),
+                wordsRemoved: sum('wordsRemoved'),
+                netLines: sum('linesAdded') - sum('linesRemoved'),
+                netWords: sum('wordsAdded') - sum('wordsRemoved'),
+                activeMs: weeklyActive,
+                activeTime: SessionBuilder.formatDuration(weeklyActive)
+            },
+            hasActiveTime: weeklyActive > 0,
+            timeSpent: this.timeSpentRows(sessions),
+            devices: this.deviceRows(events)
+        });
+    }
+
+    /**
+     * A day's or a range's events grouped by day, then by hour and then by event type
+     */
+    public async renderTimeline(period: Moment | DateRange = window.moment(), options: ReportOptions = {}): Promise<string> {
+        const { start, end } = ReportRenderer.toDayRange(period);
+        const isRange = !start.isSame(end, 'day');
+
+        const events = await this.getEvents(start.valueOf(), end.valueOf(), options);
+
+        // Sort events by timestamp (ascending)
+        events.sort((a, b) => a.timestamp - b.timestamp);
+
+        // Group events by day and hour, then by event type within each hour
+        type HourGroup = { hour: string, types: { type: string, name: string, count: number, events: TemplateContext[] }[] };
+        const days: { date: Moment, hours: HourGroup[] }[] = [];
+        events.forEach(event => {
+            const time = window.moment(event.timestamp);
+            let dayGroup = days[days.length - 1];
+            if (!dayGroup || !dayGroup.date.isSame(time, 'day')) {
+                dayGroup = { date: time.clone().startOf('day'), hours: [] };
+                days.push(dayGroup);
+            }
+
+            const hour = time.format('HH') + ':00';
+            let hourGroup = dayGroup.hours[dayGroup.hours.length - 1];
+            if (!hourGroup || hourGroup.hour !== hour) {
+                hourGroup = { hour, types: [] };
+                dayGroup.hours.push(hourGroup);
+            }
+
+            let typeGroup = hourGroup.types.find(group => group.type === event.eventType);
+            if (!typeGroup) {
+                typeGroup = { type: event.eventType, name: ReportRenderer.capitalize(event.eventType), count: 0, events: [] };
+                hourGroup.types.push(typeGroup);
+            }
+
+            typeGroup.count++;
+            typeGroup.events.push({
+                ...ReportRenderer.fileFields(event.filePath),
+                time,
+                eventType: event.eventType,
+                diff: event.eventType === 'modify' && event.contentDiff ? {
+                    linesAdded: event.contentDiff.linesAdded || 0,
+                    linesRemoved: event.contentDiff.linesRemoved || 0,
+                    wordsAdded: event.contentDiff.wordsAdded || 0,
+                    wordsRemoved: event.contentDiff.wordsRemoved || 0
+                } : null,
+                renamedFrom: event.eventType === 'rename' && event.oldPath
+                    ? (event.oldPath.split('/').pop() || event.oldPath).replace(/\.md$/, '')
+                    : null
+            });
+        });
+
+        return this.plugin.reportTemplates.render('timeline', {
+            date: start,
+            start,
+            end,
+            isRange,
+            isToday: !isRange && start.isSame(window.moment(), 'day'),
+            hasActivity: events.length > 0,
+            totalEvents: events.length,
+            days,
+            hours: days.flatMap(day => day.hours)  // Every day's hours, for templates that don't loop over days
+        });
+    }
+
+    /**
+     * A list of created or modified files, with the header from the settings
+     */
+    public async renderFileList(type: 'created' | 'modified', links: string[], date: Moment): Promise<string> {
+        const settings = this.plugin.settings;
+        const label = ReportRenderer.capitalize(type);
+
+        return this.plugin.reportTemplates.render('file-list', {
+            type: label,
+            action: type,
+            date,
+            header: settings.includeHeader ? HeaderFormatter.formatHeader(settings.headerStyle, label, date) : '',
+            files: links.map(link => ({ link }))
+        });
+    }
+
+    /**
+     * Time spent per note, built from sessions, most time first
+     */
+    private timeSpentRows(sessions: ActivitySession[]): TemplateContext[] {
+        return SessionBuilder.summarizeByFile(sessions)
+            .filter(file => file.activeDuration > 0)
+            .map(file => ({
+                ...ReportRenderer.fileFields(file.filePath),
+                sessions: file.sessions,
+                activeMs: file.activeDuration,
+                activeTime: SessionBuilder.formatDuration(file.activeDuration)
+            }));
+    }
+
+    /**
+     * Activity per device; empty unless more than one device contributed
+     */
+    private deviceRows(events: FileEvent[]): TemplateContext[] {
+        const localDeviceId = this.plugin.database.getDeviceId();
+        const byDevice: Record<string, { events: number, files: Set<string>, wordsAdded: number, wordsRemoved: number }> = {};
+
+        events.forEach(event => {
+            const deviceId = event.deviceId || localDeviceId;
+            if (!byDevice[deviceId]) {
+                byDevice[deviceId] = { events: 0, files: new Set(), wordsAdded: 0, wordsRemoved: 0 };
+            }
+            byDevice[deviceId].events++;
+            byDevice[deviceId].files.add(event.filePath);
+            byDevice[deviceId].wordsAdded += event.contentDiff?.wordsAdded || 0;
+            byDevice[deviceId].wordsRemoved += event.contentDiff?.wordsRemoved || 0;
+        });
+
+        const deviceIds = Object.keys(byDevice).sort((a, b) => byDevice[b].events - byDevice[a].events);
+        if (deviceIds.length < 2) {
+            return [];
+        }
+
+        return deviceIds.map(deviceId => {
+            const device = byDevice[deviceId];
+            return {
+                deviceId,
+                name: deviceId === localDeviceId ? `${deviceId} (this device)` : deviceId,
+                isThisDevice: deviceId === localDeviceId,
+                events: device.events,
+                files: device.files.size,
+                wordsAdded: device.wordsAdded,
+                wordsRemoved: device.wordsRemoved
+            };
+        });
+    }
+
+    private async getEvents(startTime: number, endTime: number, options: ReportOptions): Promise<FileEvent[]> {
+        const events = await this.plugin.database.getEventsInTimeRange(startTime, endTime);
+        return ReportRenderer.isSubset(options)
+            ? events.filter(event => ReportRenderer.inFolder(event.filePath, options.folder) && (!options.filter || options.filter.matchesEvent(event)))
+            : events;
+    }
+
+    private async getSessions(startTime: number, endTime: number, options: ReportOptions): Promise<ActivitySession[]> {
+        const sessions = await this.plugin.database.getSessionsInTimeRange(startTime, endTime);
+        return ReportRenderer.isSubset(options)
+            ? sessions.filter(session => ReportRenderer.inFolder(session.filePath, options.folder) && (!options.filter || options.filter.matchesPath(session.filePath)))
+            : sessions;
+    }
+
+    /**
+     * Daily aggregates keyed by local date, for reports on a subset of the vault
+     */
+    private buildStatsByDay(events: FileEvent[]): Map<string, DailyStats> {
+        return new Map(StatsAggregator.buildDailyStats(events).map(stats => [stats.date, stats]));
+    }
+
+    /**
+     * Aggregates for all events as one set of stats; undefined when there were none
+     */
+    private static buildStats(events: FileEvent[], key: string): DailyStats | undefined {
+        if (events.length === 0) return undefined;
+        const stats = StatsAggregator.normalize(key);
+        events.forEach(event => StatsAggregator.applyEventToDailyStats(stats, event));
+        return stats;
+    }
+
+    /**
+     * Whole days covering a day or a range
+     */
+    private static toDayRange(period: Moment | DateRange): DateRange {
+        const { start, end } = window.moment.isMoment(period) ? { start: period, end: period } : period;
+        return { start: start.clone().startOf('day'), end: end.clone().endOf('day') };
+    }
+
+    /**
+     * A note's path, name and wiki link, the link shown without folder and extension
+     */
+    private static fileFields(filePath: string): { path: string, name: string, link: string } {
+        const name = (filePath.split('/').pop() || filePath).replace(/\.md$/, '');
+        return { path: filePath, name, link: `[[${filePath.replace(/\.md$/, '')}|${name}]]` };
+    }
+
+    private static change(added = 0, removed = 0): { added: number, removed: number, net: number } {
+        return { added, removed, net: added - removed };
+    }
+
+    private static capitalize(text: string): string {
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+
+    /**
+     * Whether a report covers only part of the recorded activity
+     */
+    private static isSubset(options: ReportOptions): boolean {
+        return !!options.folder || (!!options.filter && !options.filter.isEmpty());
+    }
+
+    private static inFolder(filePath: string, folder?: string): boolean {
+        if (!folder) return true;
+        return filePath.startsWith(folder.replace(/\/+$/, '') + '/');
+    }
+}
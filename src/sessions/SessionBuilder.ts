@@ -0,0 +1,178 @@
+import { FileEvent } from '../database/ActivityDatabase';
+
+export interface ActivitySession {
+    id: string;              // `${filePath}@${start}`
+    filePath: string;
+    date: string;            // YYYY-MM-DD of the session start
+    start: number;
+    end: number;
+    activeDuration: number;  // in milliseconds
+    eventCount: number;
+}
+
+export interface SessionOptions {
+    idleThreshold: number;   // gap (ms) after which a new session starts
+}
+
+interface OpenSession {
+    session: ActivitySession;
+    focused: boolean;        // between a focus and the matching blur/close
+}
+
+/**
+ * Groups consecutive events on the same file into reading/editing sessions.
+ *
+ * An event continues the file's current session when it falls within the idle
+ * threshold of the previous one; the time in between counts as active. While a
+ * file has focus, longer gaps still count (up to MAX_FOCUSED_GAP) since reading
+ * doesn't generate events.
+ */
+export class SessionBuilder {
+    private static MAX_FOCUSED_GAP = 30 * 60 * 1000; // 30 minutes
+
+    private openSessions: Map<string, OpenSession> = new Map();
+
+    /**
+     * Derive session options from the modify batching settings. While typing, a
+     * batched modify is recorded at least every `modifyMaxBatchDuration`, and only
+     * after `modifyInactivityThreshold` of quiet, so a longer gap means the user
+     * stopped working on the file.
+     */
+    public static optionsFromSettings(settings: { modifyInactivityThreshold: number, modifyMaxBatchDuration: number }): SessionOptions {
+        return {
+            idleThreshold: settings.modifyInactivityThreshold + settings.modifyMaxBatchDuration
+        };
+    }
+
+    /**
+     * Backfilled events only mark when a file changed, not how long it was worked
+     * on, so they never form sessions
+     */
+    public static isSessionEvent(event: FileEvent): boolean {
+        return event.source !== 'backfill';
+    }
+
+    /**
+     * Build sessions from a list of events in one pass
+     */
+    public static buildSessions(events: FileEvent[], options: SessionOptions): ActivitySession[] {
+        const builder = new SessionBuilder();
+        const sessions: Map<string, ActivitySession> = new Map();
+
+        events
+            .filter(SessionBuilder.isSessionEvent)
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(event => {
+                const session = builder.addEvent(event, options);
+                sessions.set(session.id, session);
+            });
+
+        return Array.from(sessions.values());
+    }
+
+    /**
+     * Add an event, returning the session it was folded into
+     */
+    public addEvent(event: FileEvent, options: SessionOptions): ActivitySession {
+        // Batched modify events cover the whole batch, not just the moment they were recorded
+        const batchStart = event.eventType === 'modify' ? event.contentDiff?.batchStartTime : undefined;
+        const spanStart = batchStart && batchStart <= event.timestamp ? batchStart : event.timestamp;
+
+        // A note that moves keeps its session going under the new path; the id is
+        // unchanged so the stored session is updated in place
+        if (event.eventType === 'rename' && event.oldPath && this.openSessions.has(event.oldPath)) {
+            const moved = this.openSessions.get(event.oldPath)!;
+            this.openSessions.delete(event.oldPath);
+            moved.session.filePath = event.filePath;
+            this.openSessions.set(event.filePath, moved);
+        }
+
+        let open = this.openSessions.get(event.filePath);
+
+        if (open) {
+            const gap = spanStart - open.session.end;
+            const maxGap = open.focused ? Math.max(options.idleThreshold, SessionBuilder.MAX_FOCUSED_GAP) : options.idleThreshold;
+            if (gap > maxGap) {
+                open = null;
+            }
+        }
+
+        if (open) {
+            const session = open.session;
+            if (event.timestamp > session.end) {
+                session.activeDuration += event.timestamp - session.end;
+                session.end = event.timestamp;
+            }
+            session.eventCount++;
+        } else {
+            open = {
+                session: {
+                    id: `${event.filePath}@${spanStart}`,
+                    filePath: event.filePath,
+                    date: SessionBuilder.formatDate(spanStart),
+                    start: spanStart,
+                    end: event.timestamp,
+                    activeDuration: event.timestamp - spanStart,
+                    eventCount: 1
+                },
+                focused: false
+            };
+            this.openSessions.set(event.filePath, open);
+        }
+
+        if (event.eventType === 'focus') {
+            open.focused = true;
+        } else if (event.eventType === 'blur' || event.eventType === 'close') {
+            open.focused = false;
+        }
+
+        if (event.eventType === 'delete') {
+            this.openSessions.delete(event.filePath);
+        }
+
+        return { ...open.session };
+    }
+
+    /**
+     * Total active time per file, sorted by time spent (descending)
+     */
+    public static summarizeByFile(sessions: ActivitySession[]): { filePath: string, sessions: number, activeDuration: number }[] {
+        const byFile: Record<string, { filePath: string, sessions: number, activeDuration: number }> = {};
+
+        sessions.forEach(session => {
+            if (!byFile[session.filePath]) {
+                byFile[session.filePath] = { filePath: session.filePath, sessions: 0, activeDuration: 0 };
+            }
+            byFile[session.filePath].sessions++;
+            byFile[session.filePath].activeDuration += session.activeDuration;
+        });
+
+        return Object.values(byFile).sort((a, b) => b.activeDuration - a.activeDuration);
+    }
+
+    /**
+     * Format a duration as e.g. "1h 05m", "12m" or "45s"
+     */
+    public static formatDuration(ms: number): string {
+        const totalSeconds = Math.round(ms / 1000);
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = totalSeconds % 60;
+
+        if (hours > 0) {
+            return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+        }
+        if (minutes > 0) {
+            return `${minutes}m`;
+        }
+        return `${seconds}s`;
+    }
+
+    private static formatDate(timestamp: number): string {
+        const date = new Date(timestamp);
+        const year = date.getFullYear();
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${year}-${month}-${day}`;
+    }
+}
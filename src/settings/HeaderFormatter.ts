@@ -1,9 +1,11 @@
 import { Moment } from "moment";
+import { TemplateEngine } from "../templates/TemplateEngine";
 
 export class HeaderFormatter {
+    /**
+     * Fill in {type} and {date}; the date takes a format, e.g. {date:MMM D}
+     */
     static formatHeader(template: string, type: string, date: Moment): string {
-        return template
-            .replace('{type}', type)
-            .replace('{date}', date.format('YYYY-MM-DD'));
+        return TemplateEngine.render(template, { type, date });
     }
-} 
\ No newline at end of file
+}
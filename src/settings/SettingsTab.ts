@@ -1,7 +1,14 @@
-import { App, PluginSettingTab, Setting, TextAreaComponent, DropdownComponent, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, TextAreaComponent, TextComponent, DropdownComponent, Notice } from 'obsidian';
 import DailyActivityPlugin from '../main';
 import { LogLevel } from '../Logger';
+import { StorageBackend } from '../database/ActivityStore';
+import { DeviceIdentity } from '../sync/DeviceIdentity';
+import { RollupGranularity } from '../database/EventCompactor';
+import { ActivityGoal, GoalMetric, GoalPeriod, GoalTracker } from '../goals/GoalTracker';
+import { DailyNoteSectionSchedule } from '../dailynotes/DailyNoteAutomation';
 import { DailyActivitySettings } from '../settings';
+import { FilterQuery } from '../filters/FilterQuery';
+import { PathPatterns } from '../filters/PathPatterns';
 
 export class DailyActivitySettingsTab extends PluginSettingTab {
     plugin: DailyActivityPlugin;
@@ -66,7 +73,7 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Header template')
-            .setDesc('Template for the header. Use {type} for file type (Created/Modified) and {date} for date')
+            .setDesc('Template for the header. Use {type} for file type (Created/Modified) and {date} for date; add a format for the date, e.g. {date:MMM D}')
             .addText(text => text
                 .setPlaceholder('## Files {type} on {date}')
                 .setValue(this.plugin.settings.headerStyle)
@@ -85,6 +92,115 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Show status bar')
+            .setDesc("Show today's words written, files touched and current streak in the status bar. Click it for the Daily Summary.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showStatusBar)
+                .onChange(async (value) => {
+                    this.plugin.settings.showStatusBar = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.statusBar?.setVisible(value);
+                }));
+
+        // Goals Section
+        containerEl.createEl('h3', { text: 'Goals' });
+        const goalsSection = containerEl.createDiv();
+
+        new Setting(goalsSection)
+            .setName('Goal notifications')
+            .setDesc('Show a notice when a goal is met')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.goalNotifications)
+                .onChange(async (value) => {
+                    this.plugin.settings.goalNotifications = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const goalListEl = goalsSection.createDiv();
+        this.displayGoals(goalListEl);
+
+        // Daily Notes Section
+        containerEl.createEl('h3', { text: 'Daily Notes' });
+        const dailyNoteSection = containerEl.createDiv();
+
+        new Setting(dailyNoteSection)
+            .setName("Add activity to yesterday's daily note")
+            .setDesc("Write the files created and modified plus the Daily Summary into the previous day's daily note, found through the Daily Notes or Periodic Notes settings. The section is replaced on each run rather than added again.")
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('rollover', 'When the day changes')
+                .addOption('time', 'At a set time')
+                .setValue(this.plugin.settings.dailyNoteSectionSchedule)
+                .onChange(async (value: DailyNoteSectionSchedule) => {
+                    this.plugin.settings.dailyNoteSectionSchedule = value;
+                    await this.plugin.saveSettings();
+                    dailyNoteSection.querySelectorAll('.daily-note-setting').forEach(el => {
+                        (el as HTMLElement).style.display = value === 'time' ? '' : 'none';
+                    });
+                    this.plugin.dailyNoteAutomation.runIfDue();
+                }))
+            .addButton(button => button
+                .setButtonText('Update now')
+                .onClick(async () => {
+                    try {
+                        const updated = await this.plugin.dailyNoteAutomation.updateDailyNote(window.moment().subtract(1, 'day'));
+                        new Notice(updated ? "Updated yesterday's daily note" : 'No daily note found for yesterday');
+                    } catch (error) {
+                        console.error('Failed to update daily note:', error);
+                        new Notice('Failed to update the daily note. Check console for details.');
+                    }
+                }));
+
+        new Setting(dailyNoteSection)
+            .setName('Time')
+            .setDesc('When to update the daily note each day (HH:mm)')
+            .setClass('daily-note-setting')
+            .addText(text => text
+                .setPlaceholder('06:00')
+                .setValue(this.plugin.settings.dailyNoteSectionTime)
+                .onChange(async (value) => {
+                    if (window.moment(value, 'HH:mm', true).isValid()) {
+                        this.plugin.settings.dailyNoteSectionTime = value;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        dailyNoteSection.querySelectorAll('.daily-note-setting').forEach(el => {
+            (el as HTMLElement).style.display = this.plugin.settings.dailyNoteSectionSchedule === 'time' ? '' : 'none';
+        });
+
+        // Report Templates Section
+        containerEl.createEl('h3', { text: 'Report Templates' });
+        const templatesSection = containerEl.createDiv();
+
+        new Setting(templatesSection)
+            .setName('Template folder')
+            .setDesc('Folder with your own report templates: daily-summary.md, weekly-overview.md, timeline.md, most-active-files.md and file-list.md. Reports without a template file use the built-in one.')
+            .addText(text => text
+                .setPlaceholder('Templates/Activity')
+                .setValue(this.plugin.settings.reportTemplateFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.reportTemplateFolder = value.trim().replace(/\/+$/, '');
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(button => button
+                .setButtonText('Create templates')
+                .setTooltip('Write the built-in templates to the folder, keeping any that already exist')
+                .onClick(async () => {
+                    if (!this.plugin.settings.reportTemplateFolder) {
+                        new Notice('Set a template folder first');
+                        return;
+                    }
+                    try {
+                        const written = await this.plugin.reportTemplates.writeDefaults();
+                        new Notice(written > 0 ? `Created ${written} report templates` : 'All report templates already exist');
+                    } catch (error) {
+                        console.error('Failed to create report templates:', error);
+                        new Notice('Failed to create report templates. Check console for details.');
+                    }
+                }));
+
         // Dashboard Settings Section - Moved up
         containerEl.createEl('h3', { text: 'Dashboard Settings' });
         const dashboardSection = containerEl.createDiv();
@@ -207,6 +323,7 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
 
         // Filter Settings Section
         containerEl.createEl('h3', { text: 'Filter Settings' });
+        let filterQueryText: TextComponent | null = null;
 
         new Setting(containerEl)
             .setName('Show filter dialog')
@@ -222,11 +339,13 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
                         this.plugin.settings.excludeRegex = [];
                         this.plugin.settings.includePaths = [];
                         this.plugin.settings.excludePaths = [];
+                        this.plugin.settings.filterQuery = '';
 
                         // Clear all textareas
                         this.textareas.forEach(textarea => {
                             textarea.setValue('');
                         });
+                        filterQueryText?.setValue('');
                     }
 
                     // Toggle filter settings visibility
@@ -268,7 +387,7 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
         // Include paths
         const includePathsSetting = new Setting(containerEl)
             .setName('Include paths')
-            .setDesc('Files containing these path segments will be included (one path per line)')
+            .setDesc('Files matching these patterns, e.g. Projects/**, will be included (one per line)')
             .addTextArea(textarea => {
                 this.setupTextarea(textarea);
                 textarea.setValue(this.plugin.settings.includePaths.join('\n'))
@@ -283,7 +402,7 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
         // Exclude paths
         const excludePathsSetting = new Setting(containerEl)
             .setName('Exclude paths')
-            .setDesc('Files containing these path segments will be excluded (one path per line)')
+            .setDesc('Files matching these patterns, e.g. Templates/**, will be excluded; !pattern brings back files an earlier line excluded (one per line)')
             .addTextArea(textarea => {
                 this.setupTextarea(textarea);
                 textarea.setValue(this.plugin.settings.excludePaths.join('\n'))
@@ -295,24 +414,46 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
             });
         this.filterSettings.push(excludePathsSetting);
 
+        // Filter expression
+        const filterQueryDesc = 'Files and events must also match this filter, e.g. path:Projects/ -tag:#archive. Applies to reports as well as file lists.';
+        const filterQuerySetting = new Setting(containerEl)
+            .setName('Filter')
+            .addText(text => {
+                filterQueryText = text;
+                text.setPlaceholder('path:Projects/ -tag:#archive')
+                    .setValue(this.plugin.settings.filterQuery)
+                    .onChange(async (value) => {
+                        this.plugin.settings.filterQuery = value.trim();
+                        this.describeFilter(filterQuerySetting, filterQueryDesc, value);
+                        await this.plugin.saveSettings();
+                    });
+            });
+        this.describeFilter(filterQuerySetting, filterQueryDesc, this.plugin.settings.filterQuery);
+
         // Add filter settings to array for easy toggling
         this.filterSettings = [
             includeRegexSetting,
             excludeRegexSetting,
             includePathsSetting,
-            excludePathsSetting
+            excludePathsSetting,
+            filterQuerySetting
         ];
 
         // Initial state for filter settings
         this.toggleFilterSettings(!this.plugin.settings.showFilterDialog);
 
+        // Saved Filters Section
+        containerEl.createEl('h3', { text: 'Saved Filters' });
+        const savedFiltersSection = containerEl.createDiv();
+        this.displaySavedFilters(savedFiltersSection);
+
         // Activity Tracking Section
         containerEl.createEl('h3', { text: 'Activity Tracking Settings' });
         this.activityTrackingSection = containerEl.createDiv();
 
         new Setting(this.activityTrackingSection)
             .setName('Enable Activity Tracking')
-            .setDesc('Track file creation, modification, deletion, and renames')
+            .setDesc('Track file creation, modification, deletion, renames, and when files are opened or focused')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.enableActivityTracking)
                 .onChange(async (value) => {
@@ -369,6 +510,28 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
             .addExtraButton(button => button
                 .setTooltip('Track file rename')
                 .setIcon('file-symlink')
+                .setDisabled(true))
+            .addToggle(toggle => toggle
+                .setTooltip('Track file open and close')
+                .setValue(this.plugin.settings.trackFileOpen)
+                .onChange(async (value) => {
+                    this.plugin.settings.trackFileOpen = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setTooltip('Track file open and close')
+                .setIcon('book-open')
+                .setDisabled(true))
+            .addToggle(toggle => toggle
+                .setTooltip('Track file focus and blur')
+                .setValue(this.plugin.settings.trackFileFocus)
+                .onChange(async (value) => {
+                    this.plugin.settings.trackFileFocus = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setTooltip('Track file focus and blur')
+                .setIcon('eye')
                 .setDisabled(true));
 
         // Debounce intervals
@@ -414,6 +577,16 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(this.activityTrackingSection)
+            .setName('Write activity to frontmatter')
+            .setDesc('Keep activity_edits, activity_last_edited, activity_words_added and activity_time_spent (minutes) in the frontmatter of tracked notes, for sorting in Dataview or Bases. Updated at most once per database write interval, after a note is edited; notes that are only read are never rewritten.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enrichFrontmatter)
+                .onChange(async (value) => {
+                    this.plugin.settings.enrichFrontmatter = value;
+                    await this.plugin.saveSettings();
+                }));
+
         // Batch modification settings
         this.activityTrackingSection.createEl('h4', { text: 'Batch Modification Settings' });
 
@@ -471,16 +644,18 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
 
         // Path filtering
         this.activityTrackingSection.createEl('h4', { text: 'Activity Tracking Filters' });
+        let refreshPatternTest = () => {};
 
         // Include paths for activity tracking
         const includeActivityPathsSetting = new Setting(this.activityTrackingSection)
             .setName('Include paths')
-            .setDesc('Only track files in these paths (one path per line, leave empty to include all)')
+            .setDesc('Only track files matching these patterns, e.g. Projects/** (one per line, leave empty to include all)')
             .addTextArea(textarea => {
                 this.setupTextarea(textarea);
                 textarea.setValue(this.plugin.settings.activityTrackingIncludePaths.join('\n'))
                     .onChange(async (value) => {
                         this.plugin.settings.activityTrackingIncludePaths = this.parseTextareaLines(value);
+                        refreshPatternTest();
                         await this.plugin.saveSettings();
                     });
             });
@@ -489,17 +664,234 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
         // Exclude paths for activity tracking
         const excludeActivityPathsSetting = new Setting(this.activityTrackingSection)
             .setName('Exclude paths')
-            .setDesc('Do not track files in these paths (one path per line)')
+            .setDesc('Do not track files matching these patterns, e.g. Templates/** or **/*.excalidraw.md; !Templates/Keep/** tracks files an earlier line excluded (one per line)')
             .addTextArea(textarea => {
                 this.setupTextarea(textarea);
                 textarea.setValue(this.plugin.settings.activityTrackingExcludePaths.join('\n'))
                     .onChange(async (value) => {
                         this.plugin.settings.activityTrackingExcludePaths = this.parseTextareaLines(value);
+                        refreshPatternTest();
                         await this.plugin.saveSettings();
                     });
             });
         this.activityFilterSettings.push(excludeActivityPathsSetting);
 
+        // Try patterns against the vault's files
+        let testPatterns: string[] = [];
+        const patternTestSetting = new Setting(this.activityTrackingSection)
+            .setName('Test patterns')
+            .setDesc('Shows which files patterns match, one per line. Leave empty to see the files the include and exclude paths track.')
+            .addTextArea(textarea => {
+                this.setupTextarea(textarea);
+                textarea.setPlaceholder('Templates/**\n!Templates/Keep/**')
+                    .onChange(value => {
+                        testPatterns = this.parseTextareaLines(value);
+                        refreshPatternTest();
+                    });
+            });
+        const patternPreviewEl = patternTestSetting.descEl.createDiv({ cls: 'daily-activity-pattern-preview' });
+        refreshPatternTest = () => this.showPatternMatches(patternPreviewEl, testPatterns);
+        refreshPatternTest();
+        this.activityFilterSettings.push(patternTestSetting);
+
+        // Filter expression for activity tracking
+        const trackingFilterDesc = 'Only record events matching this filter, e.g. -ext:canvas -(type:open OR type:close) or tag:#work. Tags, properties and links are checked as the note is when the event happens; size terms such as words>50 are not checked when recording.';
+        const trackingFilterSetting = new Setting(this.activityTrackingSection)
+            .setName('Tracking filter')
+            .addText(text => text
+                .setPlaceholder('-folder:Archive')
+                .setValue(this.plugin.settings.activityTrackingFilter)
+                .onChange(async (value) => {
+                    this.plugin.settings.activityTrackingFilter = value.trim();
+                    this.describeFilter(trackingFilterSetting, trackingFilterDesc, value);
+                    await this.plugin.saveSettings();
+                }));
+        this.describeFilter(trackingFilterSetting, trackingFilterDesc, this.plugin.settings.activityTrackingFilter);
+        this.activityFilterSettings.push(trackingFilterSetting);
+
+        // Storage Settings
+        containerEl.createEl('h3', { text: 'Storage Settings' });
+        const storageSection = containerEl.createDiv();
+
+        new Setting(storageSection)
+            .setName('Storage backend')
+            .setDesc('Where activity history is stored. Existing history is not copied when switching.')
+            .addDropdown(dropdown => dropdown
+                .addOption('indexeddb', 'Browser database (this device only)')
+                .addOption('vault-file', 'File in vault (syncs with vault)')
+                .addOption('memory', 'Memory (cleared on restart)')
+                .setValue(this.plugin.settings.storageBackend)
+                .onChange(async (value: StorageBackend) => {
+                    this.plugin.settings.storageBackend = value;
+                    await this.plugin.saveSettings();
+                    vaultStorePathSetting.settingEl.style.display = value === 'vault-file' ? '' : 'none';
+                    await this.reopenStorage();
+                }));
+
+        const vaultStorePathSetting = new Setting(storageSection)
+            .setName('Activity log path')
+            .setDesc('JSONL file in your vault that activity is appended to. It syncs along with the rest of your vault.')
+            .addText(text => {
+                text.setValue(this.plugin.settings.vaultStorePath)
+                    .setPlaceholder('Daily Activity/activity-log.jsonl')
+                    .onChange(async (value) => {
+                        this.plugin.settings.vaultStorePath = value;
+                        await this.plugin.saveSettings();
+                    });
+                // Only switch files once editing is finished, not on every keystroke
+                text.inputEl.addEventListener('change', () => this.reopenStorage());
+            });
+
+        vaultStorePathSetting.settingEl.style.display = this.plugin.settings.storageBackend === 'vault-file' ? '' : 'none';
+
+        // Retention Settings
+        containerEl.createEl('h3', { text: 'Data Retention' });
+        const retentionSection = containerEl.createDiv();
+
+        new Setting(retentionSection)
+            .setName('Compact old activity')
+            .setDesc('Roll detailed events up into per-file summaries once they are older than the retention period. Reports and the dashboard keep working for older dates.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.retentionEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.retentionEnabled = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.setupCompactionInterval();
+                    retentionSection.querySelectorAll('.retention-setting').forEach(el => {
+                        (el as HTMLElement).style.display = value ? '' : 'none';
+                    });
+                }));
+
+        new Setting(retentionSection)
+            .setName('Keep detailed events for (days)')
+            .setDesc('Events older than this are rolled up')
+            .setClass('retention-setting')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.rawEventRetentionDays))
+                .setPlaceholder('90')
+                .onChange(async (value) => {
+                    const numValue = Number(value);
+                    if (!isNaN(numValue) && numValue >= 7) {
+                        this.plugin.settings.rawEventRetentionDays = numValue;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(retentionSection)
+            .setName('Rollup granularity')
+            .setDesc('How finely rolled-up activity is kept, per file')
+            .setClass('retention-setting')
+            .addDropdown(dropdown => dropdown
+                .addOption('hour', 'Hourly')
+                .addOption('day', 'Daily')
+                .setValue(this.plugin.settings.rollupGranularity)
+                .onChange(async (value: RollupGranularity) => {
+                    this.plugin.settings.rollupGranularity = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(retentionSection)
+            .setName('Compaction schedule')
+            .setDesc('When to compact old activity')
+            .setClass('retention-setting')
+            .addDropdown(dropdown => dropdown
+                .addOption('startup', 'At startup')
+                .addOption('daily', 'At startup and daily')
+                .setValue(this.plugin.settings.compactionSchedule)
+                .onChange(async (value: 'startup' | 'daily') => {
+                    this.plugin.settings.compactionSchedule = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.setupCompactionInterval();
+                }))
+            .addButton(button => button
+                .setButtonText('Compact now')
+                .onClick(() => this.plugin.compactActivityHistory(true)));
+
+        retentionSection.querySelectorAll('.retention-setting').forEach(el => {
+            (el as HTMLElement).style.display = this.plugin.settings.retentionEnabled ? '' : 'none';
+        });
+
+        // History Backfill Settings
+        containerEl.createEl('h3', { text: 'History Backfill' });
+        const backfillSection = containerEl.createDiv();
+
+        new Setting(backfillSection)
+            .setName('Include backfilled history in reports')
+            .setDesc('Count activity reconstructed from file dates and git history in reports and the dashboard. Backfilled events never count towards time spent. Reading git history needs the desktop app and git installed on your PATH.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.includeBackfillInReports)
+                .onChange(async (value) => {
+                    this.plugin.settings.includeBackfillInReports = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(button => button
+                .setButtonText('Backfill now')
+                .onClick(() => this.plugin.backfillHistory()));
+
+        // Sync Settings
+        containerEl.createEl('h3', { text: 'Cross-device Sync' });
+        const syncSection = containerEl.createDiv();
+
+        new Setting(syncSection)
+            .setName('Enable cross-device sync')
+            .setDesc('Write the activity recorded on this device to a log file in your vault, and merge the logs written by your other devices')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncEnabled = value;
+                    await this.plugin.saveSettings();
+                    syncSection.querySelectorAll('.sync-setting').forEach(el => {
+                        (el as HTMLElement).style.display = value ? '' : 'none';
+                    });
+                    if (value) {
+                        await this.syncNow();
+                    }
+                }));
+
+        new Setting(syncSection)
+            .setName('Sync folder')
+            .setDesc('Vault folder holding one log file per device')
+            .setClass('sync-setting')
+            .addText(text => text
+                .setValue(this.plugin.settings.syncFolder)
+                .setPlaceholder('Daily Activity/devices')
+                .onChange(async (value) => {
+                    this.plugin.settings.syncFolder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(syncSection)
+            .setName('Device name')
+            .setDesc('Identifies this device in logs and reports. Stored on this device only.')
+            .setClass('sync-setting')
+            .addText(text => {
+                text.setValue(this.plugin.database.getDeviceId())
+                    .setPlaceholder('laptop');
+                // Renaming starts a new log file, so only apply it once editing is finished
+                text.inputEl.addEventListener('change', () => {
+                    const deviceId = DeviceIdentity.sanitize(text.getValue());
+                    if (!deviceId) {
+                        new Notice('Device name must contain letters or numbers');
+                        text.setValue(this.plugin.database.getDeviceId());
+                        return;
+                    }
+                    DeviceIdentity.setDeviceId(this.app, deviceId);
+                    text.setValue(deviceId);
+                });
+            });
+
+        new Setting(syncSection)
+            .setName('Sync now')
+            .setDesc('Merge activity from your other devices immediately')
+            .setClass('sync-setting')
+            .addButton(button => button
+                .setButtonText('Sync now')
+                .onClick(() => this.syncNow()));
+
+        syncSection.querySelectorAll('.sync-setting').forEach(el => {
+            (el as HTMLElement).style.display = this.plugin.settings.syncEnabled ? '' : 'none';
+        });
+
         // Export Settings
         containerEl.createEl('h3', { text: 'Data Export Settings' });
         this.exportSettingsSection = containerEl.createDiv();
@@ -544,8 +936,9 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
         // Export field selection
         const availableFields = [
             'timestamp', 'eventType', 'filePath', 'oldPath',
-            'added', 'removed', 'wordCountBefore', 'wordCountAfter',
-            'charCountBefore', 'charCountAfter'
+            'added', 'removed', 'linesAdded', 'linesRemoved',
+            'wordsAdded', 'wordsRemoved', 'wordCountBefore', 'wordCountAfter',
+            'charCountBefore', 'charCountAfter', 'deviceId', 'eventId', 'source'
         ];
 
         new Setting(this.exportSettingsSection)
@@ -614,6 +1007,29 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
         });
     }
 
+    /**
+     * List the vault files matching test patterns, or with none, the files the
+     * tracking include and exclude paths let through
+     */
+    private showPatternMatches(previewEl: HTMLElement, lines: string[]): void {
+        const settings = this.plugin.settings;
+        const files = this.app.vault.getFiles().map(file => file.path).sort();
+        let matching: string[];
+        if (lines.length > 0) {
+            const patterns = PathPatterns.parse(lines);
+            matching = files.filter(path => patterns.matches(path));
+        } else {
+            const tracked = FilterQuery.fromLists({ includePaths: settings.activityTrackingIncludePaths, excludePaths: settings.activityTrackingExcludePaths });
+            matching = files.filter(path => tracked.matchesPath(path));
+        }
+
+        previewEl.empty();
+        previewEl.createDiv({ text: `${matching.length} of ${files.length} files ${lines.length > 0 ? 'match' : 'are tracked'}` });
+        const listEl = previewEl.createEl('ul');
+        matching.slice(0, 10).forEach(path => listEl.createEl('li', { text: path }));
+        if (matching.length > 10) listEl.createEl('li', { text: `and ${matching.length - 10} more` });
+    }
+
     // Helper method to set up textarea components
     private setupTextarea(textarea: TextAreaComponent): void {
         textarea.inputEl.rows = 4;
@@ -627,6 +1043,160 @@ export class DailyActivitySettingsTab extends PluginSettingTab {
             .filter(line => line.length > 0);
     }
 
+    /**
+     * Show a filter setting's description, with what's wrong when the filter is invalid
+     */
+    private describeFilter(setting: Setting, description: string, query: string): void {
+        const error = this.plugin.filters.validate(query);
+        setting.setDesc(error === null ? description : [description, `Invalid filter: ${error}`].filter(text => text).join(' '));
+        setting.descEl.toggleClass('mod-warning', error !== null);
+    }
+
+    /**
+     * One row per saved filter, plus a button to add another
+     */
+    private displaySavedFilters(containerEl: HTMLElement): void {
+        containerEl.empty();
+
+        this.plugin.settings.savedFilters.forEach(saved => {
+            const setting = new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(saved.name)
+                    .onChange(async (value) => {
+                        // Names are used as @name, so they can't contain spaces
+                        saved.name = value.trim().replace(/\s+/g, '-');
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => {
+                    text.inputEl.addClass('daily-activity-filter-input');
+                    text.setPlaceholder('path:Projects/ -tag:#archive')
+                        .setValue(saved.query)
+                        .onChange(async (value) => {
+                            saved.query = value.trim();
+                            this.describeFilter(setting, '', value);
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove filter')
+                    .onClick(async () => {
+                        this.plugin.settings.savedFilters = this.plugin.settings.savedFilters.filter(other => other !== saved);
+                        await this.plugin.saveSettings();
+                        this.displaySavedFilters(containerEl);
+                    }));
+            this.describeFilter(setting, '', saved.query);
+        });
+
+        new Setting(containerEl)
+            .setDesc('Named filters can be used in any filter as @name, e.g. @work type:modify, and picked from the filter dialogs.')
+            .addButton(button => button
+                .setButtonText('Add filter')
+                .onClick(async () => {
+                    this.plugin.settings.savedFilters = [...this.plugin.settings.savedFilters, { name: '', query: '' }];
+                    await this.plugin.saveSettings();
+                    this.displaySavedFilters(containerEl);
+                }));
+    }
+
+    /**
+     * One row per goal, plus a button to add another
+     */
+    private displayGoals(containerEl: HTMLElement): void {
+        containerEl.empty();
+
+        this.plugin.settings.goals.forEach(goal => {
+            const setting = new Setting(containerEl)
+                .setName(GoalTracker.describe(goal))
+                .addDropdown(dropdown => dropdown
+                    .addOption('words', 'Words written')
+                    .addOption('notes', 'Notes created')
+                    .addOption('minutes', 'Minutes active')
+                    .setValue(goal.metric)
+                    .onChange(async (value: GoalMetric) => {
+                        goal.metric = value;
+                        await this.saveGoal(goal, setting);
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('daily', 'Per day')
+                    .addOption('weekly', 'Per week')
+                    .setValue(goal.period)
+                    .onChange(async (value: GoalPeriod) => {
+                        goal.period = value;
+                        await this.saveGoal(goal, setting);
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Target')
+                    .setValue(String(goal.target))
+                    .onChange(async (value) => {
+                        const target = parseInt(value);
+                        if (!isNaN(target) && target > 0) {
+                            goal.target = target;
+                            await this.saveGoal(goal, setting);
+                        }
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Folder (optional)')
+                    .setValue(goal.folder)
+                    .onChange(async (value) => {
+                        goal.folder = value.trim();
+                        await this.saveGoal(goal, setting);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove goal')
+                    .onClick(async () => {
+                        this.plugin.settings.goals = this.plugin.settings.goals.filter(other => other.id !== goal.id);
+                        await this.saveGoal(null, null);
+                        this.displayGoals(containerEl);
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setDesc('Words written and notes created are counted from recorded events, minutes from active time in sessions. Leave the folder empty to count the whole vault.')
+            .addButton(button => button
+                .setButtonText('Add goal')
+                .onClick(async () => {
+                    this.plugin.settings.goals = [...this.plugin.settings.goals, GoalTracker.createGoal()];
+                    await this.saveGoal(null, null);
+                    this.displayGoals(containerEl);
+                }));
+    }
+
+    private async saveGoal(goal: ActivityGoal | null, setting: Setting | null): Promise<void> {
+        if (goal && setting) {
+            setting.setName(GoalTracker.describe(goal));
+        }
+        await this.plugin.saveSettings();
+        // Streaks depend on which daily goals there are
+        this.plugin.goalTracker.invalidate();
+        this.plugin.statusBar.refreshStreak();
+    }
+
+    /**
+     * Switch the plugin's database to the storage backend now selected
+     */
+    private async reopenStorage(): Promise<void> {
+        try {
+            await this.plugin.database.reopen();
+            new Notice('Activity storage switched');
+        } catch (error) {
+            console.error('Failed to open activity storage:', error);
+            new Notice('Failed to open activity storage. Check console for details.');
+        }
+    }
+
+    private async syncNow(): Promise<void> {
+        try {
+            const merged = await this.plugin.activitySync.syncNow();
+            new Notice(`Merged ${merged} events from other devices`);
+        } catch (error) {
+            console.error('Failed to sync activity:', error);
+            new Notice('Failed to sync activity. Check console for details.');
+        }
+    }
+
     private async generateDashboard(): Promise<void> {
         try {
             await this.plugin.generateDashboard();
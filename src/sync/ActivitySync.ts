@@ -0,0 +1,207 @@
+import { App, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+import { debounce } from 'lodash';
+import { ActivityDatabase, FileEvent } from '../database/ActivityDatabase';
+import { JsonlLog } from '../database/JsonlLog';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Shares activity between devices through the vault. Each device appends the
+ * events it records to its own `<deviceId>.jsonl` log in the sync folder, and
+ * merges the other devices' logs into its local store, skipping events it has
+ * already seen (by eventId).
+ */
+export class ActivitySync {
+    private app: App;
+    private plugin: DailyActivityPlugin;
+    private database: ActivityDatabase;
+    private knownEventIds: Set<string> | null = null;
+    private pendingMerges: Set<string> = new Set();
+    private localLog: JsonlLog | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+        this.database = plugin.database;
+    }
+
+    /**
+     * Start syncing: write this device's log if it doesn't exist yet, merge the
+     * other devices' logs and watch them for changes
+     */
+    public async start(): Promise<void> {
+        this.plugin.registerEvent(this.database.on('event-recorded', (event: FileEvent) => {
+            this.appendEvent(event);
+        }));
+        // Events imported from an export may also be in another device's log
+        this.plugin.registerEvent(this.database.on('events-imported', (events: FileEvent[]) => {
+            events.forEach(event => event.eventId && this.knownEventIds?.add(event.eventId));
+        }));
+
+        const onRemoteLogChange = (file: TAbstractFile) => {
+            if (!this.isEnabled() || !(file instanceof TFile) || !this.isRemoteLog(file.path)) return;
+            this.pendingMerges.add(file.path);
+            this.mergePending();
+        };
+        this.plugin.registerEvent(this.app.vault.on('create', onRemoteLogChange));
+        this.plugin.registerEvent(this.app.vault.on('modify', onRemoteLogChange));
+
+        if (this.isEnabled()) {
+            await this.syncNow();
+        }
+    }
+
+    /**
+     * Write this device's log if needed and merge all other logs
+     */
+    public async syncNow(): Promise<number> {
+        return this.enqueue(async () => {
+            await this.writeInitialLog();
+
+            let merged = 0;
+            for (const path of this.listRemoteLogs()) {
+                merged += await this.mergeLog(path);
+            }
+            if (merged > 0) {
+                this.plugin.logger.info(`Merged ${merged} events from other devices`);
+            }
+            return merged;
+        });
+    }
+
+    /**
+     * Run sync work one task at a time so merges never race each other
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(error => {
+            this.plugin.logger.error('Activity sync failed:', error);
+        });
+        return result;
+    }
+
+    public isEnabled(): boolean {
+        return this.plugin.settings.syncEnabled;
+    }
+
+    public getSyncFolder(): string {
+        return normalizePath(this.plugin.settings.syncFolder);
+    }
+
+    /**
+     * Whether a path is one of the device logs, which are never tracked as activity
+     */
+    public isSyncLog(path: string): boolean {
+        return path.startsWith(this.getSyncFolder() + '/') && path.endsWith('.jsonl');
+    }
+
+    private isRemoteLog(path: string): boolean {
+        return this.isSyncLog(path) && path !== this.getLocalLog().path;
+    }
+
+    private getLocalLog(): JsonlLog {
+        // Reuse the same log so appends stay queued in order
+        const path = normalizePath(`${this.getSyncFolder()}/${this.database.getDeviceId()}.jsonl`);
+        if (!this.localLog || this.localLog.path !== path) {
+            this.localLog = new JsonlLog(this.app.vault.adapter, path, this.plugin.logger);
+        }
+        return this.localLog;
+    }
+
+    private listRemoteLogs(): string[] {
+        const folder = this.app.vault.getAbstractFileByPath(this.getSyncFolder());
+        if (!(folder instanceof TFolder)) return [];
+
+        return folder.children
+            .filter(child => child instanceof TFile && this.isRemoteLog(child.path))
+            .map(child => child.path);
+    }
+
+    private appendEvent(event: FileEvent): void {
+        if (!this.isEnabled() || event.deviceId !== this.database.getDeviceId()) return;
+
+        this.knownEventIds?.add(event.eventId!);
+        this.getLocalLog().append([event]).catch(error => {
+            this.plugin.logger.error('Failed to append event to device log:', error);
+        });
+    }
+
+    /**
+     * The first time this device syncs, copy the history it recorded so far into its log
+     */
+    private async writeInitialLog(): Promise<void> {
+        const log = this.getLocalLog();
+        if (await log.exists()) return;
+
+        const localDeviceId = this.database.getDeviceId();
+        const events: FileEvent[] = [];
+        await this.database.iterateEvents({ deviceIds: [localDeviceId], raw: true }, event => {
+            // Store ids are local to each device, so they aren't written to the log
+            const { id, ...rest } = event;
+            events.push({ ...rest, eventId: this.getEventId(event), deviceId: localDeviceId });
+        });
+
+        await log.append(events);
+        this.plugin.logger.info(`Wrote ${events.length} events to ${log.path}`);
+    }
+
+    private mergePending = debounce(() => {
+        const paths = Array.from(this.pendingMerges);
+        this.pendingMerges.clear();
+
+        this.enqueue(async () => {
+            for (const path of paths) {
+                await this.mergeLog(path);
+            }
+        });
+    }, 2000);
+
+    /**
+     * Import the events from another device's log that aren't in the local store yet
+     */
+    private async mergeLog(path: string): Promise<number> {
+        const knownEventIds = await this.getKnownEventIds();
+        const fileDeviceId = path.substring(path.lastIndexOf('/') + 1).replace(/\.jsonl$/, '');
+        const log = new JsonlLog(this.app.vault.adapter, path, this.plugin.logger);
+
+        const newEvents: FileEvent[] = [];
+        for (const { id, ...event } of await log.read()) {
+            if (!event.eventId || knownEventIds.has(event.eventId)) continue;
+            knownEventIds.add(event.eventId);
+            newEvents.push({ ...event, deviceId: event.deviceId || fileDeviceId });
+        }
+
+        if (newEvents.length > 0) {
+            try {
+                await this.database.importEvents(newEvents);
+            } catch (error) {
+                // Let the next merge retry these events
+                newEvents.forEach(event => knownEventIds.delete(event.eventId!));
+                throw error;
+            }
+            this.plugin.logger.debug(`Merged ${newEvents.length} events from ${path}`);
+        }
+
+        return newEvents.length;
+    }
+
+    private async getKnownEventIds(): Promise<Set<string>> {
+        if (!this.knownEventIds) {
+            const ids: Set<string> = new Set();
+            await this.database.iterateEvents({ raw: true }, event => {
+                ids.add(this.getEventId(event));
+                // Compacted events remember the ids of the events they replaced
+                event.rollup?.eventIds.forEach(id => ids.add(id));
+            });
+            this.knownEventIds = ids;
+        }
+        return this.knownEventIds;
+    }
+
+    /**
+     * Events recorded before event ids existed get one derived from their local id
+     */
+    private getEventId(event: FileEvent): string {
+        return event.eventId || `legacy-${event.deviceId || this.database.getDeviceId()}-${event.id}`;
+    }
+}
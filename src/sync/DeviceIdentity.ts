@@ -0,0 +1,36 @@
+import { App } from 'obsidian';
+
+/**
+ * Identifies this device in synced activity logs. The id lives in Obsidian's
+ * per-vault local storage, which is never synced, so every device keeps its own.
+ */
+export class DeviceIdentity {
+    private static STORAGE_KEY = 'daily-activity-device-id';
+
+    public static getDeviceId(app: App): string {
+        let deviceId = app.loadLocalStorage(DeviceIdentity.STORAGE_KEY);
+        if (!deviceId) {
+            deviceId = `device-${Math.random().toString(36).slice(2, 8)}`;
+            app.saveLocalStorage(DeviceIdentity.STORAGE_KEY, deviceId);
+        }
+        return deviceId;
+    }
+
+    public static setDeviceId(app: App, deviceId: string): void {
+        app.saveLocalStorage(DeviceIdentity.STORAGE_KEY, DeviceIdentity.sanitize(deviceId));
+    }
+
+    /**
+     * Device ids are used as file names, so keep them to safe characters
+     */
+    public static sanitize(deviceId: string): string {
+        return deviceId.trim().replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+    }
+
+    /**
+     * Create an id for an event that stays the same across devices and re-imports
+     */
+    public static createEventId(deviceId: string, timestamp: number): string {
+        return `${deviceId}-${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+}
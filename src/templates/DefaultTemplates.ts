@@ -0,0 +1,182 @@
+import { ReportTemplateName } from './ReportTemplates';
+
+/**
+ * Built-in report templates, used when the template folder has no file for a
+ * report. Writing them to the folder gives a starting point for editing.
+ */
+export const DEFAULT_TEMPLATES: Record<ReportTemplateName, string> = {
+    'daily-summary': `# {#if isRange}Activity Summary{else}Daily Activity Summary{/if}
+
+{#if isRange}
+**Period:** {start:YYYY-MM-DD} - {end:YYYY-MM-DD}
+{else}
+**Date:** {date:YYYY-MM-DD}
+{/if}
+
+{#if !hasActivity}
+No activity recorded for {#if isToday}today{else}{#if isRange}this period{else}this day{/if}{/if}.
+
+{else}
+## Activity Overview
+
+- **Total Events:** {totalEvents}
+- **Files Touched:** {filesTouched}
+{#if firstActivity}
+- **Active Between:** {#if isRange}{firstActivity:MMM D, HH:mm} - {lastActivity:MMM D, HH:mm}{else}{firstActivity:HH:mm} - {lastActivity:HH:mm}{/if}
+{/if}
+- **Event Types:**
+{#each eventTypes}
+  - {name}: {count}
+{/each}
+{#if hasContentChanges}
+
+## Content Changes
+
+| | Added | Removed | Net |
+|---|-------|---------|-----|
+| Lines | {lines.added} | {lines.removed} | {lines.net} |
+| Words | {words.added} | {words.removed} | {words.net} |
+| Characters | {characters.added} | {characters.removed} | {characters.net} |
+{/if}
+{#if timeSpent}
+
+## Time Spent per Note
+
+| File | Sessions | Active Time |
+|------|----------|-------------|
+{#each timeSpent limit=10}
+| {link} | {sessions} | {activeTime} |
+{/each}
+{/if}
+{#if devices}
+
+## Activity by Device
+
+| Device | Events | Files | Words Added | Words Removed |
+|--------|--------|-------|-------------|---------------|
+{#each devices}
+| {name} | {events} | {files} | {wordsAdded} | {wordsRemoved} |
+{/each}
+{/if}
+{/if}
+`,
+
+    'weekly-overview': `# Weekly Activity Overview
+
+**Period:** {start:MMM DD} - {end:MMM DD, YYYY}
+
+| Date | Total Events | Files Touched | Created | Modified | Deleted | Renamed | Lines Added | Lines Removed | Words Added | Words Removed |
+|------|--------------|---------------|---------|----------|---------|---------|-------------|---------------|-------------|---------------|
+{#each days}
+| {date:ddd, MMM DD} | {totalEvents} | {filesTouched} | {created} | {modified} | {deleted} | {renamed} | {linesAdded} | {linesRemoved} | {wordsAdded} | {wordsRemoved} |
+{/each}
+| **Totals** | **{totals.totalEvents}** | **{totals.filesTouched}** | **{totals.created}** | **{totals.modified}** | **{totals.deleted}** | **{totals.renamed}** | **{totals.linesAdded}** | **{totals.linesRemoved}** | **{totals.wordsAdded}** | **{totals.wordsRemoved}** |
+
+## Weekly Summary
+
+- **Total Events:** {totals.totalEvents}
+- **Files Created:** {totals.created}
+- **Files Modified:** {totals.modified}
+- **Files Deleted:** {totals.deleted}
+- **Files Renamed:** {totals.renamed}
+- **Unique Files Touched:** {totals.filesTouched}
+- **Lines Added:** {totals.linesAdded}
+- **Lines Removed:** {totals.linesRemoved}
+- **Net Change:** {totals.netLines} lines, {totals.netWords} words
+- **Active Time:** {totals.activeTime}
+{#if hasActiveTime}
+
+## Active Time by Day
+
+| Date | Active Time |
+|------|-------------|
+{#each days}
+| {date:ddd, MMM DD} | {activeTime} |
+{/each}
+{/if}
+{#if timeSpent}
+
+## Time Spent per Note
+
+| File | Sessions | Active Time |
+|------|----------|-------------|
+{#each timeSpent limit=20}
+| {link} | {sessions} | {activeTime} |
+{/each}
+{/if}
+{#if devices}
+
+## Activity by Device
+
+| Device | Events | Files | Words Added | Words Removed |
+|--------|--------|-------|-------------|---------------|
+{#each devices}
+| {name} | {events} | {files} | {wordsAdded} | {wordsRemoved} |
+{/each}
+{/if}
+`,
+
+    'timeline': `# {#if isToday}Today's Activity Timeline{else}Activity Timeline{/if}
+
+{#if isRange}
+**Period:** {start:YYYY-MM-DD} - {end:YYYY-MM-DD}
+{else}
+**Date:** {date:YYYY-MM-DD}
+{/if}
+
+{#if !hasActivity}
+No activity recorded for {#if isToday}today{else}{#if isRange}this period{else}this day{/if}{/if}.
+
+{/if}
+{#each days}
+{#if isRange}
+## {date:dddd, MMM D, YYYY}
+
+{/if}
+{#each hours}
+{#if isRange}#{/if}## {hour}
+
+{#each types}
+{#if isRange}#{/if}### {name} ({count})
+
+{#each events}
+- {time:HH:mm:ss} - {link}{#if diff} (+{diff.linesAdded}/-{diff.linesRemoved} lines, +{diff.wordsAdded}/-{diff.wordsRemoved} words){/if}{#if renamedFrom} (renamed from {renamedFrom}){/if}
+{/each}
+
+{/each}
+{/each}
+{/each}
+`,
+
+    'most-active-files': `# Most Active Files
+
+{#if start}
+**Period:** {start:YYYY-MM-DD} - {end:YYYY-MM-DD}
+
+{/if}
+{#if !files}
+No file activity data available.
+
+{else}
+## Top 20 Most Edited Files
+
+| File | Total Edits | Last Modified | Lines Added | Lines Removed | Words Added | Words Removed |
+|------|-------------|---------------|-------------|---------------|-------------|---------------|
+{#each files limit=20}
+| {link} | {totalEdits} | {lastModified:YYYY-MM-DD HH:mm} | {linesAdded} | {linesRemoved} | {wordsAdded} | {wordsRemoved} |
+{/each}
+{/if}
+`,
+
+    'file-list': `{#if header}
+{header}
+
+{/if}
+{#each files}
+{link}
+{/each}
+{#if !files}
+No files {action}.
+{/if}
+`
+};
@@ -0,0 +1,67 @@
+import { App, normalizePath, TFile, TFolder } from 'obsidian';
+import { TemplateContext, TemplateEngine } from './TemplateEngine';
+import { DEFAULT_TEMPLATES } from './DefaultTemplates';
+import DailyActivityPlugin from '../main';
+
+export type ReportTemplateName = 'daily-summary' | 'weekly-overview' | 'timeline' | 'most-active-files' | 'file-list';
+
+export const REPORT_TEMPLATE_NAMES: ReportTemplateName[] = ['daily-summary', 'weekly-overview', 'timeline', 'most-active-files', 'file-list'];
+
+/**
+ * Finds the template for each report: `<name>.md` in the template folder when it
+ * exists, otherwise the built-in one
+ */
+export class ReportTemplates {
+    private app: App;
+    private plugin: DailyActivityPlugin;
+
+    constructor(app: App, plugin: DailyActivityPlugin) {
+        this.app = app;
+        this.plugin = plugin;
+    }
+
+    public async render(name: ReportTemplateName, context: TemplateContext): Promise<string> {
+        const { template, path } = await this.getTemplate(name);
+        try {
+            return TemplateEngine.render(template, context);
+        } catch (error) {
+            throw new Error(`Template ${path ?? name}: ${error.message}`);
+        }
+    }
+
+    public async getTemplate(name: ReportTemplateName): Promise<{ template: string, path: string | null }> {
+        const path = this.templatePath(name);
+        const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+        if (file instanceof TFile) {
+            return { template: await this.app.vault.cachedRead(file), path };
+        }
+        return { template: DEFAULT_TEMPLATES[name], path: null };
+    }
+
+    public templatePath(name: ReportTemplateName): string | null {
+        const folder = this.plugin.settings.reportTemplateFolder.trim();
+        return folder ? normalizePath(`${folder}/${name}.md`) : null;
+    }
+
+    /**
+     * Write the built-in templates that the template folder doesn't have yet.
+     * Returns how many were written.
+     */
+    public async writeDefaults(): Promise<number> {
+        const folder = normalizePath(this.plugin.settings.reportTemplateFolder.trim());
+        if (!(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        let written = 0;
+        for (const name of REPORT_TEMPLATE_NAMES) {
+            const path = this.templatePath(name)!;
+            if (this.app.vault.getAbstractFileByPath(path)) continue;
+            await this.app.vault.create(path, DEFAULT_TEMPLATES[name]);
+            written++;
+        }
+
+        this.plugin.logger.info(`Wrote ${written} report templates to ${folder}`);
+        return written;
+    }
+}
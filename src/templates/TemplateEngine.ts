@@ -0,0 +1,223 @@
+export type TemplateContext = Record<string, unknown>;
+
+export type TemplateNode =
+    | { kind: 'text', text: string }
+    | { kind: 'value', name: string, format: string | null, raw: string }
+    | { kind: 'each', name: string, limit: number | null, body: TemplateNode[] }
+    | { kind: 'if', name: string, negate: boolean, then: TemplateNode[], otherwise: TemplateNode[] };
+
+type TemplateToken =
+    | { kind: 'text', text: string }
+    | { kind: 'value', name: string, format: string | null, raw: string }
+    | { kind: 'open', block: 'each' | 'if', args: string, raw: string }
+    | { kind: 'else', raw: string }
+    | { kind: 'close', block: 'each' | 'if', raw: string };
+
+const TAG_PATTERN = /\{(?:#(each|if)\s+([^{}]+)|(else)|\/(each|if)|(@?[A-Za-z_][\w.]*)(?::([^{}]+))?)\}/g;
+
+/**
+ * A small template language for report output:
+ *
+ * - `{name}`, `{file.path}`: a value, with dotted paths into objects
+ * - `{date:MMM D}`: a date in a moment format; dates default to YYYY-MM-DD
+ * - `{#each files}…{/each}`: a loop, with the item's fields in scope along with
+ *   `{this}` and `{@index}` (from 1); `{#each files limit=20}` stops after 20
+ * - `{#if name}…{else}…{/if}`: a conditional; 0, empty text and empty lists are
+ *   false, and `{#if !name}` negates
+ *
+ * A block tag alone on its line takes the whole line, so templates can be laid
+ * out one tag per line. Names that aren't defined are left as written.
+ */
+export class TemplateEngine {
+    private static cache: Map<string, TemplateNode[]> = new Map();
+    private static MAX_CACHED = 50;
+
+    public static render(template: string, context: TemplateContext): string {
+        return TemplateEngine.renderNodes(TemplateEngine.parse(template), [context]);
+    }
+
+    /**
+     * Parse a template, throwing on unbalanced blocks
+     */
+    public static parse(template: string): TemplateNode[] {
+        const cached = TemplateEngine.cache.get(template);
+        if (cached) return cached;
+
+        const root: TemplateNode[] = [];
+        const stack: { token: TemplateToken & { kind: 'open' }, node: TemplateNode, target: TemplateNode[] }[] = [];
+        let target = root;
+
+        for (const token of TemplateEngine.tokenize(template)) {
+            switch (token.kind) {
+                case 'text':
+                case 'value':
+                    target.push(token);
+                    break;
+                case 'open': {
+                    const node = TemplateEngine.openBlock(token);
+                    target.push(node);
+                    stack.push({ token, node, target });
+                    target = node.kind === 'if' ? node.then : node.kind === 'each' ? node.body : target;
+                    break;
+                }
+                case 'else': {
+                    const open = stack[stack.length - 1];
+                    if (!open || open.node.kind !== 'if' || target !== open.node.then) {
+                        throw new Error(`${token.raw} outside {#if}`);
+                    }
+                    target = open.node.otherwise;
+                    break;
+                }
+                case 'close': {
+                    const open = stack.pop();
+                    if (!open || open.token.block !== token.block) {
+                        throw new Error(open ? `${token.raw} closes ${open.token.raw}` : `${token.raw} without an opening {#${token.block}}`);
+                    }
+                    target = open.target;
+                    break;
+                }
+            }
+        }
+
+        if (stack.length > 0) {
+            throw new Error(`${stack[stack.length - 1].token.raw} is never closed`);
+        }
+
+        if (TemplateEngine.cache.size >= TemplateEngine.MAX_CACHED) {
+            TemplateEngine.cache.clear();
+        }
+        TemplateEngine.cache.set(template, root);
+        return root;
+    }
+
+    private static tokenize(template: string): TemplateToken[] {
+        const tokens: TemplateToken[] = [];
+        let cursor = 0;
+        TAG_PATTERN.lastIndex = 0;
+
+        let match: RegExpExecArray | null;
+        while ((match = TAG_PATTERN.exec(template)) !== null) {
+            const [raw, openBlock, openArgs, elseTag, closeBlock, name, format] = match;
+            const token: TemplateToken = openBlock ? { kind: 'open', block: openBlock as 'each' | 'if', args: openArgs.trim(), raw }
+                : elseTag ? { kind: 'else', raw }
+                    : closeBlock ? { kind: 'close', block: closeBlock as 'each' | 'if', raw }
+                        : { kind: 'value', name, format: format ?? null, raw };
+
+            let textEnd = match.index;
+            let next = match.index + raw.length;
+
+            // A block tag alone on its line swallows the line
+            if (token.kind !== 'value') {
+                const lineStart = template.lastIndexOf('\n', match.index - 1) + 1;
+                const newline = template.indexOf('\n', next);
+                const lineEnd = newline === -1 ? template.length : newline;
+                if (lineStart >= cursor
+                    && /^[ \t]*$/.test(template.substring(lineStart, match.index))
+                    && /^[ \t\r]*$/.test(template.substring(next, lineEnd))) {
+                    textEnd = lineStart;
+                    next = newline === -1 ? template.length : newline + 1;
+                }
+            }
+
+            if (textEnd > cursor) {
+                tokens.push({ kind: 'text', text: template.substring(cursor, textEnd) });
+            }
+            tokens.push(token);
+            cursor = next;
+            TAG_PATTERN.lastIndex = next;
+        }
+
+        if (cursor < template.length) {
+            tokens.push({ kind: 'text', text: template.substring(cursor) });
+        }
+        return tokens;
+    }
+
+    private static openBlock(token: TemplateToken & { kind: 'open' }): TemplateNode {
+        if (token.block === 'if') {
+            const negate = token.args.startsWith('!');
+            const name = token.args.replace(/^!\s*/, '');
+            if (!/^@?[A-Za-z_][\w.]*$/.test(name)) {
+                throw new Error(`Expected a name in ${token.raw}`);
+            }
+            return { kind: 'if', name, negate, then: [], otherwise: [] };
+        }
+
+        const [name, ...options] = token.args.split(/\s+/);
+        let limit: number | null = null;
+        for (const option of options) {
+            const limitMatch = option.match(/^limit=(\d+)$/);
+            if (!limitMatch) {
+                throw new Error(`Unknown option "${option}" in ${token.raw}`);
+            }
+            limit = parseInt(limitMatch[1]);
+        }
+        return { kind: 'each', name, limit, body: [] };
+    }
+
+    private static renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+        let output = '';
+
+        for (const node of nodes) {
+            switch (node.kind) {
+                case 'text':
+                    output += node.text;
+                    break;
+                case 'value': {
+                    const { found, value } = TemplateEngine.lookup(node.name, scopes);
+                    output += found ? TemplateEngine.formatValue(value, node.format) : node.raw;
+                    break;
+                }
+                case 'if': {
+                    const truthy = TemplateEngine.isTruthy(TemplateEngine.lookup(node.name, scopes).value);
+                    output += TemplateEngine.renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes);
+                    break;
+                }
+                case 'each': {
+                    const items = TemplateEngine.lookup(node.name, scopes).value;
+                    if (!Array.isArray(items)) break;
+                    items.slice(0, node.limit ?? items.length).forEach((item, index) => {
+                        const fields = TemplateEngine.isRecord(item) ? item as TemplateContext : {};
+                        output += TemplateEngine.renderNodes(node.body, [...scopes, { ...fields, this: item, '@index': index + 1 }]);
+                    });
+                    break;
+                }
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * The first name is looked up from the innermost scope out; the rest of a
+     * dotted path walks into that value
+     */
+    private static lookup(path: string, scopes: TemplateContext[]): { found: boolean, value: unknown } {
+        const [first, ...rest] = path.split('.');
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            if (!(first in scopes[i])) continue;
+
+            let value: unknown = scopes[i][first];
+            for (const key of rest) {
+                value = TemplateEngine.isRecord(value) ? (value as TemplateContext)[key] : undefined;
+            }
+            return { found: true, value };
+        }
+        return { found: false, value: undefined };
+    }
+
+    private static formatValue(value: unknown, format: string | null): string {
+        if (value === null || value === undefined) return '';
+        if (window.moment.isMoment(value)) return value.format(format || 'YYYY-MM-DD');
+        if (Array.isArray(value)) return value.map(item => TemplateEngine.formatValue(item, format)).join(', ');
+        return String(value);
+    }
+
+    private static isTruthy(value: unknown): boolean {
+        return Array.isArray(value) ? value.length > 0 : Boolean(value);
+    }
+
+    private static isRecord(value: unknown): boolean {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) && !window.moment.isMoment(value);
+    }
+}
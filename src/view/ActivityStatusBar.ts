@@ -0,0 +1,86 @@
+import { StatsAggregator } from '../database/StatsAggregator';
+import DailySummaryModal from '../modal/DailySummaryModal';
+import DailyActivityPlugin from '../main';
+
+/**
+ * Status bar item with today's words written, files touched and the current
+ * streak. Counts come from daily_stats and are refreshed after each recorded
+ * event and at local midnight; the streak is the same one goals are tracked with,
+ * kept until the day changes and only worked out again while today hasn't counted.
+ */
+export class ActivityStatusBar {
+    private plugin: DailyActivityPlugin;
+    private el: HTMLElement;
+    private updating: Promise<void> = Promise.resolve();
+    private shownDate = '';  // Day the counts are for
+    private streak: { date: string, current: number, todayCounted: boolean } | null = null;
+
+    constructor(plugin: DailyActivityPlugin) {
+        this.plugin = plugin;
+    }
+
+    public load(): void {
+        this.el = this.plugin.addStatusBarItem();
+        this.el.addClass('daily-activity-status-bar');
+        this.el.setAttribute('aria-label', "Today's activity");
+        this.el.onclick = () => new DailySummaryModal(this.plugin.app, this.plugin).open();
+
+        this.plugin.registerEvent(this.plugin.database.on('event-recorded', () => this.update()));
+        this.plugin.registerEvent(this.plugin.database.on('events-imported', () => this.refreshStreak()));
+        this.plugin.registerInterval(window.setInterval(() => {
+            if (this.shownDate && this.shownDate !== StatsAggregator.dateKey(Date.now())) this.update();
+        }, 60 * 1000));
+
+        this.setVisible(this.plugin.settings.showStatusBar);
+    }
+
+    public setVisible(visible: boolean): void {
+        this.el.toggle(visible);
+        if (visible) {
+            this.update();
+        }
+    }
+
+    /**
+     * Refresh the counts; updates run one at a time so a burst of events can't race
+     */
+    public update(): Promise<void> {
+        if (!this.plugin.settings.showStatusBar) return this.updating;
+
+        this.updating = this.updating
+            .then(() => this.render())
+            .catch(error => this.plugin.logger.error('Failed to update status bar:', error));
+        return this.updating;
+    }
+
+    /**
+     * Work the streak out again, e.g. after goals change or events are imported
+     */
+    public refreshStreak(): Promise<void> {
+        this.streak = null;
+        return this.update();
+    }
+
+    private async render(): Promise<void> {
+        const today = StatsAggregator.dateKey(Date.now());
+        const [stats, streak] = await Promise.all([
+            this.plugin.database.getDailyStats(today),
+            this.getStreak(today)
+        ]);
+
+        const wordsWritten = stats?.totalWordsAdded || 0;
+        const filesTouched = stats?.filesTouched.length || 0;
+
+        this.shownDate = today;
+        this.el.setText(`${wordsWritten.toLocaleString()} words · ${filesTouched} ${filesTouched === 1 ? 'file' : 'files'} · ${streak}-day streak`);
+    }
+
+    private async getStreak(today: string): Promise<number> {
+        // Once today counts, more activity can't change the streak before tomorrow
+        if (!this.streak || this.streak.date !== today || !this.streak.todayCounted) {
+            const streaks = await this.plugin.goalTracker.getStreaks();
+            this.streak = { date: today, current: streaks.current, todayCounted: streaks.days.get(today) === true };
+        }
+        return this.streak.current;
+    }
+}
@@ -0,0 +1,175 @@
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import { FileEvent } from '../database/ActivityDatabase';
+import { FileEventTypes } from '../database/FileEventTypes';
+import { FilterQuery } from '../filters/FilterQuery';
+import DailyActivityPlugin from '../main';
+import { FilterField } from '../modal/FilterField';
+
+export const ACTIVITY_VIEW_TYPE = 'daily-activity-view';
+
+type ActivityRange = 'today' | 'week';
+
+/**
+ * Sidebar feed of recorded events, newest first. New events are added as they
+ * are recorded, so activity can be followed without inserting reports into notes.
+ */
+export class ActivityView extends ItemView {
+    private static MAX_EVENTS = 500;
+
+    private plugin: DailyActivityPlugin;
+    private range: ActivityRange = 'today';
+    private filter: FilterQuery;
+    private hideNavigation = true;
+    private events: FileEvent[] = [];
+    private listEl: HTMLElement;
+    private rangeButtons: Map<ActivityRange, HTMLButtonElement> = new Map();
+
+    constructor(leaf: WorkspaceLeaf, plugin: DailyActivityPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return ACTIVITY_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Activity';
+    }
+
+    getIcon(): string {
+        return 'activity';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('daily-activity-view');
+
+        // Today/week toggle
+        const rangeEl = container.createDiv({ cls: 'daily-activity-view-range' });
+        (['today', 'week'] as ActivityRange[]).forEach(range => {
+            const button = rangeEl.createEl('button', { text: range === 'today' ? 'Today' : 'Last 7 days' });
+            button.onclick = () => {
+                this.range = range;
+                this.refresh();
+            };
+            this.rangeButtons.set(range, button);
+        });
+
+        // Filter expression, as in reports; the list keeps the last valid one while typing
+        const filtersEl = container.createDiv({ cls: 'daily-activity-view-filters' });
+        const rerender = debounce(() => this.render(), 200, true);
+        this.filter = this.plugin.filters.parse('');
+        const filterField = new FilterField(filtersEl, this.plugin).onChange(() => {
+            if (filterField.getError() !== null) return;
+            this.filter = this.plugin.filters.parse(filterField.getValue());
+            rerender();
+        });
+
+        const navigationLabel = filtersEl.createEl('label');
+        const navigationToggle = navigationLabel.createEl('input', { type: 'checkbox' });
+        navigationToggle.checked = this.hideNavigation;
+        navigationLabel.appendText(' Hide opens and switches');
+        navigationToggle.onchange = () => {
+            this.hideNavigation = navigationToggle.checked;
+            this.render();
+        };
+
+        this.listEl = container.createDiv({ cls: 'daily-activity-view-list' });
+
+        this.registerEvent(this.plugin.database.on('event-recorded', (event: FileEvent) => {
+            if (event.timestamp < this.getRangeStart()) return;
+            // Earlier events of a renamed note are listed under its new path
+            if (event.eventType === 'rename') {
+                this.refresh();
+                return;
+            }
+            this.events.unshift(event);
+            this.events.splice(ActivityView.MAX_EVENTS);
+            this.render();
+        }));
+        this.registerEvent(this.plugin.database.on('events-imported', () => this.refresh()));
+
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Reload the events for the selected range
+     */
+    public async refresh(): Promise<void> {
+        this.rangeButtons.forEach((button, range) => button.toggleClass('is-active', range === this.range));
+
+        try {
+            const events = await this.plugin.database.getEventsInTimeRange(this.getRangeStart(), Date.now());
+            this.events = events.reverse().slice(0, ActivityView.MAX_EVENTS);
+        } catch (error) {
+            this.plugin.logger.error('Failed to load activity for the activity view:', error);
+            this.events = [];
+        }
+        this.render();
+    }
+
+    private getRangeStart(): number {
+        const start = window.moment().startOf('day');
+        if (this.range === 'week') {
+            start.subtract(6, 'days');
+        }
+        return start.valueOf();
+    }
+
+    private render(): void {
+        this.listEl.empty();
+
+        const events = this.events.filter(event =>
+            (!this.hideNavigation || !FileEventTypes.isNavigation(event.eventType)) &&
+            this.filter.matchesEvent(event)
+        );
+
+        if (events.length === 0) {
+            this.listEl.createDiv({ cls: 'daily-activity-view-empty', text: 'No activity yet' });
+            return;
+        }
+
+        let currentDay = '';
+        events.forEach(event => {
+            const time = window.moment(event.timestamp);
+            const day = time.format('YYYY-MM-DD');
+            if (day !== currentDay) {
+                currentDay = day;
+                this.listEl.createDiv({ cls: 'daily-activity-view-day', text: time.format('dddd, MMM D') });
+            }
+            this.renderEvent(event, time.format('HH:mm'));
+        });
+
+        if (this.events.length >= ActivityView.MAX_EVENTS) {
+            this.listEl.createDiv({ cls: 'daily-activity-view-empty', text: `Showing the latest ${ActivityView.MAX_EVENTS} events` });
+        }
+    }
+
+    private renderEvent(event: FileEvent, time: string): void {
+        const row = this.listEl.createDiv({ cls: 'daily-activity-view-event' });
+        row.createSpan({ cls: 'daily-activity-view-time', text: time });
+        row.createSpan({ cls: `daily-activity-view-type daily-activity-view-type-${event.eventType}`, text: event.eventType });
+
+        const fileName = event.filePath.split('/').pop()!.replace(/\.md$/, '');
+        const link = row.createEl('a', { cls: 'daily-activity-view-file', text: fileName, href: '#' });
+        link.title = event.oldPath ? `${event.oldPath} → ${event.filePath}` : event.filePath;
+        link.onclick = (evt) => {
+            evt.preventDefault();
+            this.app.workspace.openLinkText(event.filePath, '', evt.ctrlKey || evt.metaKey);
+        };
+
+        const diff = event.contentDiff;
+        if (diff && (diff.added || diff.removed)) {
+            const size = diff.wordsAdded !== undefined || diff.wordsRemoved !== undefined
+                ? `+${diff.wordsAdded || 0} / -${diff.wordsRemoved || 0} words`
+                : `+${diff.added} / -${diff.removed} chars`;
+            row.createSpan({ cls: 'daily-activity-view-diff', text: size });
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import DateParser from '../src/DateParser';
+
+const parser = new DateParser({ logger: { debug: jest.fn(), error: jest.fn() } } as any);
+
+function days(input: string): [string, string] {
+    const { start, end } = parser.parseDateRange(input);
+    return [start.format('YYYY-MM-DD'), end.format('YYYY-MM-DD')];
+}
+
+describe('DateParser', () => {
+    beforeAll(() => {
+        // Wednesday, March 6, 2024
+        jest.useFakeTimers().setSystemTime(new Date(2024, 2, 6, 12, 0));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    it('reads single days', () => {
+        expect(days('today')).toEqual(['2024-03-06', '2024-03-06']);
+        expect(days('Yesterday')).toEqual(['2024-03-05', '2024-03-05']);
+        expect(days('2024-01-15')).toEqual(['2024-01-15', '2024-01-15']);
+        expect(days('3 days ago')).toEqual(['2024-03-03', '2024-03-03']);
+        expect(days('-1w')).toEqual(['2024-02-28', '2024-02-28']);
+        expect(days('monday')).toEqual(['2024-03-04', '2024-03-04']);
+    });
+
+    it('reads periods', () => {
+        expect(days('last month')).toEqual(['2024-02-01', '2024-02-29']);
+        expect(days('past 7 days')).toEqual(['2024-02-29', '2024-03-06']);
+        expect(days('q3 2023')).toEqual(['2023-07-01', '2023-09-30']);
+        expect(days('2023')).toEqual(['2023-01-01', '2023-12-31']);
+        expect(days('december')).toEqual(['2023-12-01', '2023-12-31']);
+    });
+
+    it('reads ranges', () => {
+        expect(days('2024-03-01 to 2024-03-03')).toEqual(['2024-03-01', '2024-03-03']);
+        expect(days('between yesterday and today')).toEqual(['2024-03-05', '2024-03-06']);
+        expect(days('since monday')).toEqual(['2024-03-04', '2024-03-06']);
+    });
+
+    it("gives an invalid range for text it can't read", () => {
+        expect(parser.parseDateRange('not a date').start.isValid()).toBe(false);
+    });
+
+    it('fills the end from a range typed in the from field', () => {
+        const fields = parser.parseFields('last week', '');
+        expect(fields.invalid).toBeNull();
+        expect(fields.end!.diff(fields.start!, 'days')).toBe(6);
+        expect(parser.parseFields('2024-03-01', 'gibberish').invalid).toBe('to');
+    });
+});
@@ -0,0 +1,119 @@
+import { TFile as ObsidianFile } from 'obsidian';
+import { FileView, TFile } from './mocks/obsidian';
+import { ActivityDatabase, FileEvent } from '../src/database/ActivityDatabase';
+import { FileEventTypes } from '../src/database/FileEventTypes';
+import { EventHandler } from '../src/EventHandler';
+import DailyActivityPlugin from '../src/main';
+import { createTestPlugin, TestPlugin } from './mocks/plugin';
+
+describe('EventHandler', () => {
+    let test: TestPlugin;
+    let handler: EventHandler;
+
+    async function start(settings: Partial<DailyActivityPlugin['settings']> = {}): Promise<void> {
+        test = await createTestPlugin(settings);
+        handler = new EventHandler(test.app, test.plugin);
+    }
+
+    async function create(path: string, content: string): Promise<TFile> {
+        const file = await test.vault.create(path, content);
+        await jest.advanceTimersByTimeAsync(0);
+        return file;
+    }
+
+    function recorded(): Promise<FileEvent[]> {
+        return test.database.queryEvents({});
+    }
+
+    function openTabs(...files: TFile[]): FileView[] {
+        test.workspace.views = files.map(file => Object.assign(new FileView(), { file }));
+        test.workspace.trigger('layout-change');
+        return test.workspace.views as FileView[];
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date(2024, 2, 4, 9).getTime() });
+    });
+
+    afterEach(() => {
+        handler.cleanup();
+        ActivityDatabase.destroyInstance();
+        jest.useRealTimers();
+    });
+
+    it('records a new note with its word counts', async () => {
+        await start();
+        await create('Note.md', 'One two three');
+
+        expect(await recorded()).toMatchObject([
+            { eventType: 'create', filePath: 'Note.md', contentDiff: { wordsAdded: 3, linesAdded: 1, wordCountBefore: 0, wordCountAfter: 3 } }
+        ]);
+    });
+
+    it('records a burst of edits as one modify event once typing stops', async () => {
+        await start();
+        const file = await create('Note.md', 'One two three');
+
+        await test.vault.modify(file, 'One two three\nfour');
+        await jest.advanceTimersByTimeAsync(2000);
+        await test.vault.modify(file, 'One two three\nfour five six');
+        await jest.advanceTimersByTimeAsync(4000);
+        expect(await recorded()).toHaveLength(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        const events = await recorded();
+        expect(events.map(event => event.eventType)).toEqual(['create', 'modify']);
+        expect(events[1].contentDiff).toMatchObject({ wordsAdded: 3, wordsRemoved: 0, wordCountBefore: 3, wordCountAfter: 6 });
+    });
+
+    it("doesn't record the plugin's own writes as edits", async () => {
+        await start();
+        const section = '\n\n## Activity\n- Edited [[Note]]';
+        const addSection = (content: string) => content + section;
+        const writeSection = (file: TFile) => handler.writeOwn(file as unknown as ObsidianFile, () => test.vault.process(file, addSection), addSection);
+        const edited = await create('Edited.md', 'Draft');
+        const untouched = await create('Untouched.md', 'Done');
+
+        await test.vault.modify(edited, 'Draft text');
+        await jest.advanceTimersByTimeAsync(1000);
+        await writeSection(edited);
+        await writeSection(untouched);
+        await jest.advanceTimersByTimeAsync(10000);
+
+        const modifies = (await recorded()).filter(event => event.eventType === 'modify');
+        expect(modifies).toHaveLength(1);
+        expect(modifies[0]).toMatchObject({ filePath: 'Edited.md', contentDiff: { wordsAdded: 1, wordsRemoved: 0 } });
+    });
+
+    it('derives open, focus, blur and close events from the workspace', async () => {
+        await start();
+        const first = await create('First.md', 'a');
+        const second = await create('Second.md', 'b');
+
+        const [firstView] = openTabs(first);
+        test.workspace.trigger('active-leaf-change', { view: firstView });
+        await jest.advanceTimersByTimeAsync(1000);
+        const [, secondView] = openTabs(first, second);
+        test.workspace.trigger('active-leaf-change', { view: secondView });
+        await jest.advanceTimersByTimeAsync(1000);
+        openTabs(second);
+        await jest.advanceTimersByTimeAsync(1000);
+
+        const navigation = (await recorded()).filter(event => FileEventTypes.isNavigation(event.eventType));
+        expect(navigation.map(event => `${event.eventType} ${event.filePath}`)).toEqual([
+            'open First.md', 'focus First.md', 'open Second.md', 'blur First.md', 'focus Second.md', 'close First.md'
+        ]);
+    });
+
+    it('leaves out excluded paths and event types that are turned off', async () => {
+        await start({ activityTrackingExcludePaths: ['Private/'], trackFileFocus: false });
+        const note = await create('Note.md', 'a');
+        await create('Private/Secret.md', 'b');
+
+        const [view] = openTabs(note);
+        test.workspace.trigger('active-leaf-change', { view });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect((await recorded()).map(event => `${event.eventType} ${event.filePath}`)).toEqual(['create Note.md', 'open Note.md']);
+    });
+});
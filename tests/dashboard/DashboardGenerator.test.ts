@@ -0,0 +1,59 @@
+import { TFile } from '../mocks/obsidian';
+import { ActivityDatabase, FileEvent } from '../../src/database/ActivityDatabase';
+import { DashboardGenerator } from '../../src/dashboard/DashboardGenerator';
+import { GoalProgress, GoalTracker } from '../../src/goals/GoalTracker';
+import { createTestPlugin, TestPlugin } from '../mocks/plugin';
+
+const MINUTE = 60 * 1000;
+
+function event(minutesAgo: number, filePath: string, eventType: FileEvent['eventType'], wordsAdded = 0): FileEvent {
+    const contentDiff = eventType === 'modify' ? { added: wordsAdded * 5, removed: 0, linesAdded: 1, linesRemoved: 0, wordsAdded, wordsRemoved: 0 } : undefined;
+    return { timestamp: Date.now() - minutesAgo * MINUTE, filePath, eventType, contentDiff };
+}
+
+describe('DashboardGenerator', () => {
+    let test: TestPlugin;
+
+    beforeEach(async () => {
+        test = await createTestPlugin();
+        test.plugin.goalTracker = {
+            getProgress: async (): Promise<GoalProgress[]> => [],
+            getStreaks: async () => ({ current: 2, longest: 5, days: new Map() })
+        } as unknown as GoalTracker;
+    });
+
+    afterEach(() => ActivityDatabase.destroyInstance());
+
+    async function generate(): Promise<string> {
+        await new DashboardGenerator(test.app, test.database, test.plugin).generateDashboard('Activity Dashboard.md');
+        return test.vault.read(test.vault.getAbstractFileByPath('Activity Dashboard.md') as TFile);
+    }
+
+    it('summarises the stored activity', async () => {
+        await test.database.importEvents([
+            event(90, 'Projects/Plan.md', 'open'),
+            event(85, 'Projects/Plan.md', 'modify', 40),
+            event(80, 'Projects/Plan.md', 'modify', 20),
+            event(60, 'Reference/Glossary.md', 'open'),
+            event(30, 'Reference/Glossary.md', 'open'),
+            event(10, 'Journal.md', 'modify', 5)
+        ]);
+
+        const content = await generate();
+        expect(content).toContain('- **Total Events:** 6');
+        expect(content).toContain('- **Words Added:** 65');
+        expect(content).toContain('| [[Plan]] | 2 | 2 | 0 | 60 |');
+        expect(content).toContain('- [[Glossary]] (2 opens)');
+        expect(content).toContain('- **Current Streak:** 2 days');
+        expect(content).toContain('No goals set.');
+    });
+
+    it('rewrites an existing dashboard in place', async () => {
+        await generate();
+        await test.database.importEvents([event(5, 'Note.md', 'modify', 7)]);
+
+        const content = await generate();
+        expect(test.vault.getFiles()).toHaveLength(1);
+        expect(content).toContain('- **Words Added:** 7');
+    });
+});
@@ -0,0 +1,89 @@
+import { ActivityDatabase, FileEvent } from '../../src/database/ActivityDatabase';
+import { createTestPlugin } from '../mocks/plugin';
+
+const MINUTE = 60 * 1000;
+const DAY_START = new Date(2024, 2, 4).getTime();
+
+function edit(timestamp: number, wordsAdded: number, extra: Partial<FileEvent> = {}): FileEvent {
+    return { timestamp, filePath: 'Note.md', eventType: 'modify', contentDiff: { added: wordsAdded * 5, removed: 0, wordsAdded, wordsRemoved: 0 }, ...extra };
+}
+
+describe('ActivityDatabase', () => {
+    let database: ActivityDatabase;
+
+    beforeEach(async () => {
+        database = (await createTestPlugin()).database;
+    });
+
+    afterEach(() => ActivityDatabase.destroyInstance());
+
+    it('keys daily stats by local day', async () => {
+        await database.importEvents([
+            edit(DAY_START + 30 * MINUTE, 2),
+            edit(DAY_START + 23 * 60 * MINUTE + 30 * MINUTE, 3),
+            edit(DAY_START + 24 * 60 * MINUTE + 30 * MINUTE, 7)
+        ]);
+
+        const stats = await database.getDailyStats('2024-03-04');
+        expect(stats).toMatchObject({ totalEvents: 2, totalWordsAdded: 5 });
+        expect((await database.getDailyStats('2024-03-05'))?.totalWordsAdded).toBe(7);
+    });
+
+    it('expands compacted events inside a range that starts after the rollup does', async () => {
+        await database.importEvents([0, 10, 20, 30, 40].map(minutes => edit(DAY_START + 9 * 60 * MINUTE + minutes * MINUTE, 1)));
+        await database.compactEvents(DAY_START + 24 * 60 * MINUTE, 'hour');
+        expect(await database.queryEvents({ raw: true })).toHaveLength(1);
+
+        const events = await database.queryEvents({ startTime: DAY_START + 9 * 60 * MINUTE + 15 * MINUTE });
+        expect(events.map(event => (event.timestamp - DAY_START) / MINUTE - 9 * 60)).toEqual([20, 30, 40]);
+    });
+
+    it('leaves out raw events before the range', async () => {
+        await database.importEvents([edit(DAY_START, 1), edit(DAY_START + 2 * 60 * MINUTE, 1)]);
+        const events = await database.queryEvents({ startTime: DAY_START + MINUTE });
+        expect(events.map(event => event.timestamp)).toEqual([DAY_START + 2 * 60 * MINUTE]);
+    });
+
+    it('merges events expanded from overlapping rollups with raw events in timestamp order', async () => {
+        const at = (minutes: number) => DAY_START + 9 * 60 * MINUTE + minutes * MINUTE;
+        await database.importEvents([
+            ...[0, 20, 40].map(minutes => edit(at(minutes), 1, { filePath: 'A.md' })),
+            ...[10, 30, 50].map(minutes => edit(at(minutes), 1, { filePath: 'B.md' })),
+            edit(at(25), 1, { filePath: 'C.md' })
+        ]);
+        await database.compactEvents(DAY_START + 24 * 60 * MINUTE, 'hour');
+        expect((await database.queryEvents({ raw: true })).map(event => event.filePath)).toEqual(['A.md', 'B.md', 'C.md']);
+
+        const events = await database.queryEvents({ startTime: DAY_START });
+        expect(events.map(event => `${event.filePath} ${(event.timestamp - at(0)) / MINUTE}`)).toEqual([
+            'A.md 0', 'B.md 10', 'A.md 20', 'C.md 25', 'B.md 30', 'A.md 40', 'B.md 50'
+        ]);
+
+        const firstThree: FileEvent[] = [];
+        await database.iterateEvents({}, event => {
+            firstThree.push(event);
+            return firstThree.length < 3;
+        });
+        expect(firstThree.map(event => event.filePath)).toEqual(['A.md', 'B.md', 'A.md']);
+    });
+
+    it('pages through events in timestamp order', async () => {
+        await database.importEvents([3, 1, 2, 2, 5].map(minutes => edit(DAY_START + minutes * MINUTE, minutes)));
+
+        const first = await database.getEventsPage({}, 3);
+        const second = await database.getEventsPage({}, 3, first.nextCursor);
+        expect([...first.events, ...second.events].map(event => (event.timestamp - DAY_START) / MINUTE)).toEqual([1, 2, 2, 3, 5]);
+        expect(second.nextCursor).toBeNull();
+    });
+});
+
+describe('ActivityDatabase without backfilled history', () => {
+    afterEach(() => ActivityDatabase.destroyInstance());
+
+    it('rebuilds a local day without backfilled events', async () => {
+        const { database } = await createTestPlugin({ includeBackfillInReports: false });
+        await database.importEvents([edit(DAY_START + MINUTE, 2), edit(DAY_START + 2 * MINUTE, 9, { source: 'backfill' })]);
+
+        expect(await database.getDailyStats('2024-03-04')).toMatchObject({ totalEvents: 1, totalWordsAdded: 2 });
+    });
+});
@@ -0,0 +1,67 @@
+import { FileEvent } from '../../src/database/ActivityDatabase';
+import { FileEventType } from '../../src/database/FileEventTypes';
+import { EventCompactor } from '../../src/database/EventCompactor';
+
+const MINUTE = 60 * 1000;
+const HOUR_START = new Date(2024, 2, 4, 9, 0).getTime();
+
+function event(minutes: number, eventType: FileEventType = 'modify', filePath = 'Note.md', extra: Partial<FileEvent> = {}): FileEvent {
+    return { timestamp: HOUR_START + minutes * MINUTE, filePath, eventType, eventId: `e${minutes}-${filePath}`, ...extra };
+}
+
+function edit(minutes: number, wordsAdded: number): FileEvent {
+    return event(minutes, 'modify', 'Note.md', { contentDiff: { added: wordsAdded * 5, removed: 0, wordsAdded, wordsRemoved: 0, linesAdded: 1, linesRemoved: 0 } });
+}
+
+describe('EventCompactor', () => {
+    it('rolls up events per file, type and hour', () => {
+        const events = [event(0), event(10), event(20, 'open'), event(30, 'open'), event(40, 'modify', 'Other.md'), event(70)];
+        const { rollups, replaced } = EventCompactor.buildRollups(events, 'hour');
+
+        // Single events in a bucket are left alone
+        expect(rollups).toHaveLength(2);
+        expect(replaced).toHaveLength(4);
+        const modify = rollups.find(rollup => rollup.eventType === 'modify')!;
+        expect(modify.rollup).toMatchObject({ granularity: 'hour', start: HOUR_START, end: HOUR_START + 10 * MINUTE, count: 2, eventIds: ['e0-Note.md', 'e10-Note.md'] });
+    });
+
+    it('rolls up a whole day with day granularity', () => {
+        const { rollups } = EventCompactor.buildRollups([event(0), event(70), event(300)], 'day');
+        expect(rollups).toHaveLength(1);
+        expect(rollups[0].rollup!.count).toBe(3);
+    });
+
+    it('keeps devices and sources apart', () => {
+        const { rollups } = EventCompactor.buildRollups([
+            event(0, 'modify', 'Note.md', { deviceId: 'laptop' }),
+            event(5, 'modify', 'Note.md', { deviceId: 'phone' }),
+            event(10, 'modify', 'Note.md', { source: 'backfill' })
+        ], 'hour');
+        expect(rollups).toHaveLength(0);
+    });
+
+    it('sums content changes', () => {
+        const { rollups } = EventCompactor.buildRollups([edit(0, 3), edit(5, 4)], 'hour');
+        expect(rollups[0].contentDiff).toMatchObject({ added: 35, wordsAdded: 7, linesAdded: 2 });
+    });
+
+    it('expands a rollup back into the same counts and totals', () => {
+        const raw = [edit(0, 3), edit(5, 4), edit(20, 6)];
+        const [rollup] = EventCompactor.buildRollups(raw, 'hour').rollups;
+        const expanded = EventCompactor.expand(rollup);
+
+        expect(expanded).toHaveLength(3);
+        expect(expanded[0].timestamp).toBe(HOUR_START);
+        expect(expanded[2].timestamp).toBe(HOUR_START + 20 * MINUTE);
+        expect(expanded.every(copy => !copy.rollup)).toBe(true);
+        expect(expanded.reduce((total, copy) => total + copy.contentDiff!.wordsAdded!, 0)).toBe(13);
+        expect(expanded.reduce((total, copy) => total + copy.contentDiff!.added, 0)).toBe(65);
+        expect(EventCompactor.weight(rollup)).toBe(3);
+    });
+
+    it('only compacts frequent event types', () => {
+        expect(EventCompactor.isCompactable(event(0, 'modify'))).toBe(true);
+        expect(EventCompactor.isCompactable(event(0, 'rename'))).toBe(false);
+        expect(EventCompactor.isCompactable(event(0, 'create'))).toBe(false);
+    });
+});
@@ -0,0 +1,58 @@
+import { FileEvent } from '../../src/database/ActivityDatabase';
+import { FileEventType } from '../../src/database/FileEventTypes';
+import { StatsAggregator } from '../../src/database/StatsAggregator';
+
+const MINUTE = 60 * 1000;
+const DAY_START = new Date(2024, 2, 4).getTime();
+
+function event(minutes: number, eventType: FileEventType, filePath = 'Note.md', extra: Partial<FileEvent> = {}): FileEvent {
+    return { timestamp: DAY_START + minutes * MINUTE, filePath, eventType, ...extra };
+}
+
+describe('StatsAggregator', () => {
+    it('keys days by local date', () => {
+        expect(StatsAggregator.dateKey(DAY_START)).toBe('2024-03-04');
+        expect(StatsAggregator.dateKey(DAY_START - 1)).toBe('2024-03-03');
+        expect(StatsAggregator.dayBounds('2024-03-04')).toEqual({ startTime: DAY_START, endTime: new Date(2024, 2, 5).getTime() - 1 });
+    });
+
+    it('aggregates a day, leaving navigation out of files touched', () => {
+        const [stats] = StatsAggregator.buildDailyStats([
+            event(0, 'open', 'Read.md'),
+            event(5, 'modify', 'Note.md', { contentDiff: { added: 20, removed: 5, wordsAdded: 4, wordsRemoved: 1, linesAdded: 2, linesRemoved: 0 } }),
+            event(9, 'create', 'New.md')
+        ]);
+
+        expect(stats).toMatchObject({
+            date: '2024-03-04',
+            totalEvents: 3,
+            totalAdded: 20,
+            totalRemoved: 5,
+            totalWordsAdded: 4,
+            totalLinesAdded: 2,
+            filesTouched: ['Note.md', 'New.md'],
+            firstActivity: DAY_START,
+            lastActivity: DAY_START + 9 * MINUTE
+        });
+        expect(stats.eventCounts).toMatchObject({ open: 1, modify: 1, create: 1, delete: 0 });
+    });
+
+    it('counts a rollup as the events it replaced', () => {
+        const rollup = event(0, 'modify', 'Note.md', { rollup: { granularity: 'hour', start: DAY_START, end: DAY_START + 30 * MINUTE, count: 4, eventIds: [] } });
+        const [stats] = StatsAggregator.buildDailyStats([rollup]);
+        expect(stats.totalEvents).toBe(4);
+        expect(stats.lastActivity).toBe(DAY_START + 30 * MINUTE);
+    });
+
+    it('follows renamed notes in file stats', () => {
+        const stats = StatsAggregator.buildFileStats([
+            event(0, 'modify', 'Old.md'),
+            event(1, 'open', 'Old.md'),
+            event(2, 'rename', 'New.md', { oldPath: 'Old.md' }),
+            event(3, 'modify', 'New.md')
+        ]);
+
+        expect(stats).toHaveLength(1);
+        expect(stats[0]).toMatchObject({ filePath: 'New.md', totalEdits: 3, totalOpens: 1, previousPaths: ['Old.md'] });
+    });
+});
@@ -0,0 +1,66 @@
+import { ActivityDatabase, FileEvent } from '../../src/database/ActivityDatabase';
+import { StatsAggregator } from '../../src/database/StatsAggregator';
+import { VaultFileStore } from '../../src/database/VaultFileStore';
+import { createTestPlugin, TestPlugin } from '../mocks/plugin';
+
+const LOG_PATH = 'Daily Activity/activity-log.jsonl';
+const DAY_START = new Date(2024, 2, 4).getTime();
+
+function edit(minutes: number, wordsAdded: number): FileEvent {
+    return { timestamp: DAY_START + minutes * 60 * 1000, filePath: 'Note.md', eventType: 'modify', contentDiff: { added: wordsAdded * 5, removed: 0, wordsAdded, wordsRemoved: 0 } };
+}
+
+async function readAll(store: VaultFileStore): Promise<FileEvent[]> {
+    const events: FileEvent[] = [];
+    await store.iterateEvents({}, event => {
+        events.push(event);
+    });
+    return events;
+}
+
+describe('VaultFileStore', () => {
+    let test: TestPlugin;
+
+    beforeEach(async () => {
+        test = await createTestPlugin();
+    });
+
+    afterEach(() => ActivityDatabase.destroyInstance());
+
+    async function open(): Promise<VaultFileStore> {
+        const store = new VaultFileStore(test.plugin, LOG_PATH);
+        await store.initialize();
+        return store;
+    }
+
+    it('rebuilds events and aggregates from the log when reopened', async () => {
+        const store = await open();
+        await store.recordEvent(edit(10, 4));
+        await store.importEvents([edit(5, 2), edit(20, 1)]);
+        await store.close();
+
+        const reopened = await open();
+        expect((await readAll(reopened)).map(event => event.contentDiff?.wordsAdded)).toEqual([2, 4, 1]);
+        expect(await reopened.getDailyStats(StatsAggregator.dateKey(DAY_START))).toMatchObject({ totalEvents: 3, totalWordsAdded: 7 });
+        expect(await reopened.getFileStats('Note.md')).toMatchObject({ totalEdits: 3 });
+    });
+
+    it('rewrites the log when events are replaced', async () => {
+        const store = await open();
+        await store.importEvents([edit(5, 2), edit(20, 1)]);
+        const [first] = await readAll(store);
+        await store.replaceEvents([first.id!], [edit(6, 3)]);
+        await store.close();
+
+        const reopened = await open();
+        expect((await readAll(reopened)).map(event => event.contentDiff?.wordsAdded)).toEqual([3, 1]);
+    });
+
+    it('skips lines it cannot read', async () => {
+        test.vault.adapter.files.set(LOG_PATH, `${JSON.stringify(edit(5, 2))}\n{"timestamp": 1\nnot json\n${JSON.stringify(edit(9, 1))}\n`);
+
+        const store = await open();
+        expect(await readAll(store)).toHaveLength(2);
+        expect(test.plugin.logger.warn).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,54 @@
+import { DiffEngine } from '../../src/diff/DiffEngine';
+
+describe('DiffEngine', () => {
+    it('finds nothing between identical documents', () => {
+        const result = DiffEngine.diff('one\ntwo', 'one\ntwo');
+        expect(result.hunks).toEqual([]);
+        expect(result.linesAdded + result.linesRemoved + result.wordsAdded + result.wordsRemoved).toBe(0);
+    });
+
+    it('counts a new document as all added', () => {
+        const result = DiffEngine.diff('', 'first line\nsecond line here');
+        expect(result.linesAdded).toBe(2);
+        expect(result.linesRemoved).toBe(0);
+        expect(result.wordsAdded).toBe(5);
+    });
+
+    it('counts an appended line without touching the rest', () => {
+        const result = DiffEngine.diff('alpha\nbeta', 'alpha\nbeta\ngamma delta');
+        expect(result.hunks).toHaveLength(1);
+        expect(result.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 0, newStart: 2, newLines: 1 });
+        expect(result.linesAdded).toBe(1);
+        expect(result.wordsAdded).toBe(2);
+        expect(result.wordsRemoved).toBe(0);
+    });
+
+    it('only counts the words that changed within a rewritten line', () => {
+        const result = DiffEngine.diff('the quick brown fox', 'the slow brown fox');
+        expect(result.linesAdded).toBe(1);
+        expect(result.linesRemoved).toBe(1);
+        expect(result.wordsAdded).toBe(1);
+        expect(result.wordsRemoved).toBe(1);
+        expect(result.charsAdded).toBe('slow'.length);
+        expect(result.charsRemoved).toBe('quick'.length);
+    });
+
+    it('keeps separate changes in separate hunks', () => {
+        const result = DiffEngine.diff('a\nb\nc\nd\ne', 'a\nB\nc\nd\nE');
+        expect(result.hunks.map(hunk => hunk.oldStart)).toEqual([1, 4]);
+        expect(result.linesRemoved).toBe(2);
+        expect(result.linesAdded).toBe(2);
+    });
+
+    it('counts removed lines', () => {
+        const result = DiffEngine.diff('keep\ndrop these words\nkeep too', 'keep\nkeep too');
+        expect(result.linesRemoved).toBe(1);
+        expect(result.linesAdded).toBe(0);
+        expect(result.wordsRemoved).toBe(3);
+    });
+
+    it('counts words separated by any whitespace', () => {
+        expect(DiffEngine.countWords('  one\ttwo\n three ')).toBe(3);
+        expect(DiffEngine.countWords('   ')).toBe(0);
+    });
+});
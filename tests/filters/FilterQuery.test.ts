@@ -0,0 +1,129 @@
+import { TFile } from '../mocks/obsidian';
+import { FileEvent } from '../../src/database/ActivityDatabase';
+import { FilterContext, FilterQuery } from '../../src/filters/FilterQuery';
+
+// A small vault: metadata for notes, links between them and a not-yet-indexed note
+const metadata: Record<string, object | null> = {
+    'Projects/Alpha.md': { tags: [{ tag: '#work/client' }], frontmatter: { status: 'Active', priority: 3, due: '2024-05-01', aliases: ['A', 'First'] } },
+    'Projects/Beta.md': { frontmatter: { status: 'done', priority: 1, tags: ['archive'] } },
+    'Journal/2024-03-04.md': { tags: [{ tag: '#journal' }] },
+    'Inbox/New.md': null
+};
+const files: Record<string, TFile> = {};
+[...Object.keys(metadata), 'Images/photo.png'].forEach(path => files[path] = new TFile(path));
+
+const context: FilterContext = {
+    app: {
+        vault: { getAbstractFileByPath: (path: string) => files[path] || null },
+        metadataCache: {
+            getFileCache: (file: TFile) => metadata[file.path] ?? null,
+            getFirstLinkpathDest: (linkpath: string) => Object.values(files).find(file => file.basename === linkpath) || null,
+            resolvedLinks: { 'Journal/2024-03-04.md': { 'Projects/Alpha.md': 1 } },
+            unresolvedLinks: { 'Projects/Beta.md': { 'Someday': 1 } }
+        }
+    } as any,
+    savedFilters: [
+        { name: 'work', query: 'folder:Projects -tag:archive' },
+        { name: 'loop', query: '@loop' },
+        { name: 'broken', query: 'words>' }
+    ],
+    deviceId: 'laptop'
+};
+
+const indexed = Object.keys(files).filter(path => path !== 'Inbox/New.md');
+
+function matching(query: string, paths = Object.keys(files)): string[] {
+    const filter = FilterQuery.parse(query, context);
+    return paths.filter(path => filter.matchesPath(path));
+}
+
+function modify(filePath: string, wordsAdded: number, extra: Partial<FileEvent> = {}): FileEvent {
+    return { timestamp: 0, filePath, eventType: 'modify', contentDiff: { added: wordsAdded * 5, removed: 0, wordsAdded, wordsRemoved: 0 }, ...extra };
+}
+
+describe('FilterQuery', () => {
+    it('matches everything when empty', () => {
+        expect(FilterQuery.parse('  ', context).isEmpty()).toBe(true);
+        expect(matching('')).toHaveLength(5);
+    });
+
+    it('matches paths, names, folders and extensions', () => {
+        expect(matching('alpha')).toEqual(['Projects/Alpha.md']);
+        expect(matching('name:/^\\d{4}-/')).toEqual(['Journal/2024-03-04.md']);
+        expect(matching('folder:projects/')).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(matching('ext:.png')).toEqual(['Images/photo.png']);
+        expect(matching('path:"Inbox/New"')).toEqual(['Inbox/New.md']);
+    });
+
+    it('combines terms with AND, OR, negation and groups', () => {
+        expect(matching('folder:Projects -beta')).toEqual(['Projects/Alpha.md']);
+        expect(matching('folder:Journal OR ext:png')).toEqual(['Journal/2024-03-04.md', 'Images/photo.png']);
+        expect(matching('-(folder:Projects OR folder:Journal) ext:md')).toEqual(['Inbox/New.md']);
+    });
+
+    it('matches tags, including nested ones and frontmatter tags', () => {
+        expect(matching('tag:#work', indexed)).toEqual(['Projects/Alpha.md']);
+        expect(matching('tag:archive', indexed)).toEqual(['Projects/Beta.md']);
+    });
+
+    it('matches frontmatter properties', () => {
+        expect(matching('[status]', indexed)).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(matching('[status:active]', indexed)).toEqual(['Projects/Alpha.md']);
+        expect(matching('[priority>2]', indexed)).toEqual(['Projects/Alpha.md']);
+        expect(matching('[due<2024-06-01]', indexed)).toEqual(['Projects/Alpha.md']);
+        expect(matching('[aliases:first]', indexed)).toEqual(['Projects/Alpha.md']);
+    });
+
+    it('matches outgoing and incoming links', () => {
+        expect(matching('links-to:[[Alpha]]', indexed)).toEqual(['Journal/2024-03-04.md']);
+        expect(matching('links-to:Someday', indexed)).toEqual(['Projects/Beta.md']);
+        expect(matching('linked-from:[[2024-03-04|today]]', indexed)).toEqual(['Projects/Alpha.md']);
+    });
+
+    it("skips metadata terms for notes that aren't indexed yet", () => {
+        expect(matching('tag:#work', ['Inbox/New.md'])).toEqual(['Inbox/New.md']);
+        expect(matching('-tag:#work', ['Inbox/New.md'])).toEqual(['Inbox/New.md']);
+        expect(matching('tag:#work', ['Gone.md'])).toEqual([]);
+    });
+
+    it('checks event terms against events and skips them for plain paths', () => {
+        const filter = FilterQuery.parse('type:edited words>5', context);
+        expect(filter.matchesEvent(modify('Projects/Alpha.md', 10))).toBe(true);
+        expect(filter.matchesEvent(modify('Projects/Alpha.md', 2))).toBe(false);
+        expect(filter.matchesEvent({ timestamp: 0, filePath: 'Projects/Alpha.md', eventType: 'open' })).toBe(false);
+        expect(filter.matchesPath('Projects/Alpha.md')).toBe(true);
+    });
+
+    it('uses the local device for events recorded before sync', () => {
+        const filter = FilterQuery.parse('device:laptop', context);
+        expect(filter.matchesEvent(modify('Projects/Alpha.md', 1))).toBe(true);
+        expect(filter.matchesEvent(modify('Projects/Alpha.md', 1, { deviceId: 'phone' }))).toBe(false);
+    });
+
+    it('expands saved filters', () => {
+        expect(matching('@Work')).toEqual(['Projects/Alpha.md']);
+    });
+
+    it('explains invalid expressions', () => {
+        const error = (query: string) => () => FilterQuery.parse(query, context);
+        expect(error('colour:red')).toThrow('Unknown field "colour"');
+        expect(error('words>many')).toThrow('"words" needs a number');
+        expect(error('(folder:Projects')).toThrow('Missing ")"');
+        expect(error('folder:')).toThrow('Missing a value after "folder:"');
+        expect(error('@missing')).toThrow('No saved filter named "missing"');
+        expect(error('@loop')).toThrow('refers to itself');
+        expect(error('@broken')).toThrow('In saved filter "broken"');
+        expect(error('type:sneeze')).toThrow('Unknown event type "sneeze"');
+    });
+
+    it('builds the legacy include and exclude lists with path patterns', () => {
+        const filter = FilterQuery.fromLists({ includePaths: ['Projects/**', 'Journal/'], excludePaths: ['Beta.md'], excludeRegex: ['\\d{4}-03'] });
+        expect(Object.keys(files).filter(path => filter.matchesPath(path))).toEqual(['Projects/Alpha.md']);
+        expect(FilterQuery.fromLists({ includePaths: [''], excludePaths: [] }).isEmpty()).toBe(true);
+    });
+
+    it('combines two filters', () => {
+        const filter = FilterQuery.parse('folder:Projects', context).and(FilterQuery.parse('-tag:archive', context));
+        expect(Object.keys(files).filter(path => filter.matchesPath(path))).toEqual(['Projects/Alpha.md']);
+    });
+});
@@ -0,0 +1,48 @@
+import { PathPatterns } from '../../src/filters/PathPatterns';
+
+function matching(patterns: string[], paths: string[]): string[] {
+    const parsed = PathPatterns.parse(patterns);
+    return paths.filter(path => parsed.matches(path));
+}
+
+describe('PathPatterns', () => {
+    it('matches a name without a slash at any depth, not as a substring', () => {
+        expect(matching(['log'], ['log', 'log/a.md', 'Notes/log/b.md', 'Catalog.md', 'log.md'])).toEqual(['log', 'log/a.md', 'Notes/log/b.md']);
+    });
+
+    it('anchors patterns containing a slash at the vault root', () => {
+        expect(matching(['Templates/**'], ['Templates/a.md', 'Templates/Sub/b.md', 'Notes/Templates/c.md', 'Templates'])).toEqual(['Templates/a.md', 'Templates/Sub/b.md']);
+        expect(matching(['/Root.md'], ['Root.md', 'Notes/Root.md'])).toEqual(['Root.md']);
+    });
+
+    it('matches across folders with **', () => {
+        expect(matching(['**/*.excalidraw.md'], ['a.excalidraw.md', 'x/y/b.excalidraw.md', 'c.md'])).toEqual(['a.excalidraw.md', 'x/y/b.excalidraw.md']);
+        expect(matching(['a/**/b'], ['a/b', 'a/x/y/b', 'a/b/c.md', 'ab'])).toEqual(['a/b', 'a/x/y/b', 'a/b/c.md']);
+    });
+
+    it('keeps * and ? within a name', () => {
+        expect(matching(['Daily/*.md'], ['Daily/2024.md', 'Daily/Old/2023.md'])).toEqual(['Daily/2024.md']);
+        expect(matching(['a?c.md'], ['abc.md', 'ac.md', 'a/c.md'])).toEqual(['abc.md']);
+    });
+
+    it('supports character classes', () => {
+        expect(matching(['[ab]x.md'], ['ax.md', 'bx.md', 'cx.md'])).toEqual(['ax.md', 'bx.md']);
+        expect(matching(['[!ab]x.md'], ['ax.md', 'cx.md'])).toEqual(['cx.md']);
+    });
+
+    it('only matches folders with a trailing slash', () => {
+        expect(matching(['Archive/'], ['Archive/a.md', 'Notes/Archive/b.md', 'Archive'])).toEqual(['Archive/a.md', 'Notes/Archive/b.md']);
+    });
+
+    it('lets the last matching line decide', () => {
+        const patterns = ['Templates/**', '!Templates/Keep/**', 'Templates/Keep/Drop.md'];
+        expect(matching(patterns, ['Templates/a.md', 'Templates/Keep/b.md', 'Templates/Keep/Drop.md'])).toEqual(['Templates/a.md', 'Templates/Keep/Drop.md']);
+    });
+
+    it('escapes regex characters and skips comments and blank lines', () => {
+        const patterns = PathPatterns.parse(['# notes', '', 'file (1).md']);
+        expect(patterns.matches('file (1).md')).toBe(true);
+        expect(patterns.matches('file 1.md')).toBe(false);
+        expect(PathPatterns.parse(['# only a comment', '  ']).isEmpty()).toBe(true);
+    });
+});
@@ -0,0 +1,46 @@
+import { ActivityDatabase, FileEvent } from '../../src/database/ActivityDatabase';
+import { ActivityGoal, GoalTracker } from '../../src/goals/GoalTracker';
+import { createTestPlugin, TestPlugin } from '../mocks/plugin';
+
+const NOW = window.moment(new Date(2024, 2, 10, 15));
+
+function edit(daysAgo: number, filePath: string, wordsAdded: number): FileEvent {
+    const timestamp = NOW.clone().subtract(daysAgo, 'days').startOf('day').add(10, 'hours').valueOf();
+    return { timestamp, filePath, eventType: 'modify', contentDiff: { added: wordsAdded * 5, removed: 0, wordsAdded, wordsRemoved: 0 } };
+}
+
+function goal(target: number, folder = ''): ActivityGoal {
+    return { id: `goal-${target}-${folder}`, metric: 'words', period: 'daily', target, folder };
+}
+
+describe('GoalTracker', () => {
+    let test: TestPlugin;
+
+    async function start(goals: ActivityGoal[]): Promise<GoalTracker> {
+        test = await createTestPlugin({ goals });
+        return new GoalTracker(test.plugin);
+    }
+
+    afterEach(() => ActivityDatabase.destroyInstance());
+
+    it('counts a day towards the streak when anything was edited, without goals', async () => {
+        const tracker = await start([]);
+        await test.database.importEvents([edit(5, 'Note.md', 1), edit(4, 'Note.md', 1), edit(2, 'Note.md', 1), edit(1, 'Note.md', 1)]);
+
+        expect(await tracker.getStreaks(NOW)).toMatchObject({ current: 2, longest: 2 });
+    });
+
+    it('only counts words in the folder towards a folder goal', async () => {
+        const tracker = await start([goal(100), goal(50, 'Drafts')]);
+        await test.database.importEvents([
+            edit(2, 'Drafts/Story.md', 60), edit(2, 'Notes.md', 50),
+            edit(1, 'Drafts/Story.md', 20), edit(1, 'Notes.md', 100),
+            edit(0, 'Drafts/Story.md', 30), edit(0, 'Drafts/Story.md', 40)
+        ]);
+
+        const streaks = await tracker.getStreaks(NOW);
+        expect(Array.from(streaks.days)).toEqual([['2024-03-08', true], ['2024-03-09', false], ['2024-03-10', false]]);
+        expect(streaks.current).toBe(0);
+        expect((await tracker.getProgress(NOW)).map(progress => progress.current)).toEqual([70, 70]);
+    });
+});
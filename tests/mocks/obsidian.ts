@@ -0,0 +1,56 @@
+import * as moment from 'moment';
+
+/**
+ * The parts of the Obsidian API the tested modules use at runtime
+ */
+export { moment };
+
+export class Events {
+    private handlers: Map<string, ((...data: unknown[]) => unknown)[]> = new Map();
+
+    on(name: string, callback: (...data: unknown[]) => unknown): { name: string, callback: (...data: unknown[]) => unknown } {
+        this.handlers.set(name, [...(this.handlers.get(name) || []), callback]);
+        return { name, callback };
+    }
+
+    trigger(name: string, ...data: unknown[]): void {
+        (this.handlers.get(name) || []).forEach(callback => callback(...data));
+    }
+}
+
+export class TFile {
+    path: string;
+    name: string;
+    basename: string;
+    extension: string;
+
+    constructor(path: string) {
+        this.path = path;
+        this.name = path.split('/').pop()!;
+        this.extension = this.name.includes('.') ? this.name.split('.').pop()! : '';
+        this.basename = this.extension ? this.name.slice(0, -this.extension.length - 1) : this.name;
+    }
+}
+
+export class FileView {
+    file: TFile | null = null;
+}
+
+export class Notice {
+    message: string;
+
+    constructor(message: string) {
+        this.message = message;
+    }
+}
+
+export function getAllTags(cache: { tags?: { tag: string }[], frontmatter?: { tags?: string | string[] } }): string[] {
+    const inline = (cache.tags || []).map(tag => tag.tag);
+    const frontmatter = cache.frontmatter?.tags;
+    const listed = (Array.isArray(frontmatter) ? frontmatter : frontmatter ? [frontmatter] : []).map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+    return [...listed, ...inline];
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
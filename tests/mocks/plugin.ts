@@ -0,0 +1,163 @@
+import { App } from 'obsidian';
+import { Events, TFile } from './obsidian';
+import { ActivityDatabase } from '../../src/database/ActivityDatabase';
+import { MemoryStore } from '../../src/database/MemoryStore';
+import { ActivityFilters } from '../../src/filters/ActivityFilters';
+import DailyActivityPlugin from '../../src/main';
+
+type Settings = DailyActivityPlugin['settings'];
+
+/**
+ * File access below the vault, kept in memory
+ */
+export class MockAdapter {
+    files: Map<string, string> = new Map();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path) || Array.from(this.files.keys()).some(file => file.startsWith(path + '/'));
+    }
+
+    async read(path: string): Promise<string> {
+        if (!this.files.has(path)) throw new Error(`ENOENT: ${path}`);
+        return this.files.get(path)!;
+    }
+
+    async write(path: string, data: string): Promise<void> {
+        this.files.set(path, data);
+    }
+
+    async append(path: string, data: string): Promise<void> {
+        this.files.set(path, (this.files.get(path) ?? '') + data);
+    }
+
+    async mkdir(): Promise<void> {
+        // Folders exist as soon as a file is written to them
+    }
+}
+
+/**
+ * A vault kept in memory. Writes trigger the same events as Obsidian's vault.
+ */
+export class MockVault extends Events {
+    adapter = new MockAdapter();
+    private files: Map<string, TFile> = new Map();
+    private contents: Map<string, string> = new Map();
+
+    getAbstractFileByPath(path: string): TFile | null {
+        return this.files.get(path) || null;
+    }
+
+    getFiles(): TFile[] {
+        return Array.from(this.files.values());
+    }
+
+    async read(file: TFile): Promise<string> {
+        return this.contents.get(file.path) ?? '';
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        const file = new TFile(path);
+        this.files.set(path, file);
+        this.contents.set(path, content);
+        this.trigger('create', file);
+        return file;
+    }
+
+    async modify(file: TFile, content: string): Promise<void> {
+        this.contents.set(file.path, content);
+        this.trigger('modify', file);
+    }
+
+    async process(file: TFile, fn: (content: string) => string): Promise<string> {
+        const content = fn(await this.read(file));
+        await this.modify(file, content);
+        return content;
+    }
+}
+
+/**
+ * A workspace whose open tabs are set by the test
+ */
+export class MockWorkspace extends Events {
+    leftSplit = {};
+    rightSplit = {};
+    rootSplit = {};
+    views: unknown[] = [];
+
+    onLayoutReady(callback: () => void): void {
+        callback();
+    }
+
+    getActiveFile(): TFile | null {
+        return null;
+    }
+
+    iterateAllLeaves(callback: (leaf: unknown) => void): void {
+        this.views.forEach(view => callback({ view, getRoot: () => this.rootSplit, getViewState: () => ({ state: {} }) }));
+    }
+}
+
+export const TEST_SETTINGS: Partial<Settings> = {
+    enableActivityTracking: true,
+    trackFileCreation: true,
+    trackFileModification: true,
+    trackFileDeletion: true,
+    trackFileRename: true,
+    trackFileOpen: true,
+    trackFileFocus: true,
+    contentTrackingDebounceInterval: 1000,
+    dbWriteDebounceInterval: 5000,
+    modifyBatchingEnabled: true,
+    modifyInactivityThreshold: 5000,
+    modifyMaxBatchDuration: 60000,
+    enrichFrontmatter: false,
+    includeBackfillInReports: true,
+    activityTrackingIncludePaths: [],
+    activityTrackingExcludePaths: [],
+    activityTrackingFilter: '',
+    savedFilters: [],
+    dashboardPath: 'Activity Dashboard.md',
+    useChartsPlugin: false,
+    syncEnabled: false,
+    goals: []
+};
+
+export interface TestPlugin {
+    app: App;
+    vault: MockVault;
+    workspace: MockWorkspace;
+    plugin: DailyActivityPlugin;
+    database: ActivityDatabase;
+}
+
+/**
+ * The plugin as the tested modules see it, with an in-memory database. Call
+ * ActivityDatabase.destroyInstance() after each test.
+ */
+export async function createTestPlugin(settings: Partial<Settings> = {}): Promise<TestPlugin> {
+    const storage: Map<string, unknown> = new Map();
+    const vault = new MockVault();
+    const workspace = new MockWorkspace();
+    const app = {
+        vault,
+        workspace,
+        loadLocalStorage: (key: string) => storage.get(key) ?? null,
+        saveLocalStorage: (key: string, value: unknown) => storage.set(key, value)
+    } as unknown as App;
+
+    const plugin = {
+        app,
+        settings: { ...TEST_SETTINGS, ...settings },
+        logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        registerEvent: jest.fn(),
+        register: jest.fn(),
+        registerInterval: jest.fn()
+    } as unknown as DailyActivityPlugin;
+    plugin.filters = new ActivityFilters(app, plugin);
+
+    const database = ActivityDatabase.getInstance(app, plugin);
+    await database.initialize(new MemoryStore(plugin));
+    plugin.database = database;
+
+    return { app, vault, workspace, plugin, database };
+}
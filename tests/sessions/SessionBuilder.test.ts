@@ -0,0 +1,72 @@
+import { FileEvent } from '../../src/database/ActivityDatabase';
+import { FileEventType } from '../../src/database/FileEventTypes';
+import { SessionBuilder } from '../../src/sessions/SessionBuilder';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2024, 2, 4, 9, 0).getTime();
+const options = { idleThreshold: 5 * MINUTE };
+
+function event(minutes: number, eventType: FileEventType, filePath = 'Note.md', extra: Partial<FileEvent> = {}): FileEvent {
+    return { timestamp: START + minutes * MINUTE, filePath, eventType, ...extra };
+}
+
+describe('SessionBuilder', () => {
+    it('joins events within the idle threshold into one session', () => {
+        const sessions = SessionBuilder.buildSessions([event(0, 'open'), event(2, 'modify'), event(4, 'modify')], options);
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0]).toMatchObject({ filePath: 'Note.md', start: START, end: START + 4 * MINUTE, activeDuration: 4 * MINUTE, eventCount: 3 });
+        expect(sessions[0].date).toBe('2024-03-04');
+    });
+
+    it('starts a new session after an idle gap', () => {
+        const sessions = SessionBuilder.buildSessions([event(0, 'modify'), event(1, 'modify'), event(20, 'modify')], options);
+        expect(sessions).toHaveLength(2);
+        expect(sessions.map(session => session.activeDuration)).toEqual([MINUTE, 0]);
+    });
+
+    it('counts longer gaps while the note has focus', () => {
+        const sessions = SessionBuilder.buildSessions([event(0, 'focus'), event(20, 'modify'), event(21, 'blur'), event(40, 'modify')], options);
+        expect(sessions).toHaveLength(2);
+        expect(sessions[0].activeDuration).toBe(21 * MINUTE);
+    });
+
+    it('covers the whole span of a batched modify', () => {
+        const batched = event(10, 'modify', 'Note.md', { contentDiff: { added: 5, removed: 0, batchStartTime: START + 7 * MINUTE } });
+        const [session] = SessionBuilder.buildSessions([batched], options);
+        expect(session.start).toBe(START + 7 * MINUTE);
+        expect(session.activeDuration).toBe(3 * MINUTE);
+    });
+
+    it('keeps separate sessions per note', () => {
+        const sessions = SessionBuilder.buildSessions([event(0, 'modify', 'A.md'), event(1, 'modify', 'B.md'), event(2, 'modify', 'A.md')], options);
+        expect(sessions.map(session => session.filePath).sort()).toEqual(['A.md', 'B.md']);
+    });
+
+    it('follows a note across a rename', () => {
+        const sessions = SessionBuilder.buildSessions([
+            event(0, 'modify', 'Old.md'),
+            event(1, 'rename', 'New.md', { oldPath: 'Old.md' }),
+            event(3, 'modify', 'New.md')
+        ], options);
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0]).toMatchObject({ filePath: 'New.md', activeDuration: 3 * MINUTE });
+    });
+
+    it('sums time per file, most active first', () => {
+        const summary = SessionBuilder.summarizeByFile([
+            { id: 'a1', filePath: 'A.md', date: '2024-03-04', start: 0, end: 0, activeDuration: MINUTE, eventCount: 1 },
+            { id: 'b1', filePath: 'B.md', date: '2024-03-04', start: 0, end: 0, activeDuration: 5 * MINUTE, eventCount: 1 },
+            { id: 'a2', filePath: 'A.md', date: '2024-03-04', start: 0, end: 0, activeDuration: 2 * MINUTE, eventCount: 1 }
+        ]);
+        expect(summary).toEqual([
+            { filePath: 'B.md', sessions: 1, activeDuration: 5 * MINUTE },
+            { filePath: 'A.md', sessions: 2, activeDuration: 3 * MINUTE }
+        ]);
+    });
+
+    it('formats durations', () => {
+        expect(SessionBuilder.formatDuration(45 * 1000)).toBe('45s');
+        expect(SessionBuilder.formatDuration(12 * MINUTE)).toBe('12m');
+        expect(SessionBuilder.formatDuration(65 * MINUTE)).toBe('1h 05m');
+    });
+});
@@ -0,0 +1,4 @@
+import * as moment from 'moment';
+
+// Obsidian exposes moment on the window; the tests run in node
+(global as any).window = { moment };
@@ -0,0 +1,37 @@
+import * as moment from 'moment';
+import { TemplateEngine } from '../../src/templates/TemplateEngine';
+
+describe('TemplateEngine', () => {
+    it('fills in values and dotted paths', () => {
+        expect(TemplateEngine.render('{name} has {stats.words} words', { name: 'Note', stats: { words: 12 } })).toBe('Note has 12 words');
+    });
+
+    it('leaves unknown names as written', () => {
+        expect(TemplateEngine.render('{missing}', {})).toBe('{missing}');
+    });
+
+    it('formats dates', () => {
+        const date = moment('2024-03-04 09:30', 'YYYY-MM-DD HH:mm');
+        expect(TemplateEngine.render('{date} {date:HH:mm}', { date })).toBe('2024-03-04 09:30');
+    });
+
+    it('loops with an index and a limit', () => {
+        const files = [{ path: 'a' }, { path: 'b' }, { path: 'c' }];
+        expect(TemplateEngine.render('{#each files limit=2}{@index}.{path} {/each}', { files })).toBe('1.a 2.b ');
+    });
+
+    it('chooses between branches, treating empty values as false', () => {
+        const template = '{#if files}some{else}none{/if}|{#if !count}zero{/if}';
+        expect(TemplateEngine.render(template, { files: [], count: 0 })).toBe('none|zero');
+        expect(TemplateEngine.render(template, { files: [1], count: 2 })).toBe('some|');
+    });
+
+    it('lets a block tag alone on its line take the whole line', () => {
+        expect(TemplateEngine.render('# Title\n{#if show}\nshown\n{/if}\nend', { show: true })).toBe('# Title\nshown\nend');
+    });
+
+    it('rejects unbalanced blocks', () => {
+        expect(() => TemplateEngine.parse('{#each files}{path}')).toThrow();
+        expect(() => TemplateEngine.parse('{/if}')).toThrow();
+    });
+});